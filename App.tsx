@@ -1,96 +1,210 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { generateScript, generateSpeech, addAudioToScript } from './services/geminiService';
-import { VideoScript, FPS, TRANSITION_DURATION_IN_FRAMES } from './types';
-import { Player, PlayerRef } from '@remotion/player';
-import { MyVideoComposition } from './components/RemotionVideo';
-import { Loader2, Clapperboard, Play, FileText, AlertCircle, Download, RefreshCw, Music, Table, Image as ImageIcon, Monitor, Smartphone, Square as SquareIcon, Mic, Wand2, FileAudio, Speaker } from 'lucide-react';
-
-type AspectRatio = '16:9' | '1:1' | '9:16';
-
-// --- WAV Export Helpers ---
-const writeString = (view: DataView, offset: number, string: string) => {
-  for (let i = 0; i < string.length; i++) {
-    view.setUint8(offset + i, string.charCodeAt(i));
-  }
+import React, { useState, useRef, useEffect, useReducer, useMemo } from 'react';
+import { generateSpeech, addAudioToScript, mergeGeneratedAudio, getPhoneticText, getSpokenText, isAudioStale, SpeechBatchReport, DEFAULT_SPEECH_CONCURRENCY, SPEECH_ENGINES, DEFAULT_SPEECH_SETTINGS, getSpeechEngine, resolveVoice } from './services/speechService';
+import { SCRIPT_PROVIDERS, DEFAULT_SCRIPT_PROVIDER_ID, getScriptProvider } from './services/scriptProvider';
+import { listProjects, saveProject, loadProject, renameProject, duplicateProject, deleteProject, createProjectId } from './services/projectStore';
+import { exportProjectBundle, importProjectBundle, BUNDLE_EXTENSION } from './services/projectBundle';
+import { renderVideo, RenderStage } from './services/renderService';
+import { exportCaptions, CaptionFormat } from './services/captions';
+import { buildChapters, exportChapters, ChapterExportFormat, CHAPTER_EXPORT_FORMATS, DEFAULT_CHAPTER_SETTINGS } from './services/chapters';
+import { DEFAULT_CAST, getSpeaker } from './services/cast';
+import { VideoScript, Scene, SubtitleChunk, ReferenceMaterial, AspectRatio, CastMember, ProjectSettings, ProjectSummary, ScriptProviderId, SpeechSettings, SpeechEngineId, MusicSettings, LexiconEntry, Theme, LibraryAsset, MasteringSettings, PodcastSettings, ChapterSettings, AudioExportFormat, FPS } from './types';
+import { Player } from '@remotion/player';
+import { MyVideoComposition, getCompositionDimensions } from './components/RemotionVideo';
+import { buildTimeline, getDurationInFrames, getSceneSecondsForAudio } from './services/timeline';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { CastEditor } from './components/CastEditor';
+import { SubtitleTimingEditor } from './components/SubtitleTimingEditor';
+import { MusicSettingsPanel } from './components/MusicSettingsPanel';
+import { SceneEditor } from './components/SceneEditor';
+import { HistoryPanel } from './components/HistoryPanel';
+import { SpeechBatchReportPanel } from './components/SpeechBatchReportPanel';
+import { TtsCachePanel } from './components/TtsCachePanel';
+import { LintIssueList } from './components/LintIssueList';
+import { LexiconEditor, LexiconScope } from './components/LexiconEditor';
+import { PhoneticTextarea } from './components/PhoneticTextarea';
+import { DataImportPanel } from './components/DataImportPanel';
+import { ThemeEditor } from './components/ThemeEditor';
+import { AssetLibraryPanel } from './components/AssetLibraryPanel';
+import { MasteringPanel } from './components/MasteringPanel';
+import { PodcastPanel } from './components/PodcastPanel';
+import { ChaptersPanel } from './components/ChaptersPanel';
+import { historyReducer, EMPTY_HISTORY, getPresentScript, canUndo, canRedo, ScriptUpdate } from './services/history';
+import { withScenes, updateScene, insertScene, duplicateScene, deleteScene, moveScene, createBlankScene, withSceneIds } from './services/scenes';
+import { DEFAULT_MUSIC_SETTINGS } from './services/music';
+import { DEFAULT_MASTERING_SETTINGS, mixProgramAudio, measureClipLoudness } from './services/mastering';
+import { encodeWav } from './services/wav';
+import { DEFAULT_PODCAST_SETTINGS, exportPodcastMp3 } from './services/podcast';
+import { alignSubtitlesToAudio } from './services/subtitleAlignment';
+import { lintScript, applyLintFix, applyAllLintFixes, LintIssue } from './services/scriptLinter';
+import { normalizePhoneticDialogue } from './services/readingNormalizer';
+import { mergeLexicons, loadGlobalLexicon, saveGlobalLexicon, lexiconToCsv } from './services/lexicon';
+import { DEFAULT_THEME } from './services/themes';
+import { loadAssetLibrary, importAssets } from './services/assets';
+import { Loader2, Clapperboard, Play, FileText, AlertCircle, Download, RefreshCw, Music, Table, Image as ImageIcon, Monitor, Smartphone, Square as SquareIcon, Mic, Wand2, FileAudio, Speaker, Package, Cpu, AudioLines, Captions, UserRound, GripVertical, Pencil, Copy, Trash2, Plus, XCircle, Database, ListOrdered } from 'lucide-react';
+
+const DEFAULT_INTRO_BACKGROUND = 'https://myinfograph-b5831.web.app/haikei_v2.png';
+const AUTOSAVE_DELAY_MS = 1000;
+const SCRIPT_PROVIDER_STORAGE_KEY = 'scriptProvider';
+const SPEECH_CONCURRENCY_STORAGE_KEY = 'speechConcurrency';
+
+const RENDER_STAGE_LABELS: Record<RenderStage, string> = {
+  uploading: 'Uploading',
+  queued: 'Queued',
+  bundling: 'Preparing',
+  rendering: 'Rendering',
+  downloading: 'Downloading',
+  done: 'Done',
+  error: 'Failed',
 };
 
-const exportWav = (audioBuffer: AudioBuffer) => {
-  const numChannels = 1; // Export as mono for speech
-  const sampleRate = audioBuffer.sampleRate;
-  const format = 1; // PCM
-  const bitDepth = 16;
-  
-  const length = audioBuffer.length * numChannels * (bitDepth / 8);
-  const buffer = new ArrayBuffer(44 + length);
-  const view = new DataView(buffer);
-
-  // RIFF chunk descriptor
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + length, true);
-  writeString(view, 8, 'WAVE');
-
-  // fmt sub-chunk
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, format, true);
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * numChannels * (bitDepth / 8), true);
-  view.setUint16(32, numChannels * (bitDepth / 8), true);
-  view.setUint16(34, bitDepth, true);
-
-  // data sub-chunk
-  writeString(view, 36, 'data');
-  view.setUint32(40, length, true);
-
-  // Write data
-  const channelData = audioBuffer.getChannelData(0); 
-  let offset = 44;
-  for (let i = 0; i < channelData.length; i++) {
-    const sample = Math.max(-1, Math.min(1, channelData[i]));
-    const int16 = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
-    view.setInt16(offset, int16, true);
-    offset += 2;
-  }
-
-  return new Blob([buffer], { type: 'audio/wav' });
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
 };
 
 const App: React.FC = () => {
   const [prompt, setPrompt] = useState('');
+  const [referenceData, setReferenceData] = useState<ReferenceMaterial | null>(null); // Imported table the script must cite
   const [loading, setLoading] = useState(false); // Script loading
   const [audioLoading, setAudioLoading] = useState(false); // Batch Audio loading
   const [audioProgress, setAudioProgress] = useState<{current: number, total: number} | null>(null);
-  const [videoData, setVideoData] = useState<VideoScript | null>(null);
+  const [audioReport, setAudioReport] = useState<SpeechBatchReport | null>(null);
+  // Parallel TTS requests; depends on the account's rate limits rather than the project
+  const [speechConcurrency, setSpeechConcurrency] = useState(
+    () => Number(localStorage.getItem(SPEECH_CONCURRENCY_STORAGE_KEY)) || DEFAULT_SPEECH_CONCURRENCY
+  );
+  const audioAbortRef = useRef<AbortController | null>(null);
+  const [cachedAudioUrls, setCachedAudioUrls] = useState<Set<string>>(new Set()); // Takes served from the TTS cache
+  const [history, dispatchHistory] = useReducer(historyReducer, EMPTY_HISTORY);
+  const videoData = getPresentScript(history);
   const [error, setError] = useState<string | null>(null);
-  const [isRecording, setIsRecording] = useState(false);
+  const [renderProgress, setRenderProgress] = useState<{ stage: RenderStage, progress: number } | null>(null);
   const [isExportingAudio, setIsExportingAudio] = useState(false);
+  const [audioFormat, setAudioFormat] = useState<AudioExportFormat>('wav');
+  const [captionFormat, setCaptionFormat] = useState<CaptionFormat>('srt');
+  const [captionSpeakerLabels, setCaptionSpeakerLabels] = useState(false);
+  const [chapterFormat, setChapterFormat] = useState<ChapterExportFormat>('youtube');
+  const [isExportingBundle, setIsExportingBundle] = useState(false);
   const [regeneratingIds, setRegeneratingIds] = useState<Set<number>>(new Set());
+  const [aligningIds, setAligningIds] = useState<Set<number>>(new Set());
   const [activeTab, setActiveTab] = useState<'script' | 'reference'>('script');
-  const [introBackground, setIntroBackground] = useState('https://myinfograph-b5831.web.app/haikei_v2.png');
+  const [editingSceneIndex, setEditingSceneIndex] = useState<number | null>(null);
+  const [dragSceneIndex, setDragSceneIndex] = useState<number | null>(null);
+  const [introBackground, setIntroBackground] = useState(DEFAULT_INTRO_BACKGROUND);
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
-  const [recordingFormat, setRecordingFormat] = useState<{mime: string, ext: string} | null>(null);
+  const [cast, setCast] = useState<CastMember[]>(DEFAULT_CAST);
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS);
+  const [music, setMusic] = useState<MusicSettings>(DEFAULT_MUSIC_SETTINGS);
+  const [lexicon, setLexicon] = useState<LexiconEntry[]>([]); // Project terms
+  const [globalLexicon, setGlobalLexicon] = useState<LexiconEntry[]>(loadGlobalLexicon);
+  const [theme, setTheme] = useState<Theme>(DEFAULT_THEME);
+  const [mastering, setMastering] = useState<MasteringSettings>(DEFAULT_MASTERING_SETTINGS);
+  const [isMeasuringLoudness, setIsMeasuringLoudness] = useState(false);
+  const [podcast, setPodcast] = useState<PodcastSettings>(DEFAULT_PODCAST_SETTINGS);
+  const [chapterSettings, setChapterSettings] = useState<ChapterSettings>(DEFAULT_CHAPTER_SETTINGS);
+  const [assets, setAssets] = useState<LibraryAsset[]>([]); // Background library, shared by all projects
+  const [scriptProviderId, setScriptProviderId] = useState<ScriptProviderId>(
+    () => (localStorage.getItem(SCRIPT_PROVIDER_STORAGE_KEY) as ScriptProviderId | null) ?? DEFAULT_SCRIPT_PROVIDER_ID
+  );
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   
-  const playerRef = useRef<PlayerRef>(null);
+  const loadedScriptRef = useRef<VideoScript | null>(null); // Freshly opened script, skipped by the next autosave run
+
+  // Every script change goes through the history so it can be undone
+  const editScript = (label: string, update: ScriptUpdate, coalesceKey?: string) =>
+    dispatchHistory({ type: 'commit', update, label, coalesceKey, at: Date.now() });
+  const resetScript = (script: VideoScript | null, label?: string) =>
+    dispatchHistory({ type: 'reset', script, label, at: Date.now() });
+
+  // Structural edits shift indices, so they and undo are blocked while audio for some scene is in flight
+  const isSceneListLocked = audioLoading || regeneratingIds.size > 0 || aligningIds.size > 0;
+
+  // Terms applied to the TTS text; project entries win over global ones
+  const activeLexicon = useMemo(() => mergeLexicons(lexicon, globalLexicon), [lexicon, globalLexicon]);
+
+  // Rule check of the present script; recomputed after generation and every edit
+  const lintIssues = useMemo(() => videoData ? lintScript(videoData, cast, activeLexicon) : [], [videoData, cast, activeLexicon]);
+  const fixableIssueCount = lintIssues.filter(issue => issue.fix).length;
+
+  const timeline = useMemo(() => videoData ? buildTimeline(videoData.scenes).scenes : [], [videoData]);
+  const chapters = useMemo(() => videoData ? buildChapters(videoData.scenes, videoData.topic, chapterSettings) : [], [videoData, chapterSettings]);
+
+  const projectSettings: ProjectSettings = { aspectRatio, introBackground, cast, speech: speechSettings, music, lexicon, theme, mastering, podcast, chapters: chapterSettings };
+  const speechEngine = getSpeechEngine(speechSettings.engine);
+
+  const refreshProjects = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (e) {
+      console.error("Failed to list projects", e);
+    }
+  };
 
   useEffect(() => {
-    // Check for supported media types on mount
-    if (typeof MediaRecorder !== 'undefined') {
-      const supportedFormats = [
-        { mime: "video/mp4", ext: "mp4" },
-        { mime: "video/webm; codecs=vp9", ext: "webm" },
-        { mime: "video/webm", ext: "webm" }
-      ];
-      const selected = supportedFormats.find(f => MediaRecorder.isTypeSupported(f.mime));
-      if (selected) {
-        setRecordingFormat(selected);
-      } else {
-        // Fallback default
-        setRecordingFormat({ mime: "video/webm", ext: "webm" });
+    refreshProjects();
+    loadAssetLibrary()
+      .then(setAssets)
+      .catch(e => console.error("Failed to load the background library", e));
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(SCRIPT_PROVIDER_STORAGE_KEY, scriptProviderId);
+  }, [scriptProviderId]);
+
+  useEffect(() => {
+    localStorage.setItem(SPEECH_CONCURRENCY_STORAGE_KEY, String(speechConcurrency));
+  }, [speechConcurrency]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y). Text fields keep their native undo while focused.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isSceneListLocked) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        e.preventDefault();
+        dispatchHistory({ type: key === 'y' || e.shiftKey ? 'redo' : 'undo' });
       }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isSceneListLocked]);
+
+  // Autosave the open project (script, audio bytes and render settings) shortly after each change
+  useEffect(() => {
+    if (!videoData || !projectId) return;
+    // Only the run right after opening sees exactly what was loaded; every later run is an edit,
+    // including settings changes and undoing back to the loaded script
+    if (videoData === loadedScriptRef.current) {
+      loadedScriptRef.current = null;
+      return;
     }
-  }, []);
+
+    setSaveState('saving');
+    const timer = setTimeout(async () => {
+      try {
+        await saveProject(projectId, videoData, projectSettings);
+        setSaveState('saved');
+        refreshProjects();
+      } catch (e) {
+        console.error("Autosave failed", e);
+        setSaveState('error');
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [videoData, aspectRatio, introBackground, cast, speechSettings, music, lexicon, theme, mastering, podcast, chapterSettings, projectId]);
 
   // Step 1: Generate Script
   const handleGenerate = async () => {
@@ -98,13 +212,19 @@ const App: React.FC = () => {
 
     setLoading(true);
     setError(null);
-    setVideoData(null);
+    resetScript(null);
+    setProjectId(null);
     setAudioProgress(null);
     setActiveTab('script');
 
     try {
-      const data = await generateScript(prompt);
-      setVideoData(data);
+      const data = await getScriptProvider(scriptProviderId).generateScript(prompt, {
+        cast,
+        lexicon: activeLexicon,
+        referenceData: referenceData ?? undefined,
+      });
+      setProjectId(createProjectId());
+      resetScript(data, 'Generate script');
     } catch (err: any) {
       setError(err.message || 'Failed to generate video script.');
       console.error(err);
@@ -114,26 +234,176 @@ const App: React.FC = () => {
   };
 
   // Step 2: Generate Audio Batch
-  const handleBatchGenerateAudio = async () => {
+  const markCachedAudio = (urls: string[]) => {
+    if (urls.length) setCachedAudioUrls(prev => new Set([...prev, ...urls]));
+  };
+
+  // sceneIndices limits the run to those scenes ("retry failed only")
+  const handleBatchGenerateAudio = async (sceneIndices?: number[]) => {
     if (!videoData) return;
     
+    const controller = new AbortController();
+    audioAbortRef.current = controller;
     setAudioLoading(true);
-    setAudioProgress({ current: 0, total: videoData.scenes.length });
+    setAudioReport(null);
+    setAudioProgress({ current: 0, total: sceneIndices?.length ?? videoData.scenes.length });
 
     try {
-      const updatedData = await addAudioToScript(videoData, (completed, total) => {
-        setAudioProgress({ current: completed, total });
+      const { script, report } = await addAudioToScript(videoData, cast, speechSettings, {
+        concurrency: speechConcurrency,
+        sceneIndices,
+        lexicon: activeLexicon,
+        signal: controller.signal,
+        onProgress: (completed, total) => setAudioProgress({ current: completed, total }),
       });
-      setVideoData(updatedData);
+      // Keep whatever finished, also after a cancel, on top of edits made while the batch ran
+      editScript(sceneIndices ? 'Retry failed voiceovers' : 'Generate voiceover', prev => mergeGeneratedAudio(prev, videoData, script, report));
+      markCachedAudio(report.cacheHits.map(idx => script.scenes[idx].audioUrl!));
+      setAudioReport(report.failures.length > 0 || report.cancelled || report.cacheHits.length > 0 ? report : null);
     } catch (err) {
       console.error("Batch Audio Error:", err);
-      alert("Some audio files failed to generate.");
+      alert("Audio generation failed. Please try again.");
     } finally {
+      audioAbortRef.current = null;
       setAudioLoading(false);
       setAudioProgress(null);
     }
   };
 
+  const handleCancelBatchAudio = () => audioAbortRef.current?.abort();
+
+  // --- Project Library ---
+  const handleOpenProject = async (id: string) => {
+    try {
+      const project = await loadProject(id);
+      setError(null);
+      setAudioProgress(null);
+      setActiveTab('script');
+      setAspectRatio(project.settings.aspectRatio);
+      setIntroBackground(project.settings.introBackground);
+      setCast(project.settings.cast);
+      setSpeechSettings(project.settings.speech);
+      setMusic(project.settings.music);
+      setLexicon(project.settings.lexicon);
+      setTheme(project.settings.theme);
+      setMastering(project.settings.mastering);
+      setPodcast(project.settings.podcast);
+      setChapterSettings(project.settings.chapters);
+      // Add scene ids before the history does, so the autosave still recognizes the loaded script
+      const script = withSceneIds(project.script);
+      loadedScriptRef.current = script;
+      resetScript(script);
+      setProjectId(project.summary.id);
+      setSaveState('saved');
+    } catch (e: any) {
+      console.error("Failed to open project", e);
+      alert(e.message || "Failed to open project.");
+      refreshProjects();
+    }
+  };
+
+  const handleNewProject = () => {
+    resetScript(null);
+    setProjectId(null);
+    setPrompt('');
+    setReferenceData(null);
+    setError(null);
+    setSaveState('idle');
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    try {
+      // Flush pending edits first so the copy matches what is on screen
+      if (id === projectId && videoData) {
+        await saveProject(id, videoData, projectSettings);
+      }
+      const copy = await duplicateProject(id);
+      await refreshProjects();
+      await handleOpenProject(copy.id);
+    } catch (e) {
+      console.error("Failed to duplicate project", e);
+      alert("Failed to duplicate project.");
+    }
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    try {
+      await renameProject(id, name);
+      refreshProjects();
+    } catch (e) {
+      console.error("Failed to rename project", e);
+      alert("Failed to rename project.");
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      if (id === projectId) handleNewProject();
+      refreshProjects();
+    } catch (e) {
+      console.error("Failed to delete project", e);
+      alert("Failed to delete project.");
+    }
+  };
+
+  // --- Portable Bundle ---
+  const handleImportBundle = async (file: File) => {
+    try {
+      const bundle = await importProjectBundle(file);
+      const added = await importAssets(bundle.assets);
+      setAssets(prev => [...prev, ...added]);
+      const id = createProjectId();
+      await saveProject(id, bundle.script, bundle.settings, bundle.name);
+      await refreshProjects();
+      await handleOpenProject(id);
+    } catch (e: any) {
+      console.error("Bundle import failed", e);
+      alert(e.message || "Failed to import project bundle.");
+    }
+  };
+
+  const handleExportBundle = async () => {
+    if (!videoData) return;
+
+    setIsExportingBundle(true);
+    try {
+      const name = projects.find(p => p.id === projectId)?.name ?? videoData.topic;
+      const bundle = await exportProjectBundle(videoData, projectSettings, name, assets);
+      downloadBlob(bundle, `${name.replace(/\s+/g, '_')}.${BUNDLE_EXTENSION}`);
+    } catch (e) {
+      console.error("Bundle export failed", e);
+      alert("Failed to export project bundle. Please try again.");
+    } finally {
+      setIsExportingBundle(false);
+    }
+  };
+
+  // --- Lexicon ---
+  const handleLexiconChange = (scope: LexiconScope, entries: LexiconEntry[]) => {
+    if (scope === 'project') {
+      setLexicon(entries);
+    } else {
+      setGlobalLexicon(entries);
+      saveGlobalLexicon(entries);
+    }
+  };
+
+  const downloadLexicon = (scope: LexiconScope) => {
+    const entries = scope === 'project' ? lexicon : globalLexicon;
+    const name = scope === 'project' ? `${(videoData?.topic ?? 'project').replace(/\s+/g, '_')}_lexicon` : 'global_lexicon';
+    downloadBlob(new Blob([lexiconToCsv(entries)], { type: 'text/csv;charset=utf-8' }), `${name}.csv`);
+  };
+
+  // Voices are chosen per engine: Gemini uses each cast member's prebuilt voice, other engines the project's voice map
+  const handleVoiceChange = (member: CastMember, voice: string) => {
+    if (speechEngine.id === 'gemini') {
+      setCast(cast.map(m => m.id === member.id ? { ...m, voiceName: voice } : m));
+    } else {
+      setSpeechSettings({ ...speechSettings, voiceMap: { ...speechSettings.voiceMap, [member.id]: voice } });
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -145,7 +415,98 @@ const App: React.FC = () => {
     if (!videoData) return;
     const newScenes = [...videoData.scenes];
     newScenes[index] = { ...newScenes[index], phoneticDialogue: value };
-    setVideoData({ ...videoData, scenes: newScenes });
+    editScript(`Edit reading (scene ${index + 1})`, { ...videoData, scenes: newScenes }, `phonetic-${index}`);
+  };
+
+  // --- Script Lint ---
+  const handleLintFix = (issue: LintIssue) => {
+    if (!videoData) return;
+    editScript(`Fix scene ${issue.sceneIndex + 1}: ${issue.fixLabel ?? issue.rule}`, applyLintFix(videoData, issue));
+  };
+
+  const handleFixAllLint = () => {
+    if (!videoData) return;
+    editScript(`Fix ${fixableIssueCount} script issues`, applyAllLintFixes(videoData, cast, activeLexicon));
+  };
+
+  const handleNormalizeReading = (index: number) => {
+    if (!videoData) return;
+    const phonetic = videoData.scenes[index].phoneticDialogue || videoData.scenes[index].dialogue;
+    const normalized = normalizePhoneticDialogue(phonetic, cast);
+    if (normalized === videoData.scenes[index].phoneticDialogue) return;
+    editScript(`Normalize reading (scene ${index + 1})`, updateScene(videoData, index, { phoneticDialogue: normalized }));
+  };
+
+  // --- Scene Editing ---
+  const handleSceneChange = (index: number, patch: Partial<Scene>) => {
+    if (!videoData) return;
+    const fields = Object.keys(patch).join(',');
+    editScript(`Edit scene ${index + 1}`, updateScene(videoData, index, patch), `scene-${index}-${fields}`);
+  };
+
+  const handleInsertScene = (index: number) => {
+    if (!videoData) return;
+    // Continue the conversation with the next speaker
+    const previousSpeaker = getSpeaker(videoData.scenes[index - 1]?.dialogue ?? '', cast);
+    const speaker = cast[(cast.indexOf(previousSpeaker ?? cast[cast.length - 1]) + 1) % cast.length];
+    setAudioReport(null); // Its scene numbers no longer apply
+    editScript(`Insert scene ${index + 1}`, insertScene(videoData, index, createBlankScene(speaker)));
+    setEditingSceneIndex(index);
+  };
+
+  const handleDuplicateScene = (index: number) => {
+    if (!videoData) return;
+    setAudioReport(null);
+    editScript(`Duplicate scene ${index + 1}`, duplicateScene(videoData, index));
+  };
+
+  const handleDeleteScene = (index: number) => {
+    if (!videoData || videoData.scenes.length <= 1) return;
+    if (!window.confirm(`Delete scene ${index + 1}?`)) return;
+    setAudioReport(null);
+    editScript(`Delete scene ${index + 1}`, deleteScene(videoData, index));
+    setEditingSceneIndex(null);
+  };
+
+  const handleSceneDrop = (index: number) => {
+    if (!videoData || dragSceneIndex === null) return;
+    setAudioReport(null);
+    editScript(`Move scene ${dragSceneIndex + 1} to ${index + 1}`, moveScene(videoData, dragSceneIndex, index));
+    setDragSceneIndex(null);
+    setEditingSceneIndex(null);
+  };
+
+  const handleSubtitleChunksChange = (index: number, chunks: SubtitleChunk[]) => {
+    if (!videoData) return;
+    const newScenes = [...videoData.scenes];
+    newScenes[index] = { ...newScenes[index], subtitleChunks: chunks };
+    editScript(`Adjust subtitle timing (scene ${index + 1})`, { ...videoData, scenes: newScenes }, `subtitles-${index}`);
+  };
+
+  // Re-runs alignment on the existing audio, discarding manual overrides
+  const handleAutoAlignSubtitles = async (index: number) => {
+    const scene = videoData?.scenes[index];
+    if (!scene?.audioUrl) return;
+
+    setAligningIds(prev => new Set(prev).add(index));
+    try {
+      const chunks = await alignSubtitlesToAudio(scene.dialogue, scene.audioUrl, cast);
+      if (!chunks) {
+        alert("Could not detect speech in this scene's audio.");
+        return;
+      }
+      editScript(`Auto-align subtitles (scene ${index + 1})`, prev => {
+        const newScenes = [...prev.scenes];
+        newScenes[index] = { ...newScenes[index], subtitleChunks: chunks };
+        return { ...prev, scenes: newScenes };
+      });
+    } finally {
+      setAligningIds(prev => {
+        const next = new Set(prev);
+        next.delete(index);
+        return next;
+      });
+    }
   };
 
   // Individual audio regeneration (for corrections)
@@ -161,40 +522,40 @@ const App: React.FC = () => {
 
     try {
       // Fallback to dialogue if phonetic is empty
-      let textToSpeak = (scene.phoneticDialogue || scene.dialogue || "").trim();
+      const currentText = (scene.phoneticDialogue || scene.dialogue || "").trim();
+      const phoneticText = getPhoneticText(scene, cast);
+      const textToSpeak = getSpokenText(scene, cast, activeLexicon);
       
-      const speakerRegex = /^(じぇんば|あいば)[:：]/;
-      
-      if (!speakerRegex.test(textToSpeak)) {
-         const originalSpeakerMatch = scene.dialogue.match(speakerRegex);
-         const speaker = originalSpeakerMatch ? originalSpeakerMatch[1] : 'じぇんば';
-         
-         textToSpeak = `${speaker}: ${textToSpeak}`;
-         
+      if (phoneticText !== currentText) {
          // Update the state with the fixed prefix so the UI matches
          const newScenes = [...videoData.scenes];
-         newScenes[index] = { ...newScenes[index], phoneticDialogue: textToSpeak };
-         setVideoData({ ...videoData, scenes: newScenes });
+         newScenes[index] = { ...newScenes[index], phoneticDialogue: phoneticText };
+         editScript(`Fix speaker prefix (scene ${index + 1})`, { ...videoData, scenes: newScenes });
       }
 
-      const result = await generateSpeech(textToSpeak);
+      // Retrying unchanged text asks for a new take; otherwise an earlier take may be reused
+      const isRetake = !!scene.audioUrl && scene.audioText === textToSpeak;
+      const result = await generateSpeech(textToSpeak, cast, speechSettings, { useCache: !isRetake });
       if (result) {
-        setVideoData(prev => {
-          if (!prev) return null;
+        if (result.cached) markCachedAudio([result.audioUrl]);
+        const subtitleChunks = await alignSubtitlesToAudio(scene.dialogue, result.audioUrl, cast);
+        editScript(`Regenerate audio (scene ${index + 1})`, prev => {
           const newScenes = [...prev.scenes];
           
-          const audioDuration = result.duration + 0.6; 
-          const finalDuration = Math.max(newScenes[index].durationInSeconds, audioDuration);
+          const finalDuration = Math.max(newScenes[index].durationInSeconds, getSceneSecondsForAudio(newScenes, index, result.duration));
 
           newScenes[index] = {
-            ...scene,
-            phoneticDialogue: textToSpeak, 
+            ...newScenes[index],
+            phoneticDialogue: phoneticText,
             audioUrl: result.audioUrl,
-            durationInSeconds: finalDuration
+            audioText: textToSpeak,
+            audioDuration: result.duration,
+            audioLoudness: result.loudness,
+            durationInSeconds: finalDuration,
+            subtitleChunks
           };
 
-          const totalDuration = newScenes.reduce((acc, s) => acc + s.durationInSeconds, 0);
-          return { ...prev, scenes: newScenes, totalDurationInSeconds: Math.ceil(totalDuration) };
+          return withScenes(prev, newScenes);
         });
       }
     } catch (error) {
@@ -209,85 +570,25 @@ const App: React.FC = () => {
     }
   };
 
-  const getDurationInFrames = () => {
-    if (!videoData) return 0;
-    const totalSceneFrames = videoData.scenes.reduce(
-      (acc, scene) => acc + Math.ceil(scene.durationInSeconds * FPS),
-      0
-    );
-    const overlapFrames = Math.max(0, videoData.scenes.length - 1) * TRANSITION_DURATION_IN_FRAMES;
-    return totalSceneFrames - overlapFrames;
-  };
-
-  const getDimensions = () => {
-    switch (aspectRatio) {
-      case '16:9': return { width: 1280, height: 720 };
-      case '1:1': return { width: 1080, height: 1080 };
-      case '9:16': return { width: 720, height: 1280 };
-      default: return { width: 1280, height: 720 };
-    }
-  };
-
-  const { width: compositionWidth, height: compositionHeight } = getDimensions();
+  const { width: compositionWidth, height: compositionHeight } = getCompositionDimensions(aspectRatio);
   const hasAudio = videoData?.scenes.every(s => !!s.audioUrl) ?? false;
 
-  // --- Export Single Merged WAV File ---
+  // --- Export Single Merged Audio File ---
+  // WAV for local editing, or a tagged MP3 with chapters for podcast hosts
   const downloadAudioTrack = async () => {
     if (!videoData || !hasAudio) return;
     
     setIsExportingAudio(true);
     try {
-      const CtxClass = window.AudioContext || (window as any).webkitAudioContext;
-      const ctx = new CtxClass();
-      
-      // 1. Fetch all audio data & Decode
-      const buffers: { buffer: AudioBuffer, start: number }[] = [];
-      let currentFrame = 0;
-      
-      // We must follow the exact same timing logic as the video player
-      for (const scene of videoData.scenes) {
-        if (scene.audioUrl) {
-          const response = await fetch(scene.audioUrl);
-          const arrayBuffer = await response.arrayBuffer();
-          const audioBuffer = await ctx.decodeAudioData(arrayBuffer);
-          
-          const startSeconds = currentFrame / FPS;
-          buffers.push({ buffer: audioBuffer, start: startSeconds });
-        }
-        
-        const durationInFrames = Math.ceil(scene.durationInSeconds * FPS);
-        const nextFrame = currentFrame + Math.max(0, durationInFrames - TRANSITION_DURATION_IN_FRAMES);
-        currentFrame = nextFrame;
+      const channels = await mixProgramAudio({ scenes: videoData.scenes, cast, music, mastering });
+      const baseName = videoData.topic.replace(/\s+/g, '_');
+      if (audioFormat === 'mp3') {
+        const mp3Blob = await exportPodcastMp3({ script: videoData, channels, sampleRate: mastering.sampleRate, podcast, chapterSettings });
+        downloadBlob(mp3Blob, `${baseName}.mp3`);
+      } else {
+        const wavBlob = encodeWav(channels, mastering.sampleRate, mastering.bitDepth);
+        downloadBlob(wavBlob, `${baseName}_full_audio.wav`);
       }
-      
-      const totalDuration = currentFrame / FPS;
-      
-      // 2. Render offline to mix them
-      // 44100Hz is standard for WAV export
-      const offlineCtx = new OfflineAudioContext(1, Math.ceil(totalDuration * 44100), 44100);
-      
-      buffers.forEach(({ buffer, start }) => {
-        const source = offlineCtx.createBufferSource();
-        source.buffer = buffer;
-        source.connect(offlineCtx.destination);
-        source.start(start);
-      });
-      
-      const renderedBuffer = await offlineCtx.startRendering();
-      
-      // 3. Convert to WAV Blob
-      const wavBlob = exportWav(renderedBuffer);
-      
-      // 4. Trigger Download
-      const url = URL.createObjectURL(wavBlob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${videoData.topic.replace(/\s+/g, '_')}_full_audio.wav`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      
     } catch (e) {
       console.error("Audio export failed", e);
       alert("Failed to export audio track. Please try again.");
@@ -296,84 +597,60 @@ const App: React.FC = () => {
     }
   };
 
+  // Stores the loudness of clips generated before it was measured, so the preview normalizes them too
+  const handleMeasureLoudness = async () => {
+    if (!videoData) return;
+    setIsMeasuringLoudness(true);
+    try {
+      const measured = await Promise.all(videoData.scenes.map(scene =>
+        scene.audioUrl && scene.audioLoudness === undefined ? measureClipLoudness(scene.audioUrl) : Promise.resolve(undefined)
+      ));
+      editScript('Measure loudness', prev => ({
+        ...prev,
+        scenes: prev.scenes.map((scene, idx) => measured[idx] === undefined ? scene : { ...scene, audioLoudness: measured[idx] }),
+      }));
+    } finally {
+      setIsMeasuringLoudness(false);
+    }
+  };
+
+  // Sidecar captions for platforms that do not accept burned-in subtitles
+  const downloadCaptions = () => {
+    if (!videoData) return;
+    const blob = exportCaptions(videoData.scenes, cast, captionFormat, { speakerLabels: captionSpeakerLabels });
+    downloadBlob(blob, `${videoData.topic.replace(/\s+/g, '_')}_captions.${captionFormat}`);
+  };
+
+  // Chapter list for YouTube descriptions, Markdown show notes or JSON chapters for podcast hosts
+  const downloadChapters = () => {
+    if (!videoData) return;
+    const blob = exportChapters(videoData, chapterFormat, chapterSettings, podcast);
+    const { extension } = CHAPTER_EXPORT_FORMATS.find(format => format.id === chapterFormat)!;
+    downloadBlob(blob, `${videoData.topic.replace(/\s+/g, '_')}_${chapterFormat === 'markdown' ? 'show_notes' : 'chapters'}.${extension}`);
+  };
+
+  // --- Headless MP4 Render ---
+  // The local render server renders the same composition frame by frame, so the file
+  // no longer depends on screen capture, tab focus or real-time playback.
   const downloadVideo = async () => {
     if (!videoData) return;
     if (!hasAudio) {
       if(!window.confirm("Voiceovers have not been generated yet. The video will be silent. Continue?")) return;
     }
 
+    setRenderProgress({ stage: 'uploading', progress: 0 });
     try {
-      const confirmRec = window.confirm(
-        "To download the video, we need to record your screen.\n\n" +
-        "1. Select the 'Chrome Tab' (or 'This Tab') option.\n" +
-        "2. Select this page.\n" +
-        "3. Click 'Share'.\n\nThe recording will happen automatically."
-      );
-      
-      if (!confirmRec) return;
-
-      const stream = await navigator.mediaDevices.getDisplayMedia({
-        video: { 
-          displaySurface: "browser",
-        } as any,
-        audio: true,
-        preferCurrentTab: true, 
-      } as any);
-
-      setIsRecording(true);
-      await new Promise(resolve => setTimeout(resolve, 800));
-
-      // Prioritize MP4 if supported, else fallback to WebM
-      const mimeType = recordingFormat ? recordingFormat.mime : "video/webm";
-      const extension = recordingFormat ? recordingFormat.ext : "webm";
-      
-      // Note: Chrome might claim to support 'video/mp4' but fail to record properly without specific codecs
-      // so we rely on the useEffect check which filters common types.
-      
-      const mediaRecorder = new MediaRecorder(stream, { mimeType });
-      const chunks: BlobPart[] = [];
-
-      mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) chunks.push(e.data);
-      };
-
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(chunks, { type: mimeType });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = `${videoData.topic.replace(/\s+/g, '_')}_${aspectRatio}.${extension}`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-        
-        stream.getTracks().forEach(track => track.stop());
-        setIsRecording(false);
-      };
-
-      mediaRecorder.start();
-      
-      if (playerRef.current) {
-        playerRef.current.seekTo(0);
-        playerRef.current.play();
-      }
-
-      const durationInSeconds = getDurationInFrames() / FPS;
-      const durationMs = (durationInSeconds * 1000) + 1000;
-
-      setTimeout(() => {
-        if (mediaRecorder.state === "recording") {
-           mediaRecorder.stop();
-           if (playerRef.current) {
-             playerRef.current.pause();
-           }
-        }
-      }, durationMs);
-
-    } catch (err) {
-      console.error("Recording error:", err);
-      setIsRecording(false);
+      const name = projects.find(p => p.id === projectId)?.name ?? videoData.topic;
+      const bundle = await exportProjectBundle(videoData, projectSettings, name, assets);
+      const { blob, fileName } = await renderVideo(bundle, (stage, progress) => {
+        setRenderProgress({ stage, progress });
+      });
+      downloadBlob(blob, fileName);
+    } catch (err: any) {
+      console.error("Render error:", err);
+      alert(err.message || "Failed to render video. Please try again.");
+    } finally {
+      setRenderProgress(null);
     }
   };
 
@@ -382,17 +659,40 @@ const App: React.FC = () => {
       <div className="max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-12 gap-8">
         
         {/* Header & Input Section */}
-        <div className={`lg:col-span-4 flex flex-col gap-6 ${isRecording ? 'hidden' : ''}`}>
+        <div className="lg:col-span-4 flex flex-col gap-6">
           <div className="space-y-2">
             <div className="flex items-center gap-2 text-purple-400">
               <Clapperboard className="w-8 h-8" />
               <h1 className="text-2xl font-bold tracking-tight">AI Podcast Director</h1>
             </div>
             <p className="text-slate-400 text-sm">
-              Create a video podcast featuring <b>Jenba</b> and <b>Aiba</b>.
+              Create a video podcast featuring <b>{cast.map(m => m.romanizedName).join(', ')}</b>.
             </p>
           </div>
 
+          <ProjectLibrary
+            projects={projects}
+            activeProjectId={projectId}
+            saveState={saveState}
+            disabled={loading || audioLoading}
+            onOpen={handleOpenProject}
+            onNew={handleNewProject}
+            onDuplicate={handleDuplicateProject}
+            onRename={handleRenameProject}
+            onDelete={handleDeleteProject}
+            onImport={handleImportBundle}
+          />
+
+          {videoData && (
+            <HistoryPanel
+              history={history}
+              onUndo={() => dispatchHistory({ type: 'undo' })}
+              onRedo={() => dispatchHistory({ type: 'redo' })}
+              onJump={(index) => dispatchHistory({ type: 'jump', index })}
+              disabled={isSceneListLocked}
+            />
+          )}
+
           <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl p-5 shadow-xl space-y-4">
             <div>
               <label className="block text-xs font-semibold uppercase text-slate-500 mb-2">
@@ -408,6 +708,12 @@ const App: React.FC = () => {
               />
             </div>
 
+            <DataImportPanel
+              data={referenceData}
+              onChange={setReferenceData}
+              disabled={loading || audioLoading}
+            />
+
             <div>
                <label className="block text-xs font-semibold uppercase text-slate-500 mb-2">
                 Aspect Ratio
@@ -445,6 +751,83 @@ const App: React.FC = () => {
                 placeholder="https://example.com/background.png"
               />
             </div>
+
+            <div>
+              <label className="block text-xs font-semibold uppercase text-slate-500 mb-2 flex items-center gap-2">
+                <AudioLines className="w-3 h-3" />
+                Speech Engine
+              </label>
+              <select
+                className="w-full bg-slate-900/80 border border-slate-700 rounded-lg p-2 text-xs text-slate-300 focus:ring-2 focus:ring-purple-500 outline-none"
+                value={speechSettings.engine}
+                onChange={(e) => setSpeechSettings({ ...speechSettings, engine: e.target.value as SpeechEngineId })}
+                disabled={loading || audioLoading}
+              >
+                {SPEECH_ENGINES.map(engine => (
+                  <option key={engine.id} value={engine.id}>{engine.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <CastEditor
+              cast={cast}
+              onChange={setCast}
+              voices={speechEngine.voices}
+              getVoice={(member) => resolveVoice(speechEngine, cast, member, speechSettings.voiceMap)}
+              onVoiceChange={handleVoiceChange}
+              disabled={loading || audioLoading}
+            />
+
+            <MusicSettingsPanel
+              music={music}
+              onChange={setMusic}
+              disabled={loading || audioLoading}
+            />
+
+            <MasteringPanel
+              mastering={mastering}
+              cast={cast}
+              onChange={setMastering}
+              unmeasuredCount={videoData?.scenes.filter(scene => scene.audioUrl && scene.audioLoudness === undefined).length ?? 0}
+              onMeasure={handleMeasureLoudness}
+              measuring={isMeasuringLoudness}
+              disabled={loading || audioLoading}
+            />
+
+            <PodcastPanel podcast={podcast} onChange={setPodcast} disabled={loading} />
+
+            <ChaptersPanel settings={chapterSettings} onChange={setChapterSettings} chapters={chapters} disabled={loading} />
+
+            <ThemeEditor theme={theme} onChange={setTheme} disabled={loading} />
+
+            <AssetLibraryPanel assets={assets} onAssetsChange={setAssets} disabled={loading} />
+
+            <LexiconEditor
+              projectLexicon={lexicon}
+              globalLexicon={globalLexicon}
+              onChange={handleLexiconChange}
+              onExport={downloadLexicon}
+              disabled={loading || audioLoading}
+            />
+
+            <TtsCachePanel disabled={audioLoading} />
+
+            <div>
+              <label className="block text-xs font-semibold uppercase text-slate-500 mb-2 flex items-center gap-2">
+                <Cpu className="w-3 h-3" />
+                Script Provider
+              </label>
+              <select
+                className="w-full bg-slate-900/80 border border-slate-700 rounded-lg p-2 text-xs text-slate-300 focus:ring-2 focus:ring-purple-500 outline-none"
+                value={scriptProviderId}
+                onChange={(e) => setScriptProviderId(e.target.value as ScriptProviderId)}
+                disabled={loading || audioLoading}
+              >
+                {SCRIPT_PROVIDERS.map(provider => (
+                  <option key={provider.id} value={provider.id}>{provider.label}</option>
+                ))}
+              </select>
+            </div>
             
             {/* Primary Action: Generate Script */}
             <button
@@ -482,10 +865,11 @@ const App: React.FC = () => {
                
                {/* Secondary Action: Generate Audio (Sticky at top of script) */}
                <div className="p-4 border-b border-slate-700 bg-slate-800/80 backdrop-blur-sm z-10">
+                  <div className="flex items-center gap-2">
                   <button
-                    onClick={handleBatchGenerateAudio}
+                    onClick={() => handleBatchGenerateAudio()}
                     disabled={audioLoading || loading}
-                    className={`w-full flex items-center justify-center gap-2 py-2.5 rounded-lg font-semibold transition-all shadow-md border border-transparent
+                    className={`flex-grow flex items-center justify-center gap-2 py-2.5 rounded-lg font-semibold transition-all shadow-md border border-transparent
                       ${audioLoading 
                         ? 'bg-slate-700 text-slate-300 cursor-wait' 
                         : hasAudio 
@@ -510,6 +894,26 @@ const App: React.FC = () => {
                       </>
                     )}
                   </button>
+                  {audioLoading ? (
+                    <button
+                      onClick={handleCancelBatchAudio}
+                      title="Stop after the requests in flight; finished scenes are kept"
+                      className="flex items-center gap-1.5 px-3 py-2.5 rounded-lg text-sm font-semibold bg-red-900/40 border border-red-800 text-red-200 hover:bg-red-900/70"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      Cancel
+                    </button>
+                  ) : (
+                    <select
+                      value={speechConcurrency}
+                      onChange={(e) => setSpeechConcurrency(Number(e.target.value))}
+                      title="Parallel TTS requests"
+                      className="bg-slate-900/80 border border-slate-700 rounded-lg py-2.5 px-2 text-xs text-slate-300 outline-none"
+                    >
+                      {[1, 2, 3, 4, 6, 8].map(n => <option key={n} value={n}>×{n}</option>)}
+                    </select>
+                  )}
+                  </div>
                   {audioLoading && audioProgress && (
                     <div className="w-full bg-slate-700 h-1.5 rounded-full mt-2 overflow-hidden">
                        <div 
@@ -518,6 +922,13 @@ const App: React.FC = () => {
                        />
                     </div>
                   )}
+                  {audioReport && !audioLoading && (
+                    <SpeechBatchReportPanel
+                      report={audioReport}
+                      onRetryFailed={(indices) => handleBatchGenerateAudio(indices)}
+                      onDismiss={() => setAudioReport(null)}
+                    />
+                  )}
                </div>
 
                <div className="flex border-b border-slate-700">
@@ -548,21 +959,85 @@ const App: React.FC = () => {
                <div className="flex-grow overflow-auto p-5">
                  {activeTab === 'script' ? (
                    <div className="space-y-8">
+                     {lintIssues.length > 0 && (
+                       <div className="flex items-center justify-between gap-2 text-xs text-amber-400 bg-amber-900/10 border border-amber-900/40 rounded p-2">
+                         <span className="flex items-center gap-1">
+                           <AlertCircle className="w-3 h-3" />
+                           {lintIssues.length} script {lintIssues.length === 1 ? 'issue' : 'issues'} found
+                         </span>
+                         {fixableIssueCount > 0 && (
+                           <button
+                             onClick={handleFixAllLint}
+                             disabled={audioLoading || regeneratingIds.size > 0}
+                             className="flex items-center gap-1 text-[10px] px-2 py-1 rounded bg-slate-800 border border-slate-700 text-slate-200 hover:bg-slate-700 disabled:opacity-40"
+                           >
+                             <Wand2 className="w-3 h-3" />
+                             Fix {fixableIssueCount} automatically
+                           </button>
+                         )}
+                       </div>
+                     )}
                      {videoData.scenes.map((scene, idx) => (
-                       <div key={idx} className={`relative pl-4 border-l-2 transition-colors group ${scene.audioUrl ? 'border-purple-500/30' : 'border-slate-700'}`}>
+                       <div
+                         key={scene.id ?? idx}
+                         onDragOver={(e) => { if (dragSceneIndex !== null) e.preventDefault(); }}
+                         onDrop={() => handleSceneDrop(idx)}
+                         className={`relative pl-4 border-l-2 transition-colors group ${scene.audioUrl ? 'border-purple-500/30' : 'border-slate-700'} ${dragSceneIndex === idx ? 'opacity-40' : ''}`}
+                       >
                          <div className={`absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-slate-900 border-2 ${scene.audioUrl ? 'border-purple-500/50 bg-purple-500/20' : 'border-slate-700'}`}></div>
                          <div className="flex justify-between items-start">
-                           <h3 className="text-xs font-bold text-purple-400 uppercase tracking-wider mb-1">
+                           <h3 className="text-xs font-bold text-purple-400 uppercase tracking-wider mb-1 flex items-center gap-1">
+                             <span
+                               draggable={!isSceneListLocked}
+                               onDragStart={() => setDragSceneIndex(idx)}
+                               onDragEnd={() => setDragSceneIndex(null)}
+                               title="Drag to reorder"
+                               className={`text-slate-600 ${isSceneListLocked ? 'opacity-30' : 'cursor-grab hover:text-slate-300'}`}
+                             >
+                               <GripVertical className="w-3 h-3" />
+                             </span>
                              Scene {idx + 1}: {scene.dataOverlay.title}
                            </h3>
                            <div className="flex items-center gap-2 text-xs text-slate-500">
+                             <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                               <button onClick={() => setEditingSceneIndex(editingSceneIndex === idx ? null : idx)} title="Edit scene" className="p-1 hover:text-white">
+                                 <Pencil className="w-3 h-3" />
+                               </button>
+                               <button onClick={() => handleInsertScene(idx + 1)} disabled={isSceneListLocked} title="Insert blank scene below" className="p-1 hover:text-white disabled:opacity-30">
+                                 <Plus className="w-3 h-3" />
+                               </button>
+                               <button onClick={() => handleDuplicateScene(idx)} disabled={isSceneListLocked} title="Duplicate scene" className="p-1 hover:text-white disabled:opacity-30">
+                                 <Copy className="w-3 h-3" />
+                               </button>
+                               <button onClick={() => handleDeleteScene(idx)} disabled={isSceneListLocked || videoData.scenes.length <= 1} title="Delete scene" className="p-1 hover:text-red-400 disabled:opacity-30">
+                                 <Trash2 className="w-3 h-3" />
+                               </button>
+                             </div>
                              <Music className={`w-3 h-3 ${scene.audioUrl ? 'text-emerald-400' : 'text-slate-600'}`} />
                              {scene.durationInSeconds.toFixed(1)}s
                            </div>
                          </div>
-                         <p className="text-slate-300 text-sm leading-relaxed mb-3 whitespace-pre-line border-b border-slate-800 pb-2">
-                           {scene.dialogue}
-                         </p>
+                         <LintIssueList
+                           issues={lintIssues.filter(issue => issue.sceneIndex === idx)}
+                           onFix={handleLintFix}
+                           disabled={regeneratingIds.has(idx) || audioLoading}
+                         />
+                         {editingSceneIndex === idx ? (
+                           <SceneEditor
+                             scene={scene}
+                             index={idx}
+                             onChange={(patch) => handleSceneChange(idx, patch)}
+                             cast={cast}
+                             referenceMaterial={videoData.referenceMaterial}
+                             assets={assets}
+                             introBgUrl={introBackground}
+                             disabled={regeneratingIds.has(idx)}
+                           />
+                         ) : (
+                           <p className="text-slate-300 text-sm leading-relaxed mb-3 whitespace-pre-line border-b border-slate-800 pb-2">
+                             {scene.dialogue}
+                           </p>
+                         )}
 
                          {/* Audio Adjustment Section */}
                          <div className="bg-slate-900/40 rounded p-2 mb-2 border border-slate-800">
@@ -571,13 +1046,24 @@ const App: React.FC = () => {
                                <Mic className="w-3 h-3" /> 
                                Edit Hiragana (Fix Intonation)
                              </label>
-                             <span className="text-[9px] text-slate-500 italic">Use spaces/commas for rhythm</span>
+                             <div className="flex items-center gap-2">
+                               <span className="text-[9px] text-slate-500 italic">Use spaces/commas for rhythm</span>
+                               <button
+                                 onClick={() => handleNormalizeReading(idx)}
+                                 disabled={regeneratingIds.has(idx)}
+                                 title="Spell out numbers, dates, times and counters in hiragana"
+                                 className="flex items-center gap-1 text-[9px] px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+                               >
+                                 <Wand2 className="w-3 h-3" />
+                                 Normalize
+                               </button>
+                             </div>
                            </div>
-                           <textarea 
-                             className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-xs text-slate-300 min-h-[50px] focus:ring-1 focus:ring-indigo-500 outline-none"
+                           <PhoneticTextarea
                              value={scene.phoneticDialogue || ''}
-                             onChange={(e) => handlePhoneticChange(idx, e.target.value)}
-                             placeholder="じぇんば: こんにちは"
+                             onChange={(value) => handlePhoneticChange(idx, value)}
+                             lexicon={activeLexicon}
+                             placeholder={`${cast[0].displayName}: こんにちは`}
                            />
                            <div className="flex items-center justify-between mt-2">
                               <div className="flex items-center gap-2 w-full">
@@ -596,6 +1082,18 @@ const App: React.FC = () => {
                                    {scene.audioUrl ? 'Retry Audio' : 'Generate Audio'}
                                  </button>
                                  
+                                 {scene.audioUrl && cachedAudioUrls.has(scene.audioUrl) && (
+                                   <span className="text-[10px] text-sky-400 flex items-center gap-1 whitespace-nowrap" title="Reused from the TTS cache, no synthesis needed">
+                                     <Database className="w-3 h-3" />
+                                     Cached
+                                   </span>
+                                 )}
+                                 {isAudioStale(scene, cast, activeLexicon) && !regeneratingIds.has(idx) && (
+                                   <span className="text-[10px] text-amber-500 flex items-center gap-1 whitespace-nowrap" title="The spoken text changed after this audio was generated">
+                                     <AlertCircle className="w-3 h-3" />
+                                     Stale
+                                   </span>
+                                 )}
                                  {scene.audioUrl ? (
                                    <audio 
                                     src={scene.audioUrl} 
@@ -613,6 +1111,16 @@ const App: React.FC = () => {
                            </div>
                          </div>
 
+                         <SubtitleTimingEditor
+                           scene={scene}
+                           cast={cast}
+                           transitionOutFrames={timeline[idx]?.transitionOutFrames ?? 0}
+                           onChange={(chunks) => handleSubtitleChunksChange(idx, chunks)}
+                           onAutoAlign={() => handleAutoAlignSubtitles(idx)}
+                           aligning={aligningIds.has(idx)}
+                           disabled={regeneratingIds.has(idx) || audioLoading}
+                         />
+
                          <div className="flex items-center gap-2 text-xs text-slate-500 bg-slate-900/50 p-2 rounded">
                             <span className="font-medium text-slate-400">Visual:</span>
                             <span className="italic truncate">{scene.visualDescription}</span>
@@ -627,6 +1135,9 @@ const App: React.FC = () => {
                            <div className="text-center mb-6">
                               <h3 className="text-lg font-bold text-white">{videoData.referenceMaterial.title}</h3>
                               <p className="text-sm text-purple-300 mt-1">{videoData.referenceMaterial.subhead}</p>
+                              {videoData.referenceMaterial.source && (
+                                <p className="text-[10px] text-emerald-400 mt-1">Imported from {videoData.referenceMaterial.source} · overlays are checked against it</p>
+                              )}
                            </div>
                            <div className="overflow-x-auto rounded-lg border border-slate-700">
                              <table className="w-full text-sm text-left text-slate-300">
@@ -662,31 +1173,32 @@ const App: React.FC = () => {
         </div>
 
         {/* Player Section */}
-        <div className={`${isRecording ? 'col-span-12 h-screen' : 'lg:col-span-8'} flex flex-col h-full min-h-[500px]`}>
-          <div className={`
-            flex-grow bg-black shadow-2xl overflow-hidden flex items-center justify-center bg-[url('https://www.transparenttextures.com/patterns/cubes.png')]
-            ${isRecording ? 'fixed inset-0 z-50 !rounded-none !border-0' : 'rounded-2xl border border-slate-800 relative'}
-          `}>
+        <div className="lg:col-span-8 flex flex-col h-full min-h-[500px]">
+          <div className="flex-grow bg-black shadow-2xl overflow-hidden flex items-center justify-center bg-[url('https://www.transparenttextures.com/patterns/cubes.png')] rounded-2xl border border-slate-800 relative">
             {videoData ? (
-              <div className={`shadow-2xl flex items-center justify-center ${isRecording ? 'w-full h-full' : 'w-full h-full'}`}>
+              <div className="shadow-2xl flex items-center justify-center w-full h-full">
                  <div 
                    style={{
                      aspectRatio: aspectRatio.replace(':', '/'),
                      width: aspectRatio === '16:9' ? '100%' : 'auto',
                      height: aspectRatio === '16:9' ? 'auto' : '100%',
                      maxWidth: '100%',
-                     maxHeight: isRecording ? '100vh' : '80vh',
+                     maxHeight: '80vh',
                      display: 'flex'
                    }}
                  >
                    <Player
-                    ref={playerRef}
                     component={MyVideoComposition}
                     inputProps={{ 
                       scenes: videoData.scenes,
-                      introBgUrl: introBackground
+                      introBgUrl: introBackground,
+                      assets,
+                      cast,
+                      music,
+                      theme,
+                      mastering
                     }}
-                    durationInFrames={getDurationInFrames()}
+                    durationInFrames={getDurationInFrames(videoData.scenes)}
                     compositionWidth={compositionWidth}
                     compositionHeight={compositionHeight}
                     fps={FPS}
@@ -694,9 +1206,9 @@ const App: React.FC = () => {
                       width: '100%',
                       height: '100%',
                     }}
-                    controls={!isRecording}
-                    autoPlay={!isRecording}
-                    loop={!isRecording}
+                    controls
+                    autoPlay
+                    loop
                   />
                  </div>
               </div>
@@ -707,13 +1219,13 @@ const App: React.FC = () => {
                 </div>
                 <h3 className="text-xl font-semibold text-slate-300">Ready to create</h3>
                 <p className="text-slate-500 max-w-md mx-auto mt-2">
-                  Enter a prompt to generate a video script featuring Jenba and Aiba.
+                  Enter a prompt to generate a video script featuring {cast.map(m => m.romanizedName).join(', ')}.
                 </p>
               </div>
             )}
           </div>
           
-          {videoData && !isRecording && (
+          {videoData && (
             <div className="mt-4 flex justify-between items-center px-2">
               <div className="text-sm text-slate-400">
                 Total Duration: <span className="text-white font-medium">{videoData.totalDurationInSeconds}s</span>
@@ -723,32 +1235,109 @@ const App: React.FC = () => {
                    Topic: <span className="text-white font-medium">{videoData.topic}</span>
                  </div>
                  
-                 {/* Audio Only Download */}
+                 {/* Portable Project Bundle */}
                  <button 
-                   onClick={downloadAudioTrack}
-                   disabled={!hasAudio || isExportingAudio}
-                   title="Download just the audio track (WAV) for local editing"
-                   className={`flex items-center gap-2 text-sm px-3 py-2 rounded-lg border transition-colors
-                     ${hasAudio 
-                       ? 'bg-slate-800 hover:bg-slate-700 text-purple-300 border-purple-900/50' 
-                       : 'bg-slate-800/50 text-slate-500 border-slate-800 cursor-not-allowed'}`}
+                   onClick={handleExportBundle}
+                   disabled={isExportingBundle}
+                   title="Export script, audio and settings as a .zip bundle to share with teammates"
+                   className="flex items-center gap-2 text-sm px-3 py-2 rounded-lg border transition-colors bg-slate-800 hover:bg-slate-700 text-purple-300 border-purple-900/50"
                  >
-                   {isExportingAudio ? <Loader2 className="w-4 h-4 animate-spin" /> : <Speaker className="w-4 h-4" />}
-                   <span className="hidden sm:inline">Audio (WAV)</span>
+                   {isExportingBundle ? <Loader2 className="w-4 h-4 animate-spin" /> : <Package className="w-4 h-4" />}
+                   <span className="hidden sm:inline">Bundle (.zip)</span>
                  </button>
 
+                 {/* Captions Download */}
+                 <div className="flex items-center rounded-lg border border-purple-900/50 bg-slate-800 overflow-hidden">
+                   <button
+                     onClick={downloadCaptions}
+                     title="Download captions timed to the rendered video"
+                     className="flex items-center gap-2 text-sm px-3 py-2 text-purple-300 hover:bg-slate-700 transition-colors"
+                   >
+                     <Captions className="w-4 h-4" />
+                     <span className="hidden sm:inline">Captions</span>
+                   </button>
+                   <select
+                     value={captionFormat}
+                     onChange={(e) => setCaptionFormat(e.target.value as CaptionFormat)}
+                     className="bg-slate-800 text-xs text-slate-300 border-l border-purple-900/50 py-2 px-1 outline-none"
+                   >
+                     <option value="srt">.srt</option>
+                     <option value="vtt">.vtt</option>
+                   </select>
+                   <button
+                     onClick={() => setCaptionSpeakerLabels(!captionSpeakerLabels)}
+                     title="Prefix each caption with the speaker name"
+                     className={`text-xs px-2 py-2 border-l border-purple-900/50 transition-colors ${captionSpeakerLabels ? 'text-purple-200 bg-purple-900/50' : 'text-slate-500 hover:text-slate-300'}`}
+                   >
+                     <UserRound className="w-4 h-4" />
+                   </button>
+                 </div>
+
+                 {/* Chapters & Show Notes Download */}
+                 <div className="flex items-center rounded-lg border border-purple-900/50 bg-slate-800 overflow-hidden">
+                   <button
+                     onClick={downloadChapters}
+                     title="Download chapters timed to the rendered video"
+                     className="flex items-center gap-2 text-sm px-3 py-2 text-purple-300 hover:bg-slate-700 transition-colors"
+                   >
+                     <ListOrdered className="w-4 h-4" />
+                     <span className="hidden sm:inline">Chapters</span>
+                   </button>
+                   <select
+                     value={chapterFormat}
+                     onChange={(e) => setChapterFormat(e.target.value as ChapterExportFormat)}
+                     className="bg-slate-800 text-xs text-slate-300 border-l border-purple-900/50 py-2 px-1 outline-none"
+                   >
+                     {CHAPTER_EXPORT_FORMATS.map(format => (
+                       <option key={format.id} value={format.id}>{format.label}</option>
+                     ))}
+                   </select>
+                 </div>
+
+                 {/* Audio Only Download */}
+                 <div className={`flex items-center rounded-lg border overflow-hidden
+                   ${hasAudio ? 'bg-slate-800 border-purple-900/50' : 'bg-slate-800/50 border-slate-800'}`}>
+                   <button 
+                     onClick={downloadAudioTrack}
+                     disabled={!hasAudio || isExportingAudio}
+                     title={audioFormat === 'mp3'
+                       ? "Download a podcast MP3 with episode tags and chapters"
+                       : "Download just the audio track (WAV) for local editing"}
+                     className={`flex items-center gap-2 text-sm px-3 py-2 transition-colors
+                       ${hasAudio 
+                         ? 'hover:bg-slate-700 text-purple-300' 
+                         : 'text-slate-500 cursor-not-allowed'}`}
+                   >
+                     {isExportingAudio ? <Loader2 className="w-4 h-4 animate-spin" /> : <Speaker className="w-4 h-4" />}
+                     <span className="hidden sm:inline">Audio</span>
+                   </button>
+                   <select
+                     value={audioFormat}
+                     onChange={(e) => setAudioFormat(e.target.value as AudioExportFormat)}
+                     disabled={isExportingAudio}
+                     className="bg-slate-800 text-xs text-slate-300 border-l border-purple-900/50 py-2 px-1 outline-none"
+                   >
+                     <option value="wav">.wav</option>
+                     <option value="mp3">.mp3</option>
+                   </select>
+                 </div>
+
                  {/* Video Download */}
                  <button 
                    onClick={downloadVideo}
-                   disabled={!hasAudio}
-                   title={!hasAudio ? "Generate audio first" : `Download as .${recordingFormat?.ext || 'webm'}`}
+                   disabled={!hasAudio || !!renderProgress}
+                   title={!hasAudio ? "Generate audio first" : "Render a frame-accurate MP4 on the local render server"}
                    className={`flex items-center gap-2 text-sm px-4 py-2 rounded-lg border transition-colors font-semibold
                      ${hasAudio 
                        ? 'bg-purple-600 hover:bg-purple-500 text-white border-purple-500 shadow-lg shadow-purple-900/30' 
                        : 'bg-slate-800/50 text-slate-500 border-slate-800 cursor-not-allowed'}`}
                  >
-                   <Download className="w-4 h-4" />
-                   <span>Download Video {recordingFormat ? `(.${recordingFormat.ext})` : ''}</span>
+                   {renderProgress ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                   <span>
+                     {renderProgress
+                       ? `${RENDER_STAGE_LABELS[renderProgress.stage]} ${Math.round(renderProgress.progress * 100)}%`
+                       : 'Download Video (.mp4)'}
+                   </span>
                  </button>
               </div>
             </div>
@@ -0,0 +1,154 @@
+import React, { useRef, useState } from 'react';
+import { LibraryAsset } from '../types';
+import { addAsset, deleteAsset, updateAssetTags, parseTags, releaseAssetUrls } from '../services/assets';
+import { Images, ChevronDown, ChevronRight, Upload, Trash2, Film, Loader2 } from 'lucide-react';
+
+interface Props {
+  assets: LibraryAsset[];
+  onAssetsChange: (assets: LibraryAsset[]) => void;
+  disabled?: boolean;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Tags are saved when the field loses focus, so typing does not write to IndexedDB per key
+const TagInput: React.FC<{ asset: LibraryAsset; onSave: (tags: string[]) => void; disabled?: boolean }> = ({ asset, onSave, disabled }) => {
+  const [text, setText] = useState(asset.tags.join(', '));
+  return (
+    <input
+      className="w-full bg-slate-900/80 border border-slate-700 rounded px-1.5 py-1 text-[10px] text-slate-300 focus:ring-1 focus:ring-purple-500 outline-none"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        const tags = parseTags(text);
+        setText(tags.join(', '));
+        if (tags.join() !== asset.tags.join()) onSave(tags);
+      }}
+      placeholder="Tags, e.g. 競馬, stadium"
+      disabled={disabled}
+    />
+  );
+};
+
+// Backgrounds shared by all projects. Scenes use the asset whose tags best match their keyword
+// and visual description; see services/backgrounds.ts.
+export const AssetLibraryPanel: React.FC<Props> = ({ assets, onAssetsChange, disabled }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = ''; // Allow picking the same files again
+    if (files.length === 0) return;
+
+    setUploading(true);
+    const added: LibraryAsset[] = [];
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        added.push(await addAsset(file));
+      } catch (err: any) {
+        console.error("Failed to add asset", file.name, err);
+        failures.push(err.message || `Failed to add ${file.name}.`);
+      }
+    }
+    onAssetsChange([...assets, ...added]);
+    setUploading(false);
+    if (failures.length > 0) alert(failures.join('\n'));
+  };
+
+  const handleTags = async (asset: LibraryAsset, tags: string[]) => {
+    try {
+      await updateAssetTags(asset.id, tags);
+      onAssetsChange(assets.map(a => a.id === asset.id ? { ...a, tags } : a));
+    } catch (e) {
+      console.error("Failed to update asset tags", e);
+      alert("Failed to update asset tags.");
+    }
+  };
+
+  const handleDelete = async (asset: LibraryAsset) => {
+    if (!window.confirm(`Delete ${asset.name}? Scenes using it pick another background.`)) return;
+    try {
+      await deleteAsset(asset.id);
+      releaseAssetUrls([asset]);
+      onAssetsChange(assets.filter(a => a.id !== asset.id));
+    } catch (e) {
+      console.error("Failed to delete asset", e);
+      alert("Failed to delete asset.");
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-xs font-semibold uppercase text-slate-500 mb-2"
+      >
+        <span className="flex items-center gap-2">
+          <Images className="w-3 h-3" />
+          Background Library
+        </span>
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+      </button>
+
+      {!expanded ? (
+        <p className="text-xs text-slate-400">
+          {assets.length === 0 ? 'Empty · generated backgrounds' : `${assets.length} assets`}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled || uploading}
+            className="w-full flex items-center justify-center gap-1.5 text-[10px] px-2 py-1.5 rounded border bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+          >
+            {uploading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+            Add images or video loops
+          </button>
+          <input ref={fileInputRef} type="file" accept="image/*,video/*" multiple className="hidden" onChange={handleUpload} />
+
+          {assets.length === 0 ? (
+            <p className="text-[10px] text-slate-500">
+              Scenes without a matching asset get a pattern generated from their color.
+            </p>
+          ) : (
+            <ul className="max-h-72 overflow-auto space-y-1.5">
+              {assets.map(asset => (
+                <li key={asset.id} className="flex gap-2 bg-slate-900/40 rounded p-1.5">
+                  <div className="relative w-14 h-10 shrink-0 rounded overflow-hidden bg-slate-800">
+                    {asset.kind === 'video' ? (
+                      <>
+                        <video src={asset.url} muted className="w-full h-full object-cover" />
+                        <Film className="absolute bottom-0.5 right-0.5 w-3 h-3 text-white drop-shadow" />
+                      </>
+                    ) : (
+                      <img src={asset.url} alt={asset.name} className="w-full h-full object-cover" />
+                    )}
+                  </div>
+                  <div className="flex-grow min-w-0 space-y-1">
+                    <div className="flex items-center gap-1 text-[10px] text-slate-400">
+                      <span className="truncate flex-grow" title={asset.name}>{asset.name}</span>
+                      <span className="shrink-0 text-slate-500">{formatBytes(asset.size)}</span>
+                      <button
+                        onClick={() => handleDelete(asset)}
+                        disabled={disabled}
+                        title="Delete"
+                        className="shrink-0 text-slate-500 hover:text-red-400 disabled:opacity-30"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                    <TagInput asset={asset} onSave={(tags) => handleTags(asset, tags)} disabled={disabled} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { CastMember } from '../types';
+import { MIN_CAST_SIZE, MAX_CAST_SIZE, createCastMember } from '../services/cast';
+import { Users, UserPlus, Trash2, ChevronDown, ChevronRight, AlertCircle } from 'lucide-react';
+
+interface Props {
+  cast: CastMember[];
+  onChange: (cast: CastMember[]) => void;
+  voices: string[]; // Voices of the project's speech engine
+  getVoice: (member: CastMember) => string;
+  onVoiceChange: (member: CastMember, voice: string) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full bg-slate-900/80 border border-slate-700 rounded p-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-purple-500 outline-none";
+
+export const CastEditor: React.FC<Props> = ({ cast, onChange, voices, getVoice, onVoiceChange, disabled }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const updateMember = (index: number, patch: Partial<CastMember>) => {
+    onChange(cast.map((member, idx) => idx === index ? { ...member, ...patch } : member));
+  };
+
+  const addMember = () => {
+    if (cast.length >= MAX_CAST_SIZE) return;
+    onChange([...cast, createCastMember(cast.length)]);
+  };
+
+  const removeMember = (index: number) => {
+    if (cast.length <= MIN_CAST_SIZE) return;
+    onChange(cast.filter((_, idx) => idx !== index));
+  };
+
+  // Display names double as dialogue prefixes, so they must be present and distinct
+  const names = cast.map(m => m.displayName.trim());
+  const hasInvalidNames = names.some(n => !n) || new Set(names).size !== names.length;
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-xs font-semibold uppercase text-slate-500 mb-2"
+      >
+        <span className="flex items-center gap-2">
+          <Users className="w-3 h-3" />
+          Cast ({cast.length})
+        </span>
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+      </button>
+
+      {!expanded ? (
+        <p className="text-xs text-slate-400 truncate">
+          {cast.map(m => `${m.displayName} (${getVoice(m)})`).join(' · ')}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {cast.map((member, idx) => (
+            <div key={member.id} className="bg-slate-900/40 rounded-lg p-3 border border-slate-700 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] uppercase font-semibold text-purple-400">Speaker {idx + 1}</span>
+                <button
+                  onClick={() => removeMember(idx)}
+                  disabled={disabled || cast.length <= MIN_CAST_SIZE}
+                  title="Remove speaker"
+                  className="p-1 text-slate-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-slate-500"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  className={inputClass}
+                  value={member.displayName}
+                  onChange={(e) => updateMember(idx, { displayName: e.target.value })}
+                  placeholder="Display name (じぇんば)"
+                  disabled={disabled}
+                />
+                <input
+                  className={inputClass}
+                  value={member.romanizedName}
+                  onChange={(e) => updateMember(idx, { romanizedName: e.target.value })}
+                  placeholder="Romanized (Jenba)"
+                  disabled={disabled}
+                />
+                <input
+                  className={inputClass}
+                  value={member.role}
+                  onChange={(e) => updateMember(idx, { role: e.target.value })}
+                  placeholder="Role (Host / MC)"
+                  disabled={disabled}
+                />
+                <select
+                  className={inputClass}
+                  value={getVoice(member)}
+                  onChange={(e) => onVoiceChange(member, e.target.value)}
+                  disabled={disabled}
+                >
+                  {voices.map(voice => (
+                    <option key={voice} value={voice}>{voice}</option>
+                  ))}
+                </select>
+              </div>
+              <textarea
+                className={`${inputClass} resize-none min-h-[48px]`}
+                value={member.personality}
+                onChange={(e) => updateMember(idx, { personality: e.target.value })}
+                placeholder="Personality and tone"
+                disabled={disabled}
+              />
+            </div>
+          ))}
+
+          {hasInvalidNames && (
+            <p className="text-[10px] text-amber-500 flex items-center gap-1">
+              <AlertCircle className="w-3 h-3" />
+              Each speaker needs a unique display name; it is used as the dialogue prefix.
+            </p>
+          )}
+
+          <button
+            onClick={addMember}
+            disabled={disabled || cast.length >= MAX_CAST_SIZE}
+            className="w-full flex items-center justify-center gap-1 text-[10px] px-2 py-1.5 rounded border border-dashed border-slate-600 text-slate-400 hover:bg-slate-700/40 disabled:opacity-40"
+          >
+            <UserPlus className="w-3 h-3" />
+            Add Speaker ({cast.length}/{MAX_CAST_SIZE})
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
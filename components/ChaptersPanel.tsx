@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { ChapterSettings } from '../types';
+import { Chapter, MIN_YOUTUBE_CHAPTERS, MIN_YOUTUBE_CHAPTER_SECONDS, formatChapterTimestamp } from '../services/chapters';
+import { ListOrdered, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface Props {
+  settings: ChapterSettings;
+  onChange: (settings: ChapterSettings) => void;
+  chapters: Chapter[]; // Built from the current script with these settings
+  disabled?: boolean;
+}
+
+const inputClass = "w-full bg-slate-900/80 border border-slate-700 rounded p-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-purple-500 outline-none";
+const labelClass = "block text-[10px] uppercase text-slate-500 font-semibold mb-1";
+
+// How scenes are grouped into chapters for the MP3, YouTube, show-notes and JSON exports
+export const ChaptersPanel: React.FC<Props> = ({ settings, onChange, chapters, disabled }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const update = (patch: Partial<ChapterSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-xs font-semibold uppercase text-slate-500 mb-2"
+      >
+        <span className="flex items-center gap-2">
+          <ListOrdered className="w-3 h-3" />
+          Chapters
+        </span>
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+      </button>
+
+      {!expanded ? (
+        <p className="text-xs text-slate-400 truncate">
+          {chapters.length === 0 ? 'No script yet' : `${chapters.length} chapters · min ${settings.minChapterSeconds}s`}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2 items-end">
+            <label className="flex items-center gap-2 text-xs text-slate-400 pb-1.5">
+              <input
+                type="checkbox"
+                checked={settings.mergeSameTitle}
+                onChange={(e) => update({ mergeSameTitle: e.target.checked })}
+                disabled={disabled}
+                className="accent-purple-500"
+              />
+              Merge equal titles
+            </label>
+            <div>
+              <label className={labelClass}>Min length (s)</label>
+              <input
+                type="number" min={0} max={600} step={1}
+                className={inputClass}
+                value={settings.minChapterSeconds}
+                onChange={(e) => update({ minChapterSeconds: Math.min(600, Math.max(0, Number(e.target.value) || 0)) })}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+
+          {chapters.length > 0 && (
+            <ol className="max-h-48 overflow-auto space-y-0.5 text-[10px] text-slate-400">
+              {chapters.map((chapter, idx) => (
+                <li key={idx} className="flex gap-2">
+                  <span className="shrink-0 font-mono text-slate-500">{formatChapterTimestamp(chapter.startSeconds)}</span>
+                  <span className="truncate" title={chapter.title}>{chapter.title}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+          {chapters.length > 0 && chapters.length < MIN_YOUTUBE_CHAPTERS && (
+            <p className="text-[10px] text-amber-400">
+              YouTube ignores chapter lists with fewer than {MIN_YOUTUBE_CHAPTERS} entries.
+            </p>
+          )}
+          {settings.minChapterSeconds < MIN_YOUTUBE_CHAPTER_SECONDS && (
+            <p className="text-[10px] text-amber-400">
+              YouTube ignores chapter lists with chapters shorter than {MIN_YOUTUBE_CHAPTER_SECONDS} seconds.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
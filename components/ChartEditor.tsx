@@ -0,0 +1,122 @@
+import React from 'react';
+import { ChartSpec, ChartType, ReferenceMaterial } from '../types';
+import { CHART_TYPES, getMaxPoints, getMaxSeries, getNumericHeaders, resolveChart, suggestChart } from '../services/charts';
+
+interface Props {
+  chart?: ChartSpec;
+  reference: ReferenceMaterial;
+  onChange: (chart: ChartSpec | undefined) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-[10px] uppercase text-slate-500 font-semibold mb-1";
+const chipClass = (active: boolean) => `text-[10px] px-2 py-0.5 rounded border transition-colors disabled:opacity-40 ${
+  active ? 'bg-indigo-900/50 border-indigo-700 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+}`;
+
+// Manual override of the overlay chart: type, label column, plotted columns and rows
+export const ChartEditor: React.FC<Props> = ({ chart, reference, onChange, disabled }) => {
+  const numericHeaders = getNumericHeaders(reference);
+  const labelIndex = chart ? reference.headers.indexOf(chart.labelHeader) : -1;
+
+  const handleTypeChange = (value: string) => {
+    if (value === 'table') return onChange(undefined);
+    const type = value as ChartType;
+    const next = chart ? resolveChart({ ...chart, type }, reference) : suggestChart(type, reference);
+    if (!next) {
+      alert("The reference table has no numeric column to chart.");
+      return;
+    }
+    onChange(next);
+  };
+
+  const update = (patch: Partial<ChartSpec>) => {
+    const next = resolveChart({ ...chart!, ...patch }, reference);
+    if (next) onChange(next);
+  };
+
+  // Keeps the reference table's order so bars and points read top to bottom
+  const toggle = <T,>(values: T[], value: T, order: T[]) =>
+    values.includes(value) ? values.filter(v => v !== value) : order.filter(v => v === value || values.includes(v));
+
+  const rowOrder = reference.rows.map((_, idx) => idx);
+  const maxSeries = chart ? getMaxSeries(chart.type) : 1;
+  const maxPoints = chart ? getMaxPoints(chart.type) : 1;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Overlay display</label>
+          <select className={inputClass} value={chart?.type ?? 'table'} onChange={(e) => handleTypeChange(e.target.value)} disabled={disabled}>
+            <option value="table">Table</option>
+            {CHART_TYPES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+          </select>
+        </div>
+        {chart && (
+          <div>
+            <label className={labelClass}>Unit</label>
+            <input
+              className={inputClass}
+              value={chart.unit ?? ''}
+              onChange={(e) => update({ unit: e.target.value })}
+              placeholder="%"
+              disabled={disabled}
+            />
+          </div>
+        )}
+      </div>
+
+      {chart && (
+        <>
+          <div>
+            <label className={labelClass}>Labels from</label>
+            <select className={inputClass} value={chart.labelHeader} onChange={(e) => update({ labelHeader: e.target.value })} disabled={disabled}>
+              {reference.headers.map(header => <option key={header} value={header}>{header}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>{maxSeries === 1 ? 'Value' : `Values (max ${maxSeries})`}</label>
+            <div className="flex flex-wrap gap-1">
+              {numericHeaders.map(header => {
+                const active = chart.valueHeaders.includes(header);
+                return (
+                  <button
+                    key={header}
+                    // Single-column charts switch columns instead of adding one
+                    onClick={() => update({ valueHeaders: maxSeries === 1 ? [header] : toggle(chart.valueHeaders, header, reference.headers) })}
+                    disabled={disabled || (active && chart.valueHeaders.length <= 1) || (!active && maxSeries > 1 && chart.valueHeaders.length >= maxSeries)}
+                    className={chipClass(active)}
+                  >
+                    {header}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Rows ({chart.rowIndices.length}/{maxPoints})</label>
+            <div className="flex flex-wrap gap-1 max-h-24 overflow-auto">
+              {rowOrder.map(idx => {
+                const active = chart.rowIndices.includes(idx);
+                return (
+                  <button
+                    key={idx}
+                    onClick={() => update({ rowIndices: toggle(chart.rowIndices, idx, rowOrder) })}
+                    disabled={disabled || (active && chart.rowIndices.length <= 1) || (!active && chart.rowIndices.length >= maxPoints)}
+                    className={chipClass(active)}
+                  >
+                    {reference.rows[idx][labelIndex] || `#${idx + 1}`}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
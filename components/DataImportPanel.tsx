@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { ReferenceMaterial } from '../types';
+import { parseDataTable, detectColumnTypes, ColumnType } from '../services/dataImport';
+import { Table, Upload, ClipboardPaste, X } from 'lucide-react';
+
+interface Props {
+  data: ReferenceMaterial | null;
+  onChange: (data: ReferenceMaterial | null) => void;
+  disabled?: boolean;
+}
+
+const PREVIEW_ROWS = 5;
+
+const TYPE_LABELS: Record<ColumnType, string> = {
+  number: '123',
+  percent: '%',
+  currency: '¥',
+  date: 'date',
+  time: 'time',
+  text: 'abc',
+};
+
+// Import of a CSV/TSV/JSON table the script must be based on, with a preview of the parsed
+// rows and the detected column types
+export const DataImportPanel: React.FC<Props> = ({ data, onChange, disabled }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pasting, setPasting] = useState(false);
+  const [pasted, setPasted] = useState('');
+
+  const load = (text: string, fileName?: string) => {
+    try {
+      onChange(parseDataTable(text, fileName));
+      setPasting(false);
+      setPasted('');
+    } catch (err: any) {
+      console.error("Failed to import data", err);
+      alert(err.message || "Failed to import data.");
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (file) load(await file.text(), file.name);
+  };
+
+  const types = data ? detectColumnTypes(data) : [];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs font-semibold uppercase text-slate-500 flex items-center gap-2">
+          <Table className="w-3 h-3" />
+          Source Data
+        </label>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            title="Import CSV, TSV or JSON"
+            className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+          >
+            <Upload className="w-3 h-3" />
+          </button>
+          <button
+            onClick={() => setPasting(!pasting)}
+            disabled={disabled}
+            title="Paste a table from a spreadsheet"
+            className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+          >
+            <ClipboardPaste className="w-3 h-3" />
+          </button>
+          {data && (
+            <button
+              onClick={() => onChange(null)}
+              disabled={disabled}
+              title="Remove imported data"
+              className="p-1 text-slate-400 hover:text-red-400 disabled:opacity-30"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      </div>
+      <input ref={fileInputRef} type="file" accept=".csv,.tsv,.json,text/csv,application/json" className="hidden" onChange={handleFile} />
+
+      {pasting && (
+        <div className="space-y-1 mb-2">
+          <textarea
+            className="w-full bg-slate-900/80 border border-slate-700 rounded p-2 text-[10px] font-mono text-slate-300 min-h-[80px] focus:ring-1 focus:ring-purple-500 outline-none"
+            placeholder={'馬番\t馬名\t単勝オッズ\n1\tドウデュース\t2.5'}
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+          />
+          <button
+            onClick={() => load(pasted)}
+            disabled={disabled || !pasted.trim()}
+            className="w-full text-[10px] px-2 py-1 rounded border bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+          >
+            Use pasted table
+          </button>
+        </div>
+      )}
+
+      {!data ? (
+        !pasting && <p className="text-xs text-slate-500">None. The script will rely on the model's knowledge.</p>
+      ) : (
+        <div className="space-y-1">
+          <input
+            className="w-full bg-slate-900/80 border border-slate-700 rounded p-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-purple-500 outline-none"
+            value={data.title}
+            onChange={(e) => onChange({ ...data, title: e.target.value })}
+            disabled={disabled}
+            title="Table title"
+          />
+          <div className="overflow-x-auto rounded border border-slate-700">
+            <table className="w-full text-[10px] text-left text-slate-300">
+              <thead className="bg-slate-900/80 text-slate-400">
+                <tr>
+                  {data.headers.map((header, idx) => (
+                    <th key={idx} className="px-2 py-1 whitespace-nowrap">
+                      {header}
+                      <span className="ml-1 px-1 rounded bg-slate-700 text-[9px] text-slate-300" title={`Detected type: ${types[idx]}`}>
+                        {TYPE_LABELS[types[idx]]}
+                      </span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {data.rows.slice(0, PREVIEW_ROWS).map((row, rIdx) => (
+                  <tr key={rIdx} className="border-t border-slate-800">
+                    {row.map((cell, cIdx) => (
+                      <td key={cIdx} className="px-2 py-1 whitespace-nowrap">{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[10px] text-slate-500">
+            {data.rows.length} rows from {data.source}. Overlays may only cite these values.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { ScriptHistory, canUndo, canRedo } from '../services/history';
+import { History, Undo2, Redo2, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface Props {
+  history: ScriptHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+  disabled?: boolean;
+}
+
+const formatTime = (at: number) =>
+  new Date(at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const HistoryPanel: React.FC<Props> = ({ history, onUndo, onRedo, onJump, disabled }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl p-4 shadow-xl">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-2 text-xs font-semibold uppercase text-slate-500"
+        >
+          <History className="w-3 h-3" />
+          History ({history.index + 1}/{history.entries.length})
+          {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onUndo}
+            disabled={disabled || !canUndo(history)}
+            title="Undo (Ctrl+Z)"
+            className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={disabled || !canRedo(history)}
+            title="Redo (Ctrl+Shift+Z)"
+            className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <ol className="mt-3 max-h-60 overflow-auto space-y-0.5">
+          {history.entries.map((entry, idx) => (
+            <li key={idx}>
+              <button
+                onClick={() => onJump(idx)}
+                disabled={disabled}
+                className={`w-full flex items-center justify-between gap-2 text-left text-xs px-2 py-1 rounded transition-colors
+                  ${idx === history.index
+                    ? 'bg-purple-900/50 text-white'
+                    : idx > history.index
+                      ? 'text-slate-600 hover:bg-slate-700/50' // Redo entries
+                      : 'text-slate-300 hover:bg-slate-700/50'}`}
+              >
+                <span className="truncate">{entry.label}</span>
+                <span className="text-[10px] text-slate-500 shrink-0">{formatTime(entry.at)}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React from 'react';
+import { CastMember, ComparisonSide, LayoutId, LayoutProps, RankedItem, Scene } from '../types';
+import { LAYOUTS, MAX_RANKED_ITEMS, getLayout, resolveLayoutProps } from '../services/layouts';
+import { Plus, X } from 'lucide-react';
+
+interface Props {
+  scene: Scene;
+  cast: CastMember[];
+  onChange: (patch: Partial<Scene>) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-[10px] uppercase text-slate-500 font-semibold mb-1";
+
+// Layout picker and the fields of the chosen layout. Empty fields show, as placeholders,
+// the values derived from the overlay data that the layout falls back to.
+export const LayoutEditor: React.FC<Props> = ({ scene, cast, onChange, disabled }) => {
+  const layout = getLayout(scene.layout);
+  const own = scene.layoutProps ?? {};
+  const resolved = resolveLayoutProps(scene, cast);
+
+  const updateProps = (patch: Partial<LayoutProps>) => onChange({ layoutProps: { ...own, ...patch } });
+
+  const textField = (field: 'value' | 'label' | 'quote' | 'attribution' | 'caption' | 'kicker', label: string) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input
+        className={inputClass}
+        value={own[field] ?? ''}
+        onChange={(e) => updateProps({ [field]: e.target.value || undefined })}
+        placeholder={resolved[field]}
+        disabled={disabled}
+      />
+    </div>
+  );
+
+  // Edits start from what is on screen, so the first change does not blank the other fields
+  const sideFields = (field: 'left' | 'right', label: string) => {
+    const side: ComparisonSide = own[field] ?? resolved[field] ?? { label: '', value: '' };
+    const updateSide = (patch: Partial<ComparisonSide>) => updateProps({ [field]: { ...side, ...patch } });
+    return (
+      <div className="space-y-1">
+        <label className={labelClass}>{label}</label>
+        <input className={inputClass} value={side.label} onChange={(e) => updateSide({ label: e.target.value })} placeholder="Label" disabled={disabled} />
+        <input className={inputClass} value={side.value} onChange={(e) => updateSide({ value: e.target.value })} placeholder="Value" disabled={disabled} />
+        <input
+          className={inputClass}
+          value={side.note ?? ''}
+          onChange={(e) => updateSide({ note: e.target.value || undefined })}
+          placeholder="Note (optional)"
+          disabled={disabled}
+        />
+      </div>
+    );
+  };
+
+  const items: RankedItem[] = own.items?.length ? own.items : resolved.items ?? [];
+  const updateItem = (index: number, patch: Partial<RankedItem>) =>
+    updateProps({ items: items.map((item, idx) => idx === index ? { ...item, ...patch } : item) });
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label className={labelClass}>Layout</label>
+        <select
+          className={inputClass}
+          value={layout.id}
+          onChange={(e) => onChange({ layout: e.target.value as LayoutId })}
+          disabled={disabled}
+        >
+          {LAYOUTS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+        </select>
+        <p className="text-[10px] text-slate-500 mt-1">{layout.description}.</p>
+      </div>
+
+      {layout.id === 'big-stat' && (
+        <div className="grid grid-cols-2 gap-2">
+          {textField('value', 'Number')}
+          {textField('label', 'Label')}
+        </div>
+      )}
+
+      {layout.id === 'comparison' && (
+        <div className="grid grid-cols-2 gap-2">
+          {sideFields('left', 'Left')}
+          {sideFields('right', 'Right')}
+        </div>
+      )}
+
+      {layout.id === 'ranked-list' && (
+        <div>
+          <label className={labelClass}>Ranking (best first)</label>
+          <div className="space-y-1.5">
+            {items.map((item, idx) => (
+              <div key={idx} className="flex items-center gap-1.5">
+                <span className="text-[10px] text-slate-500 w-4 text-right shrink-0">{idx + 1}</span>
+                <input className={inputClass} value={item.label} onChange={(e) => updateItem(idx, { label: e.target.value })} placeholder="Label" disabled={disabled} />
+                <input
+                  className={inputClass}
+                  value={item.value ?? ''}
+                  onChange={(e) => updateItem(idx, { value: e.target.value || undefined })}
+                  placeholder="Value"
+                  disabled={disabled}
+                />
+                <button
+                  onClick={() => updateProps({ items: items.filter((_, i) => i !== idx) })}
+                  disabled={disabled}
+                  title="Remove entry"
+                  className="p-1 text-slate-500 hover:text-red-400 disabled:opacity-30"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => updateProps({ items: [...items, { label: '' }] })}
+              disabled={disabled || items.length >= MAX_RANKED_ITEMS}
+              className="flex items-center gap-1 text-[10px] text-slate-400 hover:text-white disabled:opacity-40"
+            >
+              <Plus className="w-3 h-3" /> Add entry
+            </button>
+          </div>
+        </div>
+      )}
+
+      {layout.id === 'quote' && (
+        <div className="space-y-2">
+          {textField('quote', 'Quote')}
+          {textField('attribution', 'Attribution')}
+        </div>
+      )}
+
+      {layout.id === 'full-bleed' && textField('caption', 'Caption')}
+
+      {layout.id === 'title-card' && textField('kicker', 'Kicker')}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useRef, useState } from 'react';
+import { LexiconEntry } from '../types';
+import { parseLexiconCsv, upsertLexiconEntries } from '../services/lexicon';
+import { BookA, ChevronDown, ChevronRight, Plus, Trash2, Upload, Download } from 'lucide-react';
+
+export type LexiconScope = 'project' | 'global';
+
+interface Props {
+  projectLexicon: LexiconEntry[];
+  globalLexicon: LexiconEntry[];
+  onChange: (scope: LexiconScope, lexicon: LexiconEntry[]) => void;
+  onExport: (scope: LexiconScope) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full bg-slate-900/80 border border-slate-700 rounded p-1 text-xs text-slate-300 focus:ring-1 focus:ring-purple-500 outline-none";
+
+export const LexiconEditor: React.FC<Props> = ({ projectLexicon, globalLexicon, onChange, onExport, disabled }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [scope, setScope] = useState<LexiconScope>('project');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const entries = scope === 'project' ? projectLexicon : globalLexicon;
+  const update = (next: LexiconEntry[]) => onChange(scope, next);
+
+  const updateEntry = (index: number, patch: Partial<LexiconEntry>) =>
+    update(entries.map((entry, idx) => idx === index ? { ...entry, ...patch } : entry));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    try {
+      const imported = parseLexiconCsv(await file.text());
+      update(upsertLexiconEntries(entries, imported));
+    } catch (err: any) {
+      console.error("Failed to import lexicon", err);
+      alert(err.message || "Failed to import lexicon.");
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-xs font-semibold uppercase text-slate-500 mb-2"
+      >
+        <span className="flex items-center gap-2">
+          <BookA className="w-3 h-3" />
+          Lexicon
+        </span>
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+      </button>
+
+      {!expanded ? (
+        <p className="text-xs text-slate-400 truncate">
+          {projectLexicon.length} project · {globalLexicon.length} global terms
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex gap-1">
+            {(['project', 'global'] as LexiconScope[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setScope(option)}
+                className={`flex-1 text-[10px] px-2 py-1 rounded border transition-colors ${
+                  scope === option
+                    ? 'bg-purple-900/50 border-purple-700 text-white'
+                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {option === 'project' ? `This project (${projectLexicon.length})` : `Global (${globalLexicon.length})`}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-500">
+            {scope === 'project' ? 'Saved with the episode; overrides global terms.' : 'Shared by every project in this browser.'}
+          </p>
+
+          <div className="max-h-60 overflow-auto space-y-1">
+            {entries.map((entry, idx) => (
+              <div key={idx} className="flex items-center gap-1">
+                <input
+                  className={inputClass}
+                  value={entry.surface}
+                  onChange={(e) => updateEntry(idx, { surface: e.target.value })}
+                  placeholder="ドウデュース"
+                  disabled={disabled}
+                />
+                <input
+                  className={inputClass}
+                  value={entry.reading}
+                  onChange={(e) => updateEntry(idx, { reading: e.target.value })}
+                  placeholder="どうでゅーす"
+                  disabled={disabled}
+                />
+                <button
+                  onClick={() => update(entries.filter((_, i) => i !== idx))}
+                  disabled={disabled}
+                  title="Remove term"
+                  className="shrink-0 p-1 text-slate-500 hover:text-red-400 disabled:opacity-30"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => update([...entries, { surface: '', reading: '' }])}
+              disabled={disabled}
+              className="flex-1 flex items-center justify-center gap-1 text-[10px] px-2 py-1.5 rounded border bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+            >
+              <Plus className="w-3 h-3" /> Add term
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled}
+              title="Import surface,reading rows; existing terms with the same surface are replaced"
+              className="flex items-center gap-1 text-[10px] px-2 py-1.5 rounded border bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+            >
+              <Upload className="w-3 h-3" /> CSV
+            </button>
+            <button
+              onClick={() => onExport(scope)}
+              disabled={entries.length === 0}
+              title="Export as CSV"
+              className="flex items-center gap-1 text-[10px] px-2 py-1.5 rounded border bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+            >
+              <Download className="w-3 h-3" /> CSV
+            </button>
+          </div>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+        </div>
+      )}
+    </div>
+  );
+};
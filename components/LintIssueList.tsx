@@ -0,0 +1,39 @@
+import React from 'react';
+import { LintIssue } from '../services/scriptLinter';
+import { AlertCircle, AlertTriangle, Wand2 } from 'lucide-react';
+
+interface Props {
+  issues: LintIssue[];
+  onFix: (issue: LintIssue) => void;
+  disabled?: boolean;
+}
+
+// Rule violations of one scene, each with its one-click fix when there is one
+export const LintIssueList: React.FC<Props> = ({ issues, onFix, disabled }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className="space-y-1 mb-2">
+      {issues.map(issue => (
+        <li
+          key={issue.rule}
+          className={`flex items-center gap-2 text-[10px] rounded px-2 py-1 border
+            ${issue.severity === 'error' ? 'bg-red-900/20 border-red-900/60 text-red-300' : 'bg-amber-900/10 border-amber-900/40 text-amber-400'}`}
+        >
+          {issue.severity === 'error' ? <AlertCircle className="w-3 h-3 shrink-0" /> : <AlertTriangle className="w-3 h-3 shrink-0" />}
+          <span className="flex-grow">{issue.message}</span>
+          {issue.fix && (
+            <button
+              onClick={() => onFix(issue)}
+              disabled={disabled}
+              className="shrink-0 flex items-center gap-1 px-2 py-0.5 rounded bg-slate-800 border border-slate-700 text-slate-200 hover:bg-slate-700 disabled:opacity-40"
+            >
+              <Wand2 className="w-3 h-3" />
+              {issue.fixLabel ?? 'Fix'}
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
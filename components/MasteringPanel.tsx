@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { CastMember, ExportBitDepth, ExportSampleRate, MasteringSettings } from '../types';
+import { LOUDNESS_TARGETS } from '../services/mastering';
+import { SlidersHorizontal, ChevronDown, ChevronRight, Gauge } from 'lucide-react';
+
+interface Props {
+  mastering: MasteringSettings;
+  cast: CastMember[];
+  onChange: (mastering: MasteringSettings) => void;
+  unmeasuredCount: number; // Voice clips without a stored loudness
+  onMeasure: () => void;
+  measuring?: boolean;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full bg-slate-900/80 border border-slate-700 rounded p-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-purple-500 outline-none";
+const labelClass = "block text-[10px] uppercase text-slate-500 font-semibold mb-1";
+
+const formatPan = (pan: number) =>
+  pan === 0 ? 'C' : `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`;
+
+// Loudness target, limiter, channel layout and file format of the audio export
+export const MasteringPanel: React.FC<Props> = ({ mastering, cast, onChange, unmeasuredCount, onMeasure, measuring, disabled }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const update = (patch: Partial<MasteringSettings>) => onChange({ ...mastering, ...patch });
+
+  const summary = [
+    mastering.normalize ? `${mastering.targetLufs} LUFS` : 'No normalization',
+    mastering.stereo ? 'Stereo' : 'Mono',
+    `${mastering.bitDepth}-bit`,
+    `${mastering.sampleRate / 1000} kHz`,
+  ].join(' · ');
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-xs font-semibold uppercase text-slate-500 mb-2"
+      >
+        <span className="flex items-center gap-2">
+          <SlidersHorizontal className="w-3 h-3" />
+          Mastering
+        </span>
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+      </button>
+
+      {!expanded ? (
+        <p className="text-xs text-slate-400 truncate">{summary}</p>
+      ) : (
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={mastering.normalize}
+              onChange={(e) => update({ normalize: e.target.checked })}
+              disabled={disabled}
+              className="accent-purple-500"
+            />
+            Normalize every take
+          </label>
+          {mastering.normalize && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>Target</label>
+                <select
+                  className={inputClass}
+                  value={LOUDNESS_TARGETS.some(t => t.lufs === mastering.targetLufs) ? mastering.targetLufs : 'custom'}
+                  onChange={(e) => e.target.value !== 'custom' && update({ targetLufs: Number(e.target.value) })}
+                  disabled={disabled}
+                >
+                  {LOUDNESS_TARGETS.map(target => (
+                    <option key={target.lufs} value={target.lufs}>{target.label}</option>
+                  ))}
+                  <option value="custom">Custom</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>LUFS</label>
+                <input
+                  type="number" min={-30} max={-6} step={0.5}
+                  className={inputClass}
+                  value={mastering.targetLufs}
+                  onChange={(e) => update({ targetLufs: Math.min(-6, Math.max(-30, Number(e.target.value) || -16)) })}
+                  disabled={disabled}
+                />
+              </div>
+            </div>
+          )}
+          {mastering.normalize && unmeasuredCount > 0 && (
+            <div className="flex items-center justify-between gap-2 text-[10px] text-amber-400">
+              <span>{unmeasuredCount} clips have no loudness yet; the preview plays them unadjusted.</span>
+              <button
+                onClick={onMeasure}
+                disabled={disabled || measuring}
+                className="shrink-0 flex items-center gap-1 px-2 py-1 rounded border bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+              >
+                <Gauge className="w-3 h-3" />
+                {measuring ? 'Measuring…' : 'Measure'}
+              </button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2 items-end">
+            <label className="flex items-center gap-2 text-xs text-slate-400 pb-1.5">
+              <input
+                type="checkbox"
+                checked={mastering.limiter}
+                onChange={(e) => update({ limiter: e.target.checked })}
+                disabled={disabled}
+                className="accent-purple-500"
+              />
+              Limiter
+            </label>
+            <div>
+              <label className={labelClass}>Ceiling (dBFS)</label>
+              <input
+                type="number" min={-12} max={0} step={0.1}
+                className={inputClass}
+                value={mastering.ceilingDb}
+                onChange={(e) => update({ ceilingDb: Math.min(0, Math.max(-12, Number(e.target.value) || 0)) })}
+                disabled={disabled || !mastering.limiter}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className={labelClass}>Channels</label>
+              <select
+                className={inputClass}
+                value={mastering.stereo ? 'stereo' : 'mono'}
+                onChange={(e) => update({ stereo: e.target.value === 'stereo' })}
+                disabled={disabled}
+              >
+                <option value="mono">Mono</option>
+                <option value="stereo">Stereo</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Bit depth</label>
+              <select
+                className={inputClass}
+                value={mastering.bitDepth}
+                onChange={(e) => update({ bitDepth: Number(e.target.value) as ExportBitDepth })}
+                disabled={disabled}
+              >
+                <option value={16}>16-bit</option>
+                <option value={24}>24-bit</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Rate</label>
+              <select
+                className={inputClass}
+                value={mastering.sampleRate}
+                onChange={(e) => update({ sampleRate: Number(e.target.value) as ExportSampleRate })}
+                disabled={disabled}
+              >
+                <option value={44100}>44.1 kHz</option>
+                <option value={48000}>48 kHz</option>
+              </select>
+            </div>
+          </div>
+
+          {mastering.stereo && (
+            <div className="space-y-1.5">
+              <p className={labelClass}>Speaker panning</p>
+              {cast.map(member => {
+                const pan = mastering.pan[member.id] ?? 0;
+                return (
+                  <div key={member.id} className="flex items-center gap-2 text-xs text-slate-400">
+                    <span className="w-20 truncate">{member.displayName}</span>
+                    <input
+                      type="range" min={-1} max={1} step={0.05}
+                      value={pan}
+                      onChange={(e) => update({ pan: { ...mastering.pan, [member.id]: Number(e.target.value) } })}
+                      onDoubleClick={() => update({ pan: { ...mastering.pan, [member.id]: 0 } })}
+                      disabled={disabled}
+                      title="Double-click to center"
+                      className="flex-grow accent-purple-500"
+                    />
+                    <span className="w-8 text-right text-[10px] text-slate-500">{formatPan(pan)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { MusicSettings } from '../types';
+import { MUSIC_LOOPS, createMusicLoop } from '../services/music';
+import { Music2, ChevronDown, ChevronRight, Upload } from 'lucide-react';
+
+interface Props {
+  music: MusicSettings;
+  onChange: (music: MusicSettings) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full bg-slate-900/80 border border-slate-700 rounded p-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-purple-500 outline-none";
+const labelClass = "block text-[10px] uppercase text-slate-500 font-semibold mb-1";
+
+export const MusicSettingsPanel: React.FC<Props> = ({ music, onChange, disabled }) => {
+  const [expanded, setExpanded] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<MusicSettings>) => onChange({ ...music, ...patch });
+
+  // Select value: 'none', 'upload' or 'loop:<id>'
+  const selected = music.source === 'loop' ? `loop:${music.loopId}` : music.source;
+
+  const handleSourceChange = (value: string) => {
+    if (value === 'none') {
+      update({ source: 'none', loopId: undefined, fileName: undefined, url: undefined });
+    } else if (value === 'upload') {
+      fileInputRef.current?.click();
+    } else {
+      const loopId = value.slice('loop:'.length);
+      update({ source: 'loop', loopId, fileName: undefined, url: URL.createObjectURL(createMusicLoop(loopId)) });
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    update({ source: 'upload', loopId: undefined, fileName: file.name, url: URL.createObjectURL(file) });
+  };
+
+  const summary = music.source === 'none'
+    ? 'No music'
+    : `${music.source === 'loop' ? MUSIC_LOOPS.find(l => l.id === music.loopId)?.label : music.fileName} · ${Math.round(music.volume * 100)}%`;
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-xs font-semibold uppercase text-slate-500 mb-2"
+      >
+        <span className="flex items-center gap-2">
+          <Music2 className="w-3 h-3" />
+          Music Bed
+        </span>
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+      </button>
+
+      {!expanded ? (
+        <p className="text-xs text-slate-400 truncate">{summary}</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <select
+              className={inputClass}
+              value={selected}
+              onChange={(e) => handleSourceChange(e.target.value)}
+              disabled={disabled}
+            >
+              <option value="none">None</option>
+              {MUSIC_LOOPS.map(loop => (
+                <option key={loop.id} value={`loop:${loop.id}`}>Loop: {loop.label}</option>
+              ))}
+              <option value="upload">{music.source === 'upload' ? `File: ${music.fileName}` : 'Upload file…'}</option>
+            </select>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled}
+              title="Upload a music file"
+              className="p-1.5 rounded border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40"
+            >
+              <Upload className="w-3.5 h-3.5" />
+            </button>
+            <input ref={fileInputRef} type="file" accept="audio/*" className="hidden" onChange={handleFile} />
+          </div>
+
+          {music.source !== 'none' && (
+            <>
+              {music.url && <audio src={music.url} controls className="w-full h-7" />}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Volume {Math.round(music.volume * 100)}%</label>
+                  <input
+                    type="range" min={0} max={1} step={0.01}
+                    value={music.volume}
+                    onChange={(e) => update({ volume: Number(e.target.value) })}
+                    disabled={disabled}
+                    className="w-full accent-purple-500"
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Under voice {Math.round(music.duckLevel * 100)}%</label>
+                  <input
+                    type="range" min={0} max={1} step={0.01}
+                    value={music.duckLevel}
+                    onChange={(e) => update({ duckLevel: Number(e.target.value) })}
+                    disabled={disabled}
+                    className="w-full accent-purple-500"
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Fade in (s)</label>
+                  <input
+                    type="number" min={0} step={0.5}
+                    className={inputClass}
+                    value={music.fadeInSeconds}
+                    onChange={(e) => update({ fadeInSeconds: Math.max(0, Number(e.target.value) || 0) })}
+                    disabled={disabled}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Fade out (s)</label>
+                  <input
+                    type="number" min={0} step={0.5}
+                    className={inputClass}
+                    value={music.fadeOutSeconds}
+                    onChange={(e) => update({ fadeOutSeconds: Math.max(0, Number(e.target.value) || 0) })}
+                    disabled={disabled}
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={music.loop}
+                  onChange={(e) => update({ loop: e.target.checked })}
+                  disabled={disabled}
+                  className="accent-purple-500"
+                />
+                Loop until the end of the episode
+              </label>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,369 @@
+import React from 'react';
+import { useCurrentFrame, useVideoConfig, interpolate, spring, Easing } from 'remotion';
+import { ChartSpec, ChartType, Theme } from '../types';
+import { formatChartValue, getValueDecimals } from '../services/charts';
+import { getSeriesColors } from '../services/themes';
+
+interface Props {
+  chart: ChartSpec;
+  theme: Theme;
+  delay: number; // Frames to wait for the card entrance
+}
+
+// Frames between consecutive bars starting to grow
+const BAR_STAGGER = 4;
+const LINE_DRAW_FRAMES = 45;
+const PIE_SWEEP_FRAMES = 40;
+const COUNT_UP_FRAMES = 40;
+
+// Plot size in composition pixels, so one SVG unit is one pixel at every aspect ratio
+const usePlotSize = () => {
+  const { width, height } = useVideoConfig();
+  const plotWidth = width * 0.8;
+  const plotHeight = height * (height > width ? 0.35 : 0.42);
+  return { plotWidth, plotHeight, fontSize: Math.min(width, height) * 0.028 };
+};
+
+// Labels are CJK-heavy, so one character is roughly one em wide
+const fitFontSize = (labels: string[], slotWidth: number, fontSize: number) =>
+  Math.min(fontSize, (slotWidth * 0.95) / Math.max(1, ...labels.map(label => label.length)));
+
+const getMaxValue = (chart: ChartSpec) =>
+  Math.max(0, ...chart.series.flatMap(s => s.values.filter((v): v is number => v !== null))) || 1;
+
+const Legend: React.FC<{ chart: ChartSpec; theme: Theme; fontSize: number }> = ({ chart, theme, fontSize }) =>
+  chart.series.length < 2 ? null : (
+    <div className="flex justify-center flex-wrap gap-6 mb-2" style={{ fontSize }}>
+      {chart.series.map((s, idx) => (
+        <span key={s.name} className="flex items-center gap-2 font-bold" style={{ color: theme.palette.mutedText }}>
+          <span className="inline-block rounded-sm" style={{ width: fontSize, height: fontSize, backgroundColor: getSeriesColors(theme)[idx] }} />
+          {s.name}
+        </span>
+      ))}
+    </div>
+  );
+
+const BarChart: React.FC<Props> = ({ chart, theme, delay }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const { plotWidth, plotHeight, fontSize } = usePlotSize();
+  const colors = getSeriesColors(theme);
+
+  const max = getMaxValue(chart);
+  const slotWidth = plotWidth / chart.labels.length;
+  const barWidth = (slotWidth * 0.7) / chart.series.length;
+  const labelFont = fitFontSize(chart.labels, slotWidth, fontSize);
+  const valueFont = Math.min(fontSize, barWidth * 0.4);
+  const baseline = plotHeight - labelFont * 2;
+  const barArea = baseline - valueFont * 1.8;
+
+  return (
+    <svg viewBox={`0 0 ${plotWidth} ${plotHeight}`} width="100%" style={{ maxHeight: plotHeight }}>
+      <line x1={0} x2={plotWidth} y1={baseline} y2={baseline} stroke="rgba(255,255,255,0.3)" strokeWidth={2} />
+      {chart.labels.map((label, lIdx) => {
+        const grow = spring({ frame: frame - delay - lIdx * BAR_STAGGER, fps, config: { damping: 200 } });
+        const slotX = lIdx * slotWidth + slotWidth * 0.15;
+        return (
+          <g key={lIdx}>
+            {chart.series.map((s, sIdx) => {
+              const value = s.values[lIdx];
+              if (value === null) return null;
+              const barHeight = Math.max(0, (value / max) * barArea * grow);
+              const x = slotX + sIdx * barWidth;
+              return (
+                <g key={s.name}>
+                  <rect
+                    x={x + barWidth * 0.08}
+                    y={baseline - barHeight}
+                    width={barWidth * 0.84}
+                    height={barHeight}
+                    rx={Math.min(8, barWidth * 0.1)}
+                    fill={colors[sIdx]}
+                  />
+                  <text
+                    x={x + barWidth / 2}
+                    y={baseline - barHeight - valueFont * 0.5}
+                    textAnchor="middle"
+                    fontSize={valueFont}
+                    fontWeight={700}
+                    fill={theme.palette.text}
+                    opacity={grow}
+                  >
+                    {formatChartValue(value * grow, getValueDecimals(s.values), chart.unit)}
+                  </text>
+                </g>
+              );
+            })}
+            <text
+              x={lIdx * slotWidth + slotWidth / 2}
+              y={baseline + labelFont * 1.4}
+              textAnchor="middle"
+              fontSize={labelFont}
+              fontWeight={700}
+              fill={theme.palette.primary}
+            >
+              {label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const LineChart: React.FC<Props> = ({ chart, theme, delay }) => {
+  const frame = useCurrentFrame();
+  const { plotWidth, plotHeight, fontSize } = usePlotSize();
+  const colors = getSeriesColors(theme);
+
+  const values = chart.series.flatMap(s => s.values.filter((v): v is number => v !== null));
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const padding = (max - min) * 0.15 || Math.abs(max) * 0.15 || 1;
+  const slotWidth = plotWidth / chart.labels.length;
+  const labelFont = fitFontSize(chart.labels, slotWidth, fontSize);
+  const valueFont = fontSize * 0.9;
+  const top = valueFont * 2;
+  const bottom = plotHeight - labelFont * 2;
+
+  const xAt = (idx: number) => slotWidth * (idx + 0.5);
+  const yAt = (value: number) => bottom - ((value - (min - padding)) / (max - min + padding * 2)) * (bottom - top);
+
+  const progress = interpolate(frame - delay, [0, LINE_DRAW_FRAMES], [0, 1], {
+    extrapolateLeft: 'clamp',
+    extrapolateRight: 'clamp',
+    easing: Easing.inOut(Easing.cubic),
+  });
+  // Fraction of the x axis drawn so far; a point shows once the line reaches it
+  const reached = (idx: number) => chart.labels.length === 1 || progress >= idx / (chart.labels.length - 1);
+
+  return (
+    <svg viewBox={`0 0 ${plotWidth} ${plotHeight}`} width="100%" style={{ maxHeight: plotHeight }}>
+      <line x1={0} x2={plotWidth} y1={bottom} y2={bottom} stroke="rgba(255,255,255,0.3)" strokeWidth={2} />
+      {chart.series.map((s, sIdx) => {
+        const points = s.values
+          .map((value, idx) => value === null ? null : { x: xAt(idx), y: yAt(value), value, idx })
+          .filter((p): p is { x: number; y: number; value: number; idx: number } => p !== null);
+        const length = points.slice(1).reduce((acc, p, idx) => acc + Math.hypot(p.x - points[idx].x, p.y - points[idx].y), 0);
+        return (
+          <g key={s.name}>
+            <polyline
+              points={points.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="none"
+              stroke={colors[sIdx]}
+              strokeWidth={Math.max(3, fontSize * 0.2)}
+              strokeLinejoin="round"
+              strokeLinecap="round"
+              strokeDasharray={length}
+              strokeDashoffset={length * (1 - progress)}
+            />
+            {points.filter(p => reached(p.idx)).map(p => (
+              <g key={p.idx}>
+                <circle cx={p.x} cy={p.y} r={Math.max(5, fontSize * 0.3)} fill={colors[sIdx]} stroke="white" strokeWidth={2} />
+                {chart.series.length === 1 && (
+                  <text x={p.x} y={p.y - valueFont * 0.8} textAnchor="middle" fontSize={valueFont} fontWeight={700} fill={theme.palette.text}>
+                    {formatChartValue(p.value, getValueDecimals(s.values), chart.unit)}
+                  </text>
+                )}
+              </g>
+            ))}
+          </g>
+        );
+      })}
+      {chart.labels.map((label, idx) => (
+        <text key={idx} x={xAt(idx)} y={bottom + labelFont * 1.4} textAnchor="middle" fontSize={labelFont} fontWeight={700} fill={theme.palette.primary}>
+          {label}
+        </text>
+      ))}
+    </svg>
+  );
+};
+
+// Slice from angle `start` to `end` in radians, clockwise from 12 o'clock
+const slicePath = (cx: number, cy: number, r: number, start: number, end: number) => {
+  const sweep = Math.min(end - start, Math.PI * 2 - 1e-4); // A full circle has no distinct end point
+  const point = (angle: number) => `${cx + r * Math.sin(angle)} ${cy - r * Math.cos(angle)}`;
+  return `M ${cx} ${cy} L ${point(start)} A ${r} ${r} 0 ${sweep > Math.PI ? 1 : 0} 1 ${point(start + sweep)} Z`;
+};
+
+// Shares of the first series; the slices sweep in clockwise
+const PieChart: React.FC<Props> = ({ chart, theme, delay }) => {
+  const frame = useCurrentFrame();
+  const { plotWidth, plotHeight, fontSize } = usePlotSize();
+  const colors = getSeriesColors(theme);
+
+  const series = chart.series[0];
+  const decimals = getValueDecimals(series.values);
+  const slices = chart.labels
+    .map((label, idx) => ({ label, value: series.values[idx] ?? 0, color: colors[idx % colors.length], faded: idx >= colors.length }))
+    .filter(slice => slice.value > 0);
+  const total = slices.reduce((acc, slice) => acc + slice.value, 0) || 1;
+
+  const progress = interpolate(frame - delay, [0, PIE_SWEEP_FRAMES], [0, 1], {
+    extrapolateLeft: 'clamp',
+    extrapolateRight: 'clamp',
+    easing: Easing.inOut(Easing.cubic),
+  });
+
+  const r = Math.min(plotHeight * 0.45, plotWidth * 0.22);
+  const cx = r + fontSize;
+  const cy = plotHeight / 2;
+  const legendX = cx + r + fontSize * 2;
+  const legendTexts = slices.map(slice => `${slice.label} ${formatChartValue(slice.value, decimals, chart.unit)} (100%)`);
+  const legendFont = Math.min(fitFontSize(legendTexts, plotWidth - legendX - fontSize * 1.5, fontSize), (plotHeight / Math.max(1, slices.length)) * 0.55);
+  const rowHeight = legendFont * 1.6;
+  const legendTop = cy - (rowHeight * slices.length) / 2;
+
+  let start = 0;
+  return (
+    <svg viewBox={`0 0 ${plotWidth} ${plotHeight}`} width="100%" style={{ maxHeight: plotHeight }}>
+      {slices.map((slice, idx) => {
+        const sliceStart = start;
+        start += (slice.value / total) * Math.PI * 2;
+        const end = Math.min(start, Math.PI * 2 * progress);
+        if (end <= sliceStart) return null;
+        return (
+          <path
+            key={idx}
+            d={slicePath(cx, cy, r, sliceStart, end)}
+            fill={slice.color}
+            fillOpacity={slice.faded ? 0.55 : 1}
+            stroke={theme.palette.background}
+            strokeWidth={2}
+          />
+        );
+      })}
+      {slices.map((slice, idx) => {
+        const y = legendTop + rowHeight * (idx + 0.5);
+        const share = Math.round((slice.value / total) * 100);
+        return (
+          <g key={idx} opacity={progress}>
+            <rect x={legendX} y={y - legendFont * 0.5} width={legendFont} height={legendFont} rx={3} fill={slice.color} fillOpacity={slice.faded ? 0.55 : 1} />
+            <text x={legendX + legendFont * 1.5} y={y} dominantBaseline="middle" fontSize={legendFont} fontWeight={700} fill={theme.palette.text}>
+              {slice.label}
+              <tspan fill={theme.palette.mutedText} dx={legendFont * 0.5}>
+                {formatChartValue(slice.value, decimals, chart.unit)} ({share}%)
+              </tspan>
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+// Competition ranking: equal values share a place (1, 2, 2, 4)
+const rankEntries = (entries: { label: string; value: number }[]) => {
+  const sorted = [...entries].sort((a, b) => b.value - a.value);
+  return sorted.map(entry => ({ ...entry, rank: sorted.findIndex(other => other.value === entry.value) + 1 }));
+};
+
+// Rows of the first series from highest to lowest, each with its place and a bar
+const RankingChart: React.FC<Props> = ({ chart, theme, delay }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const { plotWidth, plotHeight, fontSize } = usePlotSize();
+  const colors = getSeriesColors(theme);
+
+  const series = chart.series[0];
+  const decimals = getValueDecimals(series.values);
+  const entries = rankEntries(chart.labels
+    .map((label, idx) => ({ label, value: series.values[idx] }))
+    .filter((entry): entry is { label: string; value: number } => entry.value !== null));
+  const max = Math.max(0, ...entries.map(entry => entry.value)) || 1;
+
+  const rowHeight = plotHeight / Math.max(1, entries.length);
+  const rowFont = Math.min(fontSize, rowHeight * 0.5);
+  const rankWidth = rowFont * 3;
+  const labelWidth = plotWidth * 0.28;
+  const labelFont = fitFontSize(entries.map(entry => entry.label), labelWidth, rowFont);
+  const valueWidth = rowFont * 5;
+  const barX = rankWidth + labelWidth + rowFont * 0.5;
+  const barArea = plotWidth - barX - valueWidth;
+
+  return (
+    <svg viewBox={`0 0 ${plotWidth} ${plotHeight}`} width="100%" style={{ maxHeight: plotHeight }}>
+      {entries.map((entry, idx) => {
+        const grow = spring({ frame: frame - delay - idx * BAR_STAGGER, fps, config: { damping: 200 } });
+        const y = rowHeight * (idx + 0.5);
+        const barLength = Math.max(0, (entry.value / max) * barArea * grow);
+        return (
+          <g key={idx} opacity={Math.min(1, grow * 2)}>
+            <text x={rankWidth * 0.8} y={y} textAnchor="end" dominantBaseline="middle" fontSize={rowFont} fontWeight={900} fill={entry.rank === 1 ? theme.palette.accent : theme.palette.mutedText}>
+              {entry.rank}位
+            </text>
+            <text x={rankWidth} y={y} dominantBaseline="middle" fontSize={labelFont} fontWeight={700} fill={theme.palette.primary}>
+              {entry.label}
+            </text>
+            <rect x={barX} y={y - rowHeight * 0.3} width={barLength} height={rowHeight * 0.6} rx={Math.min(8, rowHeight * 0.1)} fill={colors[0]} fillOpacity={entry.rank === 1 ? 1 : 0.7} />
+            <text x={barX + barLength + rowFont * 0.4} y={y} dominantBaseline="middle" fontSize={rowFont} fontWeight={700} fill={theme.palette.text}>
+              {formatChartValue(entry.value * grow, decimals, chart.unit)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+// At most three big numbers; more would not fit a portrait frame
+const MAX_COUNTERS = 3;
+
+const CounterChart: React.FC<Props> = ({ chart, theme, delay }) => {
+  const frame = useCurrentFrame();
+  const { width, height } = useVideoConfig();
+  const { fontSize } = usePlotSize();
+
+  const counters = chart.labels
+    .flatMap((label, idx) => chart.series.map(s => ({
+      caption: chart.series.length > 1 ? `${label} · ${s.name}` : label,
+      value: s.values[idx],
+      decimals: getValueDecimals(s.values),
+    })))
+    .filter(counter => counter.value !== null)
+    .slice(0, MAX_COUNTERS);
+
+  const progress = interpolate(frame - delay, [0, COUNT_UP_FRAMES], [0, 1], {
+    extrapolateLeft: 'clamp',
+    extrapolateRight: 'clamp',
+    easing: Easing.out(Easing.cubic),
+  });
+
+  return (
+    <div className={`flex items-center justify-around gap-8 p-6 ${height > width ? 'flex-col' : 'flex-row'}`}>
+      {counters.map((counter, idx) => (
+        <div key={idx} className="text-center">
+          <div
+            className="font-black leading-none drop-shadow-[0_4px_8px_rgba(0,0,0,0.8)]"
+            style={{ fontSize: fontSize * (counters.length === 1 ? 4 : 2.6), color: theme.palette.text, fontFamily: theme.headingFontFamily }}
+          >
+            {formatChartValue(counter.value! * progress, counter.decimals, chart.unit)}
+          </div>
+          <div className="font-bold uppercase tracking-widest mt-3" style={{ fontSize, color: theme.palette.primary }}>
+            {counter.caption}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const CHARTS: Record<ChartType, React.FC<Props>> = {
+  bar: BarChart,
+  line: LineChart,
+  pie: PieChart,
+  ranking: RankingChart,
+  counter: CounterChart,
+};
+
+// Animated replacement for the header/value grid: bars grow, lines draw, slices sweep in and numbers count up
+export const OverlayChart: React.FC<Props> = ({ chart, theme, delay }) => {
+  const { fontSize } = usePlotSize();
+  const Chart = CHARTS[chart.type] ?? BarChart;
+  return (
+    <div className="w-full p-4 md:p-6">
+      {chart.type !== 'counter' && <Legend chart={chart} theme={theme} fontSize={fontSize * 0.8} />}
+      <Chart chart={chart} theme={theme} delay={delay} />
+    </div>
+  );
+};
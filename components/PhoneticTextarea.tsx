@@ -0,0 +1,66 @@
+import React, { useRef } from 'react';
+import { LexiconEntry } from '../types';
+import { findLexiconHits } from '../services/lexicon';
+import { BookA } from 'lucide-react';
+
+interface Props {
+  value: string;
+  onChange: (value: string) => void;
+  lexicon: LexiconEntry[];
+  placeholder?: string;
+}
+
+// Shared by the textarea and its highlight layer so the text lines up exactly
+const textClass = "p-2 text-xs leading-relaxed whitespace-pre-wrap break-words border";
+
+// Hiragana textarea that marks lexicon terms, which are replaced by their reading before TTS.
+// A textarea cannot style ranges, so the marks are drawn on a mirror layer behind it.
+export const PhoneticTextarea: React.FC<Props> = ({ value, onChange, lexicon, placeholder }) => {
+  const mirrorRef = useRef<HTMLDivElement>(null);
+  const hits = findLexiconHits(value, lexicon);
+
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  hits.forEach((hit, idx) => {
+    segments.push(value.slice(cursor, hit.start));
+    segments.push(
+      <mark key={idx} className="bg-sky-500/30 text-transparent rounded-sm">{value.slice(hit.start, hit.end)}</mark>
+    );
+    cursor = hit.end;
+  });
+  segments.push(value.slice(cursor));
+
+  const uniqueHits = [...new Map(hits.map(hit => [hit.entry.surface, hit.entry])).values()];
+
+  return (
+    <div>
+      <div className="relative bg-slate-900 rounded">
+        <div
+          ref={mirrorRef}
+          aria-hidden
+          className={`absolute inset-0 overflow-hidden text-transparent border-transparent pointer-events-none ${textClass}`}
+        >
+          {segments}
+          {'\n'}
+        </div>
+        <textarea
+          className={`relative block w-full bg-transparent rounded text-slate-300 min-h-[50px] focus:ring-1 focus:ring-indigo-500 outline-none border-slate-700 ${textClass}`}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => { if (mirrorRef.current) mirrorRef.current.scrollTop = e.currentTarget.scrollTop; }}
+          placeholder={placeholder}
+        />
+      </div>
+      {uniqueHits.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {uniqueHits.map(entry => (
+            <span key={entry.surface} className="text-[9px] text-sky-300 bg-sky-900/30 rounded px-1.5 py-0.5 flex items-center gap-1">
+              <BookA className="w-2.5 h-2.5" />
+              {entry.surface} → {entry.reading}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useRef, useState } from 'react';
+import { Mp3Bitrate, PodcastSettings } from '../types';
+import { MP3_BITRATES, readCoverFile } from '../services/podcast';
+import { Podcast, ChevronDown, ChevronRight, Upload, X } from 'lucide-react';
+
+interface Props {
+  podcast: PodcastSettings;
+  onChange: (podcast: PodcastSettings) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full bg-slate-900/80 border border-slate-700 rounded p-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-purple-500 outline-none";
+const labelClass = "block text-[10px] uppercase text-slate-500 font-semibold mb-1";
+
+// Show metadata embedded in the MP3 export; the episode title is the topic and chapters come from overlay titles
+export const PodcastPanel: React.FC<Props> = ({ podcast, onChange, disabled }) => {
+  const [expanded, setExpanded] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<PodcastSettings>) => onChange({ ...podcast, ...patch });
+
+  const handleCover = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    try {
+      update({ coverUrl: await readCoverFile(file) });
+    } catch (err: any) {
+      console.error("Failed to load cover", err);
+      alert(err.message || "Failed to load cover.");
+    }
+  };
+
+  const summary = [
+    podcast.showName.trim() || 'No show name',
+    podcast.episodeNumber !== undefined ? `#${podcast.episodeNumber}` : undefined,
+    `${podcast.bitrate} kbps`,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-xs font-semibold uppercase text-slate-500 mb-2"
+      >
+        <span className="flex items-center gap-2">
+          <Podcast className="w-3 h-3" />
+          Podcast
+        </span>
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+      </button>
+
+      {!expanded ? (
+        <p className="text-xs text-slate-400 truncate">{summary}</p>
+      ) : (
+        <div className="space-y-3">
+          <div>
+            <label className={labelClass}>Show name</label>
+            <input
+              className={inputClass}
+              value={podcast.showName}
+              onChange={(e) => update({ showName: e.target.value })}
+              placeholder="Written as the album"
+              disabled={disabled}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Episode</label>
+              <input
+                type="number" min={1} step={1}
+                className={inputClass}
+                value={podcast.episodeNumber ?? ''}
+                onChange={(e) => {
+                  const value = Math.floor(Number(e.target.value));
+                  update({ episodeNumber: e.target.value === '' || !(value >= 1) ? undefined : value });
+                }}
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>MP3 bitrate</label>
+              <select
+                className={inputClass}
+                value={podcast.bitrate}
+                onChange={(e) => update({ bitrate: Number(e.target.value) as Mp3Bitrate })}
+                disabled={disabled}
+              >
+                {MP3_BITRATES.map(bitrate => (
+                  <option key={bitrate} value={bitrate}>{bitrate} kbps</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Cover art</label>
+            <div className="flex items-center gap-2">
+              {podcast.coverUrl ? (
+                <img src={podcast.coverUrl} alt="Cover" className="w-10 h-10 object-cover rounded border border-slate-700" />
+              ) : (
+                <span className="text-[10px] text-slate-500">No cover</span>
+              )}
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled}
+                title="Upload a square JPEG or PNG"
+                className="p-1.5 rounded border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40"
+              >
+                <Upload className="w-3.5 h-3.5" />
+              </button>
+              {podcast.coverUrl && (
+                <button
+                  onClick={() => update({ coverUrl: undefined })}
+                  disabled={disabled}
+                  title="Remove cover"
+                  className="p-1.5 rounded border border-slate-700 text-slate-400 hover:text-red-400 disabled:opacity-40"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+              <input ref={fileInputRef} type="file" accept="image/jpeg,image/png" className="hidden" onChange={handleCover} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
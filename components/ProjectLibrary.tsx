@@ -0,0 +1,119 @@
+import React, { useRef } from 'react';
+import { ProjectSummary } from '../types';
+import { FolderOpen, Copy, Pencil, Trash2, FilePlus, Loader2, Upload } from 'lucide-react';
+
+interface Props {
+  projects: ProjectSummary[];
+  activeProjectId: string | null;
+  saveState: 'idle' | 'saving' | 'saved' | 'error';
+  disabled?: boolean;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const ProjectLibrary: React.FC<Props> = ({
+  projects, activeProjectId, saveState, disabled, onOpen, onNew, onDuplicate, onRename, onDelete, onImport
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleRename = (project: ProjectSummary) => {
+    const name = window.prompt("Rename project", project.name);
+    if (name && name.trim() && name.trim() !== project.name) {
+      onRename(project.id, name.trim());
+    }
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (window.confirm(`Delete "${project.name}"? Its script and audio will be removed from this browser.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = ''; // Allow importing the same file twice
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl p-4 shadow-xl space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-semibold uppercase text-slate-500 flex items-center gap-2">
+          <FolderOpen className="w-3 h-3" />
+          Projects
+        </label>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] text-slate-500">
+            {saveState === 'saving' && <span className="flex items-center gap-1"><Loader2 className="w-3 h-3 animate-spin" /> Saving...</span>}
+            {saveState === 'saved' && 'All changes saved'}
+            {saveState === 'error' && <span className="text-amber-500">Save failed</span>}
+          </span>
+          <input ref={fileInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleFileChange} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            title="Import a project bundle (.zip)"
+            className="flex items-center gap-1 text-[10px] px-2 py-1 rounded border border-slate-600 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+          >
+            <Upload className="w-3 h-3" />
+            Import
+          </button>
+          <button
+            onClick={onNew}
+            disabled={disabled}
+            className="flex items-center gap-1 text-[10px] px-2 py-1 rounded border border-slate-600 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+          >
+            <FilePlus className="w-3 h-3" />
+            New
+          </button>
+        </div>
+      </div>
+
+      {projects.length === 0 ? (
+        <p className="text-xs text-slate-500 italic">Generated episodes are saved here automatically.</p>
+      ) : (
+        <ul className="space-y-1 max-h-[200px] overflow-auto">
+          {projects.map(project => (
+            <li
+              key={project.id}
+              className={`group flex items-center justify-between gap-2 rounded-lg px-2 py-1.5 border transition-colors ${
+                project.id === activeProjectId
+                  ? 'bg-purple-600/20 border-purple-500/50'
+                  : 'border-transparent hover:bg-slate-700/40'
+              }`}
+            >
+              <button
+                onClick={() => onOpen(project.id)}
+                disabled={disabled}
+                className="flex-grow text-left min-w-0 disabled:cursor-not-allowed"
+              >
+                <div className="text-sm text-slate-200 truncate">{project.name}</div>
+                <div className="text-[10px] text-slate-500">
+                  {project.sceneCount} scenes · {formatDate(project.updatedAt)}
+                </div>
+              </button>
+              <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+                <button onClick={() => handleRename(project)} disabled={disabled} title="Rename" className="p-1 text-slate-400 hover:text-white">
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button onClick={() => onDuplicate(project.id)} disabled={disabled} title="Duplicate" className="p-1 text-slate-400 hover:text-white">
+                  <Copy className="w-3 h-3" />
+                </button>
+                <button onClick={() => handleDelete(project)} disabled={disabled} title="Delete" className="p-1 text-slate-400 hover:text-red-400">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,110 +1,94 @@
 
 import React, { useMemo } from 'react';
-import { AbsoluteFill, Sequence, useCurrentFrame, interpolate, spring, useVideoConfig, Img, Easing, Audio } from 'remotion';
-import { Scene, FPS, TRANSITION_DURATION_IN_FRAMES } from '../types';
+import { AbsoluteFill, Sequence, useCurrentFrame, interpolate, spring, useVideoConfig, Img, Easing, Audio, Video } from 'remotion';
+import { Scene, AspectRatio, CastMember, MusicSettings, Theme, SceneTransition, LibraryAsset, MasteringSettings } from '../types';
+import { DEFAULT_CAST } from '../services/cast';
+import { getMusicVolume, getVoiceIntervals, VoiceInterval } from '../services/music';
+import { getSceneSubtitleChunks } from '../services/subtitles';
+import { getLayout, resolveLayoutProps } from '../services/layouts';
+import { DEFAULT_THEME, withAlpha } from '../services/themes';
+import { buildTimeline } from '../services/timeline';
+import { getSceneTransition, getTransitionStyle, isSlideTransition } from '../services/transitions';
+import { resolveSceneBackgrounds, ResolvedBackground } from '../services/backgrounds';
+import { DEFAULT_MASTERING_SETTINGS, dbToGain, getSceneGainDb } from '../services/mastering';
+import { LAYOUT_COMPONENTS } from './SceneLayouts';
 
 interface Props {
   scenes: Scene[];
   introBgUrl?: string;
+  assets?: LibraryAsset[]; // Background library; scenes without a match get a generated pattern
+  cast?: CastMember[];
+  music?: MusicSettings;
+  theme?: Theme;
+  mastering?: MasteringSettings; // Voice gains; panning and limiting only happen in the audio export
 }
 
+// Shared by the in-app Player and the headless renderer so both produce the same frame size and length
+export const getCompositionDimensions = (aspectRatio: AspectRatio) => {
+  switch (aspectRatio) {
+    case '16:9': return { width: 1280, height: 720 };
+    case '1:1': return { width: 1080, height: 1080 };
+    case '9:16': return { width: 720, height: 1280 };
+    default: return { width: 1280, height: 720 };
+  }
+};
+
 interface SceneProps {
   scene: Scene;
   index: number;
-  introBgUrl?: string;
+  background: ResolvedBackground;
+  cast: CastMember[];
+  theme: Theme;
+  transition: SceneTransition;
+  transitionFrames: number; // Clamped by the timeline; 0 plays no transition
+  transitionOutFrames: number; // From the timeline; estimated subtitles end before the next transition
 }
 
-// Helper to split Japanese text into natural chunks for subtitles
-const splitDialogueIntoChunks = (text: string): string[] => {
-  // Remove speaker prefix if present
-  const cleanText = text.replace(/^(じぇんば|あいば)[:：]/, '').trim();
-  
-  // Split by sentence endings first
-  const sentences = cleanText.split(/(?<=[。！？!?])\s*/).filter(s => s.length > 0);
-  
-  const chunks: string[] = [];
-  
-  sentences.forEach(sentence => {
-    if (sentence.length < 25) {
-      chunks.push(sentence);
-    } else {
-      // If sentence is too long, split by commas
-      const subParts = sentence.split(/(?<=[、,])\s*/);
-      let currentChunk = "";
-      
-      subParts.forEach(part => {
-        if ((currentChunk + part).length > 30) {
-          if (currentChunk) chunks.push(currentChunk);
-          currentChunk = part;
-        } else {
-          currentChunk += part;
-        }
-      });
-      if (currentChunk) chunks.push(currentChunk);
-    }
-  });
-
-  return chunks;
-};
-
-const SceneComponent: React.FC<SceneProps> = ({ scene, index, introBgUrl }) => {
+const SceneComponent: React.FC<SceneProps> = ({ scene, index, background, cast, theme, transition, transitionFrames, transitionOutFrames }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
 
-  // Calculate transition progress for slide-in effect
-  const slideProgress = interpolate(frame, [0, TRANSITION_DURATION_IN_FRAMES], [0, 1], {
-    extrapolateRight: 'clamp',
-    easing: Easing.bezier(0.25, 0.1, 0.25, 1),
-  });
-
-  const xOffset = index === 0 
-    ? 0 
-    : interpolate(slideProgress, [0, 1], [100, 0]);
-  
-  const containerOpacity = index === 0
-    ? interpolate(frame, [0, 20], [0, 1], { extrapolateRight: 'clamp' })
+  // Transition progress while the scene covers the end of the previous one
+  const transitionProgress = transitionFrames > 0
+    ? interpolate(frame, [0, transitionFrames], [0, 1], {
+        extrapolateRight: 'clamp',
+        easing: Easing.bezier(0.25, 0.1, 0.25, 1),
+      })
     : 1;
+  const transitionStyle = getTransitionStyle(transition.type, transitionProgress);
 
-  // Entrance animation for data card
+  // Entrance animation for the layout content, two thirds into the transition
+  const entranceDelay = index === 0 ? 0 : Math.round(transitionFrames * 2 / 3);
   const cardEntrance = spring({
-    frame: Math.max(0, frame - (index === 0 ? 0 : 10)),
+    frame: Math.max(0, frame - entranceDelay),
     fps,
     config: { damping: 15 },
   });
 
-  const cardScale = interpolate(cardEntrance, [0, 1], [0.9, 1]);
-  const cardOpacity = interpolate(cardEntrance, [0, 1], [0, 1]);
+  const layout = getLayout(scene.layout);
+  const LayoutComponent = LAYOUT_COMPONENTS[layout.id];
+  const layoutProps = useMemo(() => resolveLayoutProps(scene, cast), [scene, cast]);
 
   // Background subtle zoom
   const bgScale = interpolate(frame, [0, scene.durationInSeconds * fps], [1, 1.1]);
-
-  // Determine image source: Use introBgUrl for the first scene if available, otherwise dynamic logic
-  const imgSrc = (index === 0 && introBgUrl) 
-    ? introBgUrl 
-    : `https://picsum.photos/seed/${scene.keyword}/1280/720`;
+  const backgroundStyle: React.CSSProperties = {
+    width: '100%',
+    height: '100%',
+    objectFit: 'cover',
+    transform: `scale(${bgScale})`,
+    filter: layout.clearBackground ? 'none' : 'blur(4px)' // Slight blur to keep focus on data
+  };
 
 
   // --- Subtitle Logic ---
+  // Uses the audio-aligned timing stored on the scene, or a character-count estimate without it
   const chunks = useMemo(() => {
-    const textChunks = splitDialogueIntoChunks(scene.dialogue);
-    const totalChars = textChunks.join('').length;
-    const totalDurationFrames = (scene.durationInSeconds * fps) - 15; // Buffer at end
-
-    let currentStart = 0;
-    return textChunks.map(text => {
-      // Calculate duration based on character density
-      const weight = Math.max(text.length, 5); // Minimum weight for short words
-      const duration = (weight / Math.max(totalChars, 1)) * totalDurationFrames;
-      
-      const chunkObj = {
-        text,
-        startFrame: currentStart,
-        endFrame: currentStart + duration
-      };
-      currentStart += duration;
-      return chunkObj;
-    });
-  }, [scene.dialogue, scene.durationInSeconds, fps]);
+    return getSceneSubtitleChunks(scene, cast, transitionOutFrames).map(chunk => ({
+      text: chunk.text,
+      startFrame: chunk.start * fps,
+      endFrame: chunk.end * fps
+    }));
+  }, [scene, fps, cast, transitionOutFrames]);
 
   // Find active subtitle chunk
   const activeChunk = chunks.find(c => frame >= c.startFrame && frame < c.endFrame);
@@ -120,28 +104,29 @@ const SceneComponent: React.FC<SceneProps> = ({ scene, index, introBgUrl }) => {
 
   return (
     <AbsoluteFill 
-      className="bg-slate-950 overflow-hidden"
+      className="overflow-hidden"
       style={{
-        transform: `translateX(${xOffset}%)`,
-        opacity: containerOpacity,
-        boxShadow: index > 0 ? '-20px 0 50px rgba(0,0,0,0.8)' : 'none',
+        backgroundColor: theme.palette.background,
+        fontFamily: theme.fontFamily,
+        ...transitionStyle,
+        boxShadow: index > 0 && isSlideTransition(transition.type) ? '0 0 50px rgba(0,0,0,0.8)' : 'none',
       }}
     >
       {/* 1. Background Layer */}
       <AbsoluteFill style={{ zIndex: 0 }}>
-        <Img
-          src={imgSrc}
-          style={{
-            width: '100%',
-            height: '100%',
-            objectFit: 'cover',
-            transform: `scale(${bgScale})`,
-            filter: 'blur(4px)' // Slight blur to keep focus on data
-          }}
-          alt={scene.visualDescription}
-        />
+        {background.kind === 'image' && (
+          <Img src={background.url} style={backgroundStyle} alt={scene.visualDescription} />
+        )}
+        {background.kind === 'video' && (
+          <Video src={background.url} style={backgroundStyle} loop muted />
+        )}
+        {background.kind === 'generated' && (
+          <div style={{ ...backgroundStyle, background: background.css }} />
+        )}
         {/* Dark Gradient Overlay for Readability */}
-        <div className="absolute inset-0 bg-gradient-to-b from-slate-950/60 via-slate-900/70 to-slate-950/90" />
+        <div className={`absolute inset-0 bg-gradient-to-b ${
+          layout.clearBackground ? 'from-transparent via-transparent to-slate-950/80' : 'from-slate-950/60 via-slate-900/70 to-slate-950/90'
+        }`} />
         
         {/* Subtle Color Tint (based on AI suggestion) - blend mode overlay to not wash out */}
         <div 
@@ -154,60 +139,41 @@ const SceneComponent: React.FC<SceneProps> = ({ scene, index, introBgUrl }) => {
       <AbsoluteFill className="z-10 flex flex-col justify-between p-8 md:p-12 h-full box-border">
         
         {/* Top: Title Section */}
-        <div className="w-full text-center pt-4 shrink-0">
-          <h1 className="text-4xl md:text-5xl lg:text-6xl font-black text-white uppercase tracking-widest drop-shadow-[0_4px_4px_rgba(0,0,0,0.8)]">
-            {scene.dataOverlay.title}
-          </h1>
-          {scene.dataOverlay.subhead && (
-            <h3 className="text-purple-200 text-lg md:text-2xl font-bold mt-2 md:mt-3 tracking-wide uppercase drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]">
-              {scene.dataOverlay.subhead}
-            </h3>
-          )}
-        </div>
-
-        {/* Middle: Data Card / Grid (Flex grow to take available space) */}
-        <div className="flex items-center justify-center flex-grow py-6 w-full">
-          <div 
-            className="w-full max-w-6xl bg-slate-900/60 backdrop-blur-xl rounded-3xl border border-white/10 shadow-2xl overflow-hidden"
-            style={{
-              opacity: cardOpacity,
-              transform: `scale(${cardScale})`,
-              boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)',
-              maxHeight: '100%' // Prevent overflow
-            }}
-          >
-             <div className="grid w-full divide-x divide-white/10" style={{ gridTemplateColumns: `repeat(${scene.dataOverlay.headers.length}, 1fr)` }}>
-               {/* Headers */}
-               {scene.dataOverlay.headers.map((header, hIdx) => (
-                 <div key={`h-${hIdx}`} className="bg-black/20 p-4 md:p-6 text-center border-b border-white/10">
-                    <span className="text-purple-300 font-bold uppercase tracking-widest text-xs md:text-sm lg:text-base drop-shadow-md block break-words">{header}</span>
-                 </div>
-               ))}
-               
-               {/* Rows (Values) */}
-               {scene.dataOverlay.row.map((cell, cIdx) => (
-                  <div key={`c-${cIdx}`} className="p-4 md:p-8 text-center flex items-center justify-center min-h-[100px] md:min-h-[200px]">
-                     <span className="text-white font-bold text-2xl md:text-3xl lg:text-4xl leading-tight drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)] block break-words">
-                       {cell}
-                     </span>
-                  </div>
-               ))}
-             </div>
+        {layout.showHeader && (
+          <div className="w-full text-center pt-4 shrink-0">
+            <h1
+              className="text-4xl md:text-5xl lg:text-6xl font-black uppercase tracking-widest drop-shadow-[0_4px_4px_rgba(0,0,0,0.8)]"
+              style={{ color: theme.palette.text, fontFamily: theme.headingFontFamily }}
+            >
+              {scene.dataOverlay.title}
+            </h1>
+            {scene.dataOverlay.subhead && (
+              <h3
+                className="text-lg md:text-2xl font-bold mt-2 md:mt-3 tracking-wide uppercase drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]"
+                style={{ color: theme.palette.mutedText }}
+              >
+                {scene.dataOverlay.subhead}
+              </h3>
+            )}
           </div>
-        </div>
+        )}
+
+        {/* Middle: layout content (Flex grow to take available space) */}
+        <LayoutComponent scene={scene} props={layoutProps} theme={theme} entrance={cardEntrance} delay={entranceDelay} />
 
         {/* Bottom: Captions / Subtitles (Dynamic Segments) */}
         <div className="w-full flex justify-center pb-8 shrink-0 min-h-[100px]">
           {activeChunk && (
             <div 
-              className="bg-black/80 backdrop-blur-md px-8 py-5 rounded-2xl border border-white/10 max-w-4xl w-full text-center shadow-xl transform transition-all"
+              className="backdrop-blur-md px-8 py-5 rounded-2xl border border-white/10 max-w-4xl w-full text-center shadow-xl transform transition-all"
               style={{ 
+                backgroundColor: withAlpha(theme.subtitle.backgroundColor, theme.subtitle.backgroundOpacity),
                 opacity: subtitleOpacity,
                 transform: `translateY(${subtitleY}px)` 
               }}
             >
-              <p className="text-2xl md:text-3xl lg:text-4xl text-yellow-300 font-bold font-sans tracking-wide leading-normal break-words"
-                 style={{ textShadow: '0 2px 4px rgba(0,0,0,1)' }}
+              <p className="text-2xl md:text-3xl lg:text-4xl font-bold tracking-wide leading-normal break-words"
+                 style={{ color: theme.subtitle.textColor, textShadow: '0 2px 4px rgba(0,0,0,1)' }}
               >
                 {activeChunk.text}
               </p>
@@ -218,30 +184,79 @@ const SceneComponent: React.FC<SceneProps> = ({ scene, index, introBgUrl }) => {
       </AbsoluteFill>
 
       {/* Progress Bar */}
-      <div className="absolute bottom-0 left-0 h-1.5 bg-gradient-to-r from-purple-500 via-indigo-500 to-purple-500 z-20" 
-           style={{ 
-             width: `${interpolate(frame, [0, scene.durationInSeconds * fps], [0, 100], { extrapolateRight: 'clamp' })}%` 
-           }} 
-      />
+      {theme.progressBar.visible && (
+        <div className="absolute bottom-0 left-0 z-20" 
+             style={{ 
+               height: theme.progressBar.height,
+               background: `linear-gradient(to right, ${theme.progressBar.startColor}, ${theme.progressBar.endColor})`,
+               width: `${interpolate(frame, [0, scene.durationInSeconds * fps], [0, 100], { extrapolateRight: 'clamp' })}%` 
+             }} 
+        />
+      )}
+    </AbsoluteFill>
+  );
+};
+
+// Rendered at the top level so useCurrentFrame is the absolute frame, also while the track loops
+const MusicBed: React.FC<{ music: MusicSettings; src: string; voiceIntervals: VoiceInterval[] }> = ({ music, src, voiceIntervals }) => {
+  const frame = useCurrentFrame();
+  const { durationInFrames } = useVideoConfig();
+  return (
+    <Audio
+      src={src}
+      loop={music.loop}
+      volume={getMusicVolume(frame, durationInFrames, voiceIntervals, music)}
+    />
+  );
+};
+
+const LOGO_CORNERS: Record<Theme['logoPosition'], React.CSSProperties> = {
+  'top-left': { top: 0, left: 0 },
+  'top-right': { top: 0, right: 0 },
+  'bottom-left': { bottom: 0, left: 0 },
+  'bottom-right': { bottom: 0, right: 0 },
+};
+
+// Logo and watermark stay on screen across scene transitions
+const BrandingLayer: React.FC<{ theme: Theme }> = ({ theme }) => {
+  const { width, height } = useVideoConfig();
+  const margin = Math.min(width, height) * 0.03;
+  // The watermark takes the top corner the logo does not use
+  const watermarkRight = theme.logoPosition !== 'top-right';
+
+  return (
+    <AbsoluteFill className="pointer-events-none z-50">
+      {theme.logoUrl && (
+        <Img
+          src={theme.logoUrl}
+          style={{
+            position: 'absolute',
+            ...LOGO_CORNERS[theme.logoPosition],
+            margin,
+            height: Math.min(width, height) * theme.logoSize,
+            objectFit: 'contain',
+            filter: 'drop-shadow(0 2px 4px rgba(0,0,0,0.6))',
+          }}
+        />
+      )}
+      {theme.watermark && (
+        <div
+          className="absolute bg-black/40 px-4 py-1.5 rounded-full backdrop-blur-md text-[10px] font-bold text-white/70 border border-white/10 tracking-widest uppercase"
+          style={{ top: margin, ...(watermarkRight ? { right: margin } : { left: margin }), fontFamily: theme.fontFamily }}
+        >
+          {theme.watermark}
+        </div>
+      )}
     </AbsoluteFill>
   );
 };
 
-export const MyVideoComposition: React.FC<Props> = ({ scenes, introBgUrl }) => {
+export const MyVideoComposition: React.FC<Props> = ({ scenes, introBgUrl, assets = [], cast = DEFAULT_CAST, music, theme = DEFAULT_THEME, mastering = DEFAULT_MASTERING_SETTINGS }) => {
   
   // Pre-calculate timeline to align Audio and Visuals
-  const timeline = useMemo(() => {
-    let currentFrame = 0;
-    return scenes.map((scene) => {
-      const durationInFrames = Math.ceil(scene.durationInSeconds * FPS);
-      const startFrame = currentFrame;
-      const nextFrame = currentFrame + Math.max(0, durationInFrames - TRANSITION_DURATION_IN_FRAMES);
-      
-      currentFrame = nextFrame;
-      
-      return { startFrame, durationInFrames };
-    });
-  }, [scenes]);
+  const timeline = useMemo(() => buildTimeline(scenes).scenes, [scenes]);
+  const backgrounds = useMemo(() => resolveSceneBackgrounds(scenes, assets, introBgUrl), [scenes, assets, introBgUrl]);
+  const voiceIntervals = useMemo(() => getVoiceIntervals(scenes, timeline), [scenes, timeline]);
 
   return (
     <AbsoluteFill className="bg-black">
@@ -249,14 +264,25 @@ export const MyVideoComposition: React.FC<Props> = ({ scenes, introBgUrl }) => {
       {/* VISUAL TRACK: Layered sequences for smooth transitions */}
       <AbsoluteFill>
         {scenes.map((scene, index) => {
-          const { startFrame, durationInFrames } = timeline[index];
+          const { startFrame, durationInFrames, transitionInFrames, transitionOutFrames } = timeline[index];
+          const transition = getSceneTransition(scene, index);
           return (
             <Sequence
               key={`visual-${index}`}
               from={startFrame}
               durationInFrames={durationInFrames}
             >
-              <SceneComponent scene={scene} index={index} introBgUrl={introBgUrl} />
+              <SceneComponent
+                scene={scene}
+                index={index}
+                background={backgrounds[index]}
+                cast={cast}
+                theme={theme}
+                transition={transition}
+                // The first scene overlaps nothing and plays its transition in from black
+                transitionFrames={index === 0 ? (transition.type === 'cut' ? 0 : transition.durationInFrames) : transitionInFrames}
+                transitionOutFrames={transitionOutFrames}
+              />
             </Sequence>
           );
         })}
@@ -273,18 +299,23 @@ export const MyVideoComposition: React.FC<Props> = ({ scenes, introBgUrl }) => {
              from={startFrame}
              durationInFrames={durationInFrames}
            >
-             <Audio src={scene.audioUrl} />
+             {/* Normalization can boost quiet takes above 1, which needs Web Audio in the preview */}
+             <Audio
+               src={scene.audioUrl}
+               volume={dbToGain(getSceneGainDb(scene, mastering))}
+               useWebAudioApi
+               allowAmplificationDuringRender
+             />
            </Sequence>
          );
       })}
+
+      {/* MUSIC BED: ducked under the voice track */}
+      {music && music.source !== 'none' && music.url && (
+        <MusicBed music={music} src={music.url} voiceIntervals={voiceIntervals} />
+      )}
       
-      <AbsoluteFill className="pointer-events-none z-50 justify-between flex-col p-6">
-        <div className="flex justify-end">
-           <div className="bg-black/40 px-4 py-1.5 rounded-full backdrop-blur-md text-[10px] font-bold text-white/70 border border-white/10 tracking-widest uppercase">
-             AI Generated Preview
-           </div>
-        </div>
-      </AbsoluteFill>
+      <BrandingLayer theme={theme} />
     </AbsoluteFill>
   );
 };
@@ -0,0 +1,262 @@
+import React from 'react';
+import { Scene, DataOverlay, ReferenceMaterial, CastMember, TransitionType, LibraryAsset, FPS } from '../types';
+import { getSceneIssues, MIN_SCENE_SECONDS } from '../services/scenes';
+import { TRANSITIONS, MAX_TRANSITION_FRAMES, getSceneTransition } from '../services/transitions';
+import { resolveSceneBackground } from '../services/backgrounds';
+import { MAX_SCENE_GAIN_DB } from '../services/mastering';
+import { ChartEditor } from './ChartEditor';
+import { LayoutEditor } from './LayoutEditor';
+import { Plus, X, AlertCircle } from 'lucide-react';
+
+interface Props {
+  scene: Scene;
+  index: number; // The first scene's transition plays in from black
+  onChange: (patch: Partial<Scene>) => void;
+  cast: CastMember[];
+  referenceMaterial?: ReferenceMaterial; // Source rows for overlay charts
+  assets: LibraryAsset[]; // Background library
+  introBgUrl?: string;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-[10px] uppercase text-slate-500 font-semibold mb-1";
+
+// Form for every field of a scene. The overlay table is edited as header/value pairs,
+// so editing any column pads the shorter array and the two lengths match again.
+export const SceneEditor: React.FC<Props> = ({ scene, index, onChange, cast, referenceMaterial, assets, introBgUrl, disabled }) => {
+  const overlay = scene.dataOverlay;
+  const transition = getSceneTransition(scene, index);
+  const autoBackground = resolveSceneBackground({ ...scene, background: undefined }, index, assets, introBgUrl);
+  const autoAsset = assets.find(asset => asset.id === autoBackground.assetId);
+  const autoLabel = autoAsset
+    ? `Auto: ${autoAsset.name} (${autoBackground.matchedTags?.join(', ')})`
+    : autoBackground.kind === 'image' ? 'Auto: intro background' : 'Auto: no match, generated';
+  const backgroundValue = scene.background?.source === 'asset' ? `asset:${scene.background.assetId}` : scene.background?.source ?? 'auto';
+
+  const handleBackground = (value: string) => onChange({
+    background: value === 'auto'
+      ? undefined
+      : value === 'generated' ? { source: 'generated' } : { source: 'asset', assetId: value.slice('asset:'.length) },
+  });
+  const columnCount = Math.max(overlay.headers.length, overlay.row.length);
+  const issues = getSceneIssues(scene);
+
+  const updateOverlay = (patch: Partial<DataOverlay>) => onChange({ dataOverlay: { ...overlay, ...patch } });
+
+  const padded = (values: string[]) => Array.from({ length: columnCount }, (_, idx) => values[idx] ?? '');
+
+  const updateColumn = (index: number, field: 'headers' | 'row', value: string) => {
+    const headers = padded(overlay.headers);
+    const row = padded(overlay.row);
+    (field === 'headers' ? headers : row)[index] = value;
+    updateOverlay({ headers, row });
+  };
+
+  const addColumn = () => updateOverlay({ headers: [...padded(overlay.headers), ''], row: [...padded(overlay.row), ''] });
+
+  const removeColumn = (index: number) => updateOverlay({
+    headers: padded(overlay.headers).filter((_, idx) => idx !== index),
+    row: padded(overlay.row).filter((_, idx) => idx !== index),
+  });
+
+  return (
+    <div className="bg-slate-900/40 rounded p-3 mb-2 border border-slate-800 space-y-3">
+      <div>
+        <label className={labelClass}>Dialogue (display & subtitles)</label>
+        <textarea
+          className={`${inputClass} min-h-[60px]`}
+          value={scene.dialogue}
+          onChange={(e) => onChange({ dialogue: e.target.value })}
+          disabled={disabled}
+        />
+      </div>
+
+      <LayoutEditor scene={scene} cast={cast} onChange={onChange} disabled={disabled} />
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Overlay title</label>
+          <input className={inputClass} value={overlay.title} onChange={(e) => updateOverlay({ title: e.target.value })} disabled={disabled} />
+        </div>
+        <div>
+          <label className={labelClass}>Overlay subhead</label>
+          <input
+            className={inputClass}
+            value={overlay.subhead ?? ''}
+            onChange={(e) => updateOverlay({ subhead: e.target.value || undefined })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Overlay table</label>
+        <div className="space-y-1.5">
+          {Array.from({ length: columnCount }, (_, idx) => (
+            <div key={idx} className="flex items-center gap-1.5">
+              <input
+                className={inputClass}
+                value={overlay.headers[idx] ?? ''}
+                onChange={(e) => updateColumn(idx, 'headers', e.target.value)}
+                placeholder="Header"
+                disabled={disabled}
+              />
+              <input
+                className={inputClass}
+                value={overlay.row[idx] ?? ''}
+                onChange={(e) => updateColumn(idx, 'row', e.target.value)}
+                placeholder="Value"
+                disabled={disabled}
+              />
+              <button
+                onClick={() => removeColumn(idx)}
+                disabled={disabled || columnCount <= 1}
+                title="Remove column"
+                className="p-1 text-slate-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-slate-500"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addColumn}
+            disabled={disabled}
+            className="flex items-center gap-1 text-[10px] text-slate-400 hover:text-white disabled:opacity-40"
+          >
+            <Plus className="w-3 h-3" /> Add column
+          </button>
+        </div>
+      </div>
+
+      {(scene.layout ?? 'data-grid') === 'data-grid' && referenceMaterial && referenceMaterial.headers.length > 0 && (
+        <ChartEditor
+          chart={overlay.chart}
+          reference={referenceMaterial}
+          onChange={(chart) => updateOverlay({ chart })}
+          disabled={disabled}
+        />
+      )}
+
+      <div>
+        <label className={labelClass}>Visual description</label>
+        <input
+          className={inputClass}
+          value={scene.visualDescription}
+          onChange={(e) => onChange({ visualDescription: e.target.value })}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label className={labelClass}>Image keyword</label>
+          <input className={inputClass} value={scene.keyword} onChange={(e) => onChange({ keyword: e.target.value })} disabled={disabled} />
+        </div>
+        <div>
+          <label className={labelClass}>Tint</label>
+          <div className="flex items-center gap-1.5">
+            <input
+              type="color"
+              value={/^#[0-9a-f]{6}$/i.test(scene.backgroundColor) ? scene.backgroundColor : '#000000'}
+              onChange={(e) => onChange({ backgroundColor: e.target.value })}
+              disabled={disabled}
+              className="w-7 h-7 bg-transparent border-0 p-0 cursor-pointer"
+            />
+            <input
+              className={inputClass}
+              value={scene.backgroundColor}
+              onChange={(e) => onChange({ backgroundColor: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>Duration (s)</label>
+          <input
+            type="number"
+            min={MIN_SCENE_SECONDS}
+            step={0.1}
+            className={inputClass}
+            value={scene.durationInSeconds}
+            onChange={(e) => onChange({ durationInSeconds: Math.max(MIN_SCENE_SECONDS, Number(e.target.value) || 0) })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Background</label>
+        <select className={inputClass} value={backgroundValue} onChange={(e) => handleBackground(e.target.value)} disabled={disabled}>
+          <option value="auto">{autoLabel}</option>
+          <option value="generated">Generated pattern</option>
+          {assets.map(asset => (
+            <option key={asset.id} value={`asset:${asset.id}`}>{asset.kind === 'video' ? '▶ ' : ''}{asset.name}</option>
+          ))}
+          {scene.background?.source === 'asset' && !assets.some(asset => asset.id === scene.background?.assetId) && (
+            <option value={backgroundValue}>Missing asset (using auto)</option>
+          )}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        <div className="col-span-2">
+          <label className={labelClass}>{index === 0 ? 'Intro transition' : 'Transition in'}</label>
+          <select
+            className={inputClass}
+            value={transition.type}
+            onChange={(e) => onChange({ transition: { ...transition, type: e.target.value as TransitionType } })}
+            disabled={disabled}
+          >
+            {TRANSITIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Length (s)</label>
+          <input
+            type="number"
+            min={0}
+            max={MAX_TRANSITION_FRAMES / FPS}
+            step={0.1}
+            className={inputClass}
+            value={Number((transition.durationInFrames / FPS).toFixed(2))}
+            onChange={(e) => onChange({
+              transition: {
+                ...transition,
+                durationInFrames: Math.min(MAX_TRANSITION_FRAMES, Math.max(0, Math.round((Number(e.target.value) || 0) * FPS))),
+              },
+            })}
+            disabled={disabled || transition.type === 'cut'}
+          />
+        </div>
+        <div>
+          <label className={labelClass} title="Voice gain on top of loudness normalization">Gain (dB)</label>
+          <input
+            type="number"
+            min={-MAX_SCENE_GAIN_DB}
+            max={MAX_SCENE_GAIN_DB}
+            step={0.5}
+            className={inputClass}
+            value={scene.gainDb ?? 0}
+            onChange={(e) => {
+              const gainDb = Math.min(MAX_SCENE_GAIN_DB, Math.max(-MAX_SCENE_GAIN_DB, Number(e.target.value) || 0));
+              onChange({ gainDb: gainDb === 0 ? undefined : gainDb });
+            }}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="space-y-1">
+          {issues.map(issue => (
+            <p key={issue} className="text-[10px] text-amber-400 flex items-center gap-1">
+              <AlertCircle className="w-3 h-3 shrink-0" />
+              {issue}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
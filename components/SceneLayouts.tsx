@@ -0,0 +1,285 @@
+import React from 'react';
+import { useCurrentFrame, useVideoConfig, interpolate, spring, Easing } from 'remotion';
+import { LayoutId, LayoutProps, Scene, Theme } from '../types';
+import { withAlpha } from '../services/themes';
+import { OverlayChart } from './OverlayChart';
+
+export interface LayoutComponentProps {
+  scene: Scene;
+  props: LayoutProps;
+  theme: Theme;
+  entrance: number; // 0 → 1 card entrance spring shared by every layout
+  delay: number; // Frames before the entrance starts
+}
+
+const textShadow = '0 2px 4px rgba(0,0,0,0.8)';
+
+// Sizes follow the shorter side of the frame so 16:9, 1:1 and 9:16 keep the same proportions
+const useFrameUnits = () => {
+  const { width, height } = useVideoConfig();
+  return { width, height, portrait: height > width, unit: Math.min(width, height) / 100 };
+};
+
+// Shrinks a single line of large text until it fits the given width
+const fitText = (text: string, maxWidth: number, maxSize: number) =>
+  Math.min(maxSize, maxWidth / Math.max(1, text.length * 0.62));
+
+const entranceStyle = (entrance: number): React.CSSProperties => ({
+  opacity: interpolate(entrance, [0, 1], [0, 1]),
+  transform: `scale(${interpolate(entrance, [0, 1], [0.9, 1])})`,
+});
+
+// Translucent panel behind data, styled by the theme's card settings
+const panelStyle = ({ card }: Theme): React.CSSProperties => ({
+  backgroundColor: withAlpha(card.color, card.opacity),
+  border: `1px solid ${withAlpha(card.borderColor, 0.15)}`,
+  borderRadius: card.radius,
+  backdropFilter: card.blur ? `blur(${card.blur}px)` : undefined,
+  boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)',
+});
+
+const DataGridLayout: React.FC<LayoutComponentProps> = ({ scene, theme, entrance, delay }) => (
+  <div className="flex items-center justify-center flex-grow py-6 w-full">
+    <div
+      className="w-full max-w-6xl overflow-hidden"
+      style={{ ...panelStyle(theme), ...entranceStyle(entrance), maxHeight: '100%' }}
+    >
+      {scene.dataOverlay.chart ? (
+        <OverlayChart chart={scene.dataOverlay.chart} theme={theme} delay={delay} />
+      ) : (
+        <div className="grid w-full divide-x divide-white/10" style={{ gridTemplateColumns: `repeat(${scene.dataOverlay.headers.length}, 1fr)` }}>
+          {/* Headers */}
+          {scene.dataOverlay.headers.map((header, hIdx) => (
+            <div key={`h-${hIdx}`} className="bg-black/20 p-4 md:p-6 text-center border-b border-white/10">
+              <span className="font-bold uppercase tracking-widest text-xs md:text-sm lg:text-base drop-shadow-md block break-words" style={{ color: theme.palette.primary }}>{header}</span>
+            </div>
+          ))}
+
+          {/* Rows (Values) */}
+          {scene.dataOverlay.row.map((cell, cIdx) => (
+            <div key={`c-${cIdx}`} className="p-4 md:p-8 text-center flex items-center justify-center min-h-[100px] md:min-h-[200px]">
+              <span className="font-bold text-2xl md:text-3xl lg:text-4xl leading-tight drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)] block break-words" style={{ color: theme.palette.text }}>
+                {cell}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+const BigStatLayout: React.FC<LayoutComponentProps> = ({ props, theme, entrance }) => {
+  const { width, unit } = useFrameUnits();
+  const value = props.value ?? '';
+  return (
+    <div className="flex flex-col items-center justify-center flex-grow w-full text-center" style={entranceStyle(entrance)}>
+      <div
+        className="font-black leading-none"
+        style={{ fontSize: fitText(value, width * 0.85, unit * 24), color: theme.palette.text, fontFamily: theme.headingFontFamily, textShadow: '0 6px 16px rgba(0,0,0,0.8)' }}
+      >
+        {value}
+      </div>
+      {props.label && (
+        <div className="font-bold uppercase tracking-widest" style={{ fontSize: unit * 4.5, marginTop: unit * 3, color: theme.palette.primary, textShadow }}>
+          {props.label}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ComparisonLayout: React.FC<LayoutComponentProps> = ({ props, theme, entrance }) => {
+  const { width, portrait, unit } = useFrameUnits();
+  const sides = [props.left, props.right];
+  // Each side slides in from its own edge
+  const offset = interpolate(entrance, [0, 1], [unit * 12, 0]);
+  const sideWidth = portrait ? width * 0.8 : width * 0.38;
+
+  return (
+    <div className={`flex items-center justify-center flex-grow w-full ${portrait ? 'flex-col' : 'flex-row'}`} style={{ gap: unit * 3 }}>
+      {sides.map((side, idx) => (
+        <React.Fragment key={idx}>
+          {idx === 1 && (
+            <div className="font-black italic" style={{ fontSize: unit * 7, opacity: entrance, color: theme.palette.accent, textShadow }}>VS</div>
+          )}
+          <div
+            className="text-center"
+            style={{
+              ...panelStyle(theme),
+              width: sideWidth,
+              padding: unit * 4,
+              opacity: entrance,
+              transform: portrait
+                ? `translateY(${idx === 0 ? -offset : offset}px)`
+                : `translateX(${idx === 0 ? -offset : offset}px)`,
+            }}
+          >
+            <div className="font-bold uppercase tracking-widest break-words" style={{ fontSize: unit * 4, color: theme.palette.primary, textShadow }}>
+              {side?.label}
+            </div>
+            <div className="font-black leading-tight" style={{ fontSize: fitText(side?.value ?? '', sideWidth * 0.85, unit * 12), marginTop: unit * 2, color: theme.palette.text, textShadow }}>
+              {side?.value}
+            </div>
+            {side?.note && (
+              <div className="break-words" style={{ fontSize: unit * 3, marginTop: unit * 1.5, color: theme.palette.mutedText }}>{side.note}</div>
+            )}
+          </div>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+// Frames between consecutive rows sliding in
+const RANK_STAGGER = 5;
+
+const RankedListLayout: React.FC<LayoutComponentProps> = ({ props, theme, delay }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const { portrait, unit } = useFrameUnits();
+  const items = props.items ?? [];
+  // Landscape frames are short, so long lists wrap into two columns
+  const twoColumns = !portrait && items.length > 5;
+  const rowFont = unit * (twoColumns ? 3.6 : portrait ? 4.4 : 4);
+
+  return (
+    <div className="flex items-center justify-center flex-grow w-full">
+      <div className={`w-full max-w-6xl grid ${twoColumns ? 'grid-cols-2' : 'grid-cols-1'}`} style={{ gap: unit * 1.5 }}>
+        {items.map((item, idx) => {
+          const progress = spring({ frame: frame - delay - idx * RANK_STAGGER, fps, config: { damping: 200 } });
+          return (
+            <div
+              key={idx}
+              className="flex items-center"
+              style={{
+                ...panelStyle(theme),
+                // The leader is tinted with the theme color
+                ...(idx === 0 && { backgroundColor: withAlpha(theme.palette.primary, 0.35) }),
+                padding: `${unit * 1.5}px ${unit * 2.5}px`,
+                gap: unit * 2.5,
+                opacity: progress,
+                transform: `translateX(${interpolate(progress, [0, 1], [-unit * 8, 0])}px)`,
+              }}
+            >
+              <span
+                className={`shrink-0 rounded-full flex items-center justify-center font-black ${idx === 0 ? 'text-slate-900' : 'bg-white/15'}`}
+                style={{
+                  width: rowFont * 1.8,
+                  height: rowFont * 1.8,
+                  fontSize: rowFont,
+                  ...(idx === 0 ? { backgroundColor: theme.palette.accent } : { color: theme.palette.text }),
+                }}
+              >
+                {idx + 1}
+              </span>
+              <span className="flex-grow font-bold truncate" style={{ fontSize: rowFont, color: theme.palette.text, textShadow }}>{item.label}</span>
+              {item.value && (
+                <span className="shrink-0 font-black" style={{ fontSize: rowFont, color: theme.palette.accent, textShadow }}>{item.value}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const QuoteLayout: React.FC<LayoutComponentProps> = ({ props, theme, entrance }) => {
+  const { unit } = useFrameUnits();
+  const quote = props.quote ?? '';
+  // Long takeaways get smaller type instead of overflowing the frame
+  const fontSize = unit * (quote.length > 60 ? 5 : quote.length > 30 ? 6.5 : 8);
+
+  return (
+    <div className="flex flex-col items-center justify-center flex-grow w-full text-center px-[6%]" style={entranceStyle(entrance)}>
+      <div className="font-black leading-none" style={{ fontSize: unit * 16, height: unit * 9, color: theme.palette.primary }}>“</div>
+      <p className="font-bold leading-snug break-words" style={{ fontSize, color: theme.palette.text, fontFamily: theme.headingFontFamily, textShadow }}>{quote}</p>
+      {props.attribution && (
+        <p className="font-bold tracking-widest" style={{ fontSize: unit * 3.5, marginTop: unit * 3, color: theme.palette.mutedText, textShadow }}>
+          — {props.attribution}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const FullBleedLayout: React.FC<LayoutComponentProps> = ({ scene, props, theme, entrance }) => {
+  const { unit } = useFrameUnits();
+  return (
+    <div className="flex flex-col justify-end flex-grow w-full">
+      <div
+        className="self-start max-w-[85%]"
+        style={{
+          ...panelStyle(theme),
+          borderLeft: `8px solid ${theme.palette.primary}`,
+          padding: `${unit * 2}px ${unit * 3}px`,
+          opacity: entrance,
+          transform: `translateY(${interpolate(entrance, [0, 1], [unit * 5, 0])}px)`,
+        }}
+      >
+        <div className="font-black uppercase tracking-wide" style={{ fontSize: unit * 5, color: theme.palette.text, fontFamily: theme.headingFontFamily, textShadow }}>{scene.dataOverlay.title}</div>
+        {props.caption && props.caption !== scene.dataOverlay.title && (
+          <div className="font-bold" style={{ fontSize: unit * 3.2, marginTop: unit, color: theme.palette.mutedText, textShadow }}>{props.caption}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const TitleCardLayout: React.FC<LayoutComponentProps> = ({ scene, props, theme, entrance, delay }) => {
+  const frame = useCurrentFrame();
+  const { width, unit } = useFrameUnits();
+  const title = scene.dataOverlay.title;
+  const ruleWidth = interpolate(frame - delay, [0, 25], [0, unit * 30], {
+    extrapolateLeft: 'clamp',
+    extrapolateRight: 'clamp',
+    easing: Easing.out(Easing.cubic),
+  });
+
+  return (
+    <div className="flex flex-col items-center justify-center flex-grow w-full text-center" style={entranceStyle(entrance)}>
+      {props.kicker && (
+        <div className="font-bold uppercase tracking-[0.3em]" style={{ fontSize: unit * 3.5, marginBottom: unit * 2, color: theme.palette.accent, textShadow }}>
+          {props.kicker}
+        </div>
+      )}
+      <h1
+        className="font-black uppercase tracking-wider leading-tight break-words"
+        style={{
+          fontSize: Math.min(unit * 11, (width * 0.9) / Math.max(1, Math.min(title.length, 12))),
+          color: theme.palette.text,
+          fontFamily: theme.headingFontFamily,
+          textShadow: '0 6px 16px rgba(0,0,0,0.8)',
+        }}
+      >
+        {title}
+      </h1>
+      <div
+        className="rounded-full"
+        style={{
+          width: ruleWidth,
+          height: unit * 0.8,
+          marginTop: unit * 3,
+          background: `linear-gradient(to right, ${theme.progressBar.startColor}, ${theme.progressBar.endColor})`,
+        }}
+      />
+      {scene.dataOverlay.subhead && (
+        <div className="font-bold tracking-wide" style={{ fontSize: unit * 4, marginTop: unit * 3, color: theme.palette.mutedText, textShadow }}>
+          {scene.dataOverlay.subhead}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Renderer side of the layout registry in services/layouts.ts
+export const LAYOUT_COMPONENTS: Record<LayoutId, React.FC<LayoutComponentProps>> = {
+  'data-grid': DataGridLayout,
+  'big-stat': BigStatLayout,
+  'comparison': ComparisonLayout,
+  'ranked-list': RankedListLayout,
+  'quote': QuoteLayout,
+  'full-bleed': FullBleedLayout,
+  'title-card': TitleCardLayout,
+};
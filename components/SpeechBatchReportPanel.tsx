@@ -0,0 +1,61 @@
+import React from 'react';
+import { SpeechBatchReport } from '../services/speechService';
+import { FailureKind } from '../services/jobRunner';
+import { AlertCircle, RotateCcw, X, Database } from 'lucide-react';
+
+interface Props {
+  report: SpeechBatchReport;
+  onRetryFailed: (sceneIndices: number[]) => void;
+  onDismiss: () => void;
+}
+
+const KIND_LABELS: Record<FailureKind, string> = {
+  'rate-limit': 'Rate limited',
+  transient: 'Network / server error',
+  'invalid-input': 'Rejected',
+  cancelled: 'Cancelled',
+};
+
+export const SpeechBatchReportPanel: React.FC<Props> = ({ report, onRetryFailed, onDismiss }) => {
+  const failedIndices = report.failures.map(f => f.index);
+  const errors = report.failures.filter(f => f.kind !== 'cancelled');
+  const complete = failedIndices.length === 0;
+
+  return (
+    <div className={`mt-3 rounded-lg p-3 text-xs border ${complete ? 'bg-slate-900/40 border-slate-700' : 'bg-amber-900/10 border-amber-800/50'}`}>
+      <div className={`flex items-center justify-between ${complete ? '' : 'mb-2'}`}>
+        <span className={`flex items-center gap-1.5 font-semibold ${complete ? 'text-slate-300' : 'text-amber-300'}`}>
+          {complete ? <Database className="w-3.5 h-3.5 text-sky-400" /> : <AlertCircle className="w-3.5 h-3.5" />}
+          {report.cancelled ? 'Cancelled. ' : ''}
+          {report.attempted.length - report.failures.length} of {report.attempted.length} scenes voiced
+          {report.cacheHits.length > 0 && `, ${report.cacheHits.length} from cache`}
+        </span>
+        <button onClick={onDismiss} title="Dismiss" className="p-0.5 text-slate-500 hover:text-white">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="space-y-1 mb-2 max-h-32 overflow-auto">
+          {errors.map(failure => (
+            <li key={failure.index} className="text-slate-300">
+              <span className="font-semibold text-amber-200">Scene {failure.index + 1}</span>
+              <span className="text-slate-500"> · {KIND_LABELS[failure.kind]} after {failure.attempts} {failure.attempts === 1 ? 'attempt' : 'attempts'}: </span>
+              <span className="break-words">{failure.reason}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {failedIndices.length > 0 && (
+        <button
+          onClick={() => onRetryFailed(failedIndices)}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded border bg-slate-800 border-slate-700 text-slate-200 hover:bg-slate-700"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Retry {failedIndices.length} unfinished {failedIndices.length === 1 ? 'scene' : 'scenes'}
+        </button>
+      )}
+    </div>
+  );
+};
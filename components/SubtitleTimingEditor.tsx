@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Scene, CastMember, SubtitleChunk } from '../types';
+import { getSceneSubtitleChunks, hasCurrentSubtitleTiming } from '../services/subtitles';
+import { Captions, ChevronDown, ChevronRight, Wand2, Loader2 } from 'lucide-react';
+
+interface Props {
+  scene: Scene;
+  cast: CastMember[];
+  transitionOutFrames: number; // From the timeline, for the estimate
+  onChange: (chunks: SubtitleChunk[]) => void;
+  onAutoAlign: () => void;
+  aligning?: boolean;
+  disabled?: boolean;
+}
+
+const inputClass = "w-16 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-[10px] text-slate-300 text-right focus:ring-1 focus:ring-indigo-500 outline-none";
+
+export const SubtitleTimingEditor: React.FC<Props> = ({ scene, cast, transitionOutFrames, onChange, onAutoAlign, aligning, disabled }) => {
+  const [expanded, setExpanded] = useState(false);
+  const chunks = getSceneSubtitleChunks(scene, cast, transitionOutFrames);
+  const source = !hasCurrentSubtitleTiming(scene, cast)
+    ? 'estimated'
+    : chunks.some(c => c.manual) ? 'manual' : 'aligned';
+
+  // Editing one chunk pins the whole set, so the estimate cannot shift the others later
+  const updateChunk = (index: number, patch: Partial<SubtitleChunk>) => {
+    onChange(chunks.map((chunk, idx) => idx === index ? { ...chunk, ...patch, manual: true } : chunk));
+  };
+
+  const parseSeconds = (value: string) => Math.max(0, Math.min(scene.durationInSeconds, Number(value) || 0));
+
+  return (
+    <div className="bg-slate-900/40 rounded p-2 mb-2 border border-slate-800">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-[10px] uppercase text-slate-500 font-semibold"
+      >
+        <span className="flex items-center gap-1">
+          <Captions className="w-3 h-3" />
+          Subtitle Timing ({chunks.length})
+          <span className="normal-case font-normal italic ml-1">{source}</span>
+        </span>
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+      </button>
+
+      {expanded && (
+        <div className="mt-2 space-y-1.5">
+          {chunks.map((chunk, idx) => (
+            <div key={idx} className="flex items-center gap-2">
+              <input
+                type="number"
+                step={0.05}
+                min={0}
+                className={inputClass}
+                value={Number(chunk.start.toFixed(2))}
+                onChange={(e) => updateChunk(idx, { start: parseSeconds(e.target.value) })}
+                disabled={disabled}
+              />
+              <input
+                type="number"
+                step={0.05}
+                min={0}
+                className={inputClass}
+                value={Number(chunk.end.toFixed(2))}
+                onChange={(e) => updateChunk(idx, { end: parseSeconds(e.target.value) })}
+                disabled={disabled}
+              />
+              <span className={`text-xs truncate ${chunk.end <= chunk.start ? 'text-amber-400' : 'text-slate-400'}`} title={chunk.text}>
+                {chunk.text}
+              </span>
+            </div>
+          ))}
+          <button
+            onClick={onAutoAlign}
+            disabled={disabled || aligning || !scene.audioUrl}
+            title={scene.audioUrl ? 'Snap chunks to pauses in the audio' : 'Generate audio first'}
+            className="flex items-center gap-1.5 text-[10px] px-3 py-1.5 mt-1 rounded border bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+          >
+            {aligning ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />}
+            Auto-align to audio
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
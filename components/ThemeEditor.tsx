@@ -0,0 +1,254 @@
+import React, { useRef, useState } from 'react';
+import { LogoPosition, Theme, ThemeCardStyle, ThemePalette, ThemeProgressBar, ThemeSubtitleStyle } from '../types';
+import { THEME_PRESETS, FONT_OPTIONS, LOGO_POSITIONS, applyThemePreset, readLogoFile } from '../services/themes';
+import { Palette, ChevronDown, ChevronRight, Upload, X } from 'lucide-react';
+
+interface Props {
+  theme: Theme;
+  onChange: (theme: Theme) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full bg-slate-900/80 border border-slate-700 rounded p-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-purple-500 outline-none";
+const labelClass = "block text-[10px] uppercase text-slate-500 font-semibold mb-1";
+const sectionClass = "text-[10px] uppercase text-slate-400 font-semibold pt-1 border-t border-slate-800";
+
+const PALETTE_LABELS: Record<keyof ThemePalette, string> = {
+  primary: 'Primary',
+  accent: 'Accent',
+  text: 'Text',
+  mutedText: 'Muted text',
+  background: 'Background',
+};
+
+const ColorField: React.FC<{ label: string; value: string; onChange: (value: string) => void; disabled?: boolean }> = ({ label, value, onChange, disabled }) => (
+  <label className="flex items-center gap-1.5 text-[10px] text-slate-400">
+    <input
+      type="color"
+      value={/^#[0-9a-f]{6}$/i.test(value) ? value : '#000000'}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer shrink-0"
+    />
+    {label}
+  </label>
+);
+
+// Preset picker plus every theme field; the edited theme is saved with the project
+export const ThemeEditor: React.FC<Props> = ({ theme, onChange, disabled }) => {
+  const [expanded, setExpanded] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<Theme>) => onChange({ ...theme, ...patch });
+  const updatePalette = (patch: Partial<ThemePalette>) => update({ palette: { ...theme.palette, ...patch } });
+  const updateCard = (patch: Partial<ThemeCardStyle>) => update({ card: { ...theme.card, ...patch } });
+  const updateSubtitle = (patch: Partial<ThemeSubtitleStyle>) => update({ subtitle: { ...theme.subtitle, ...patch } });
+  const updateProgressBar = (patch: Partial<ThemeProgressBar>) => update({ progressBar: { ...theme.progressBar, ...patch } });
+
+  const handleLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    try {
+      update({ logoUrl: await readLogoFile(file) });
+    } catch (err: any) {
+      console.error("Failed to load logo", err);
+      alert(err.message || "Failed to load logo.");
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-xs font-semibold uppercase text-slate-500 mb-2"
+      >
+        <span className="flex items-center gap-2">
+          <Palette className="w-3 h-3" />
+          Theme
+        </span>
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+      </button>
+
+      {!expanded ? (
+        <p className="text-xs text-slate-400 truncate flex items-center gap-1.5">
+          <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: theme.palette.primary }} />
+          <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: theme.palette.accent }} />
+          {theme.name}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-1">
+            {THEME_PRESETS.map(preset => (
+              <button
+                key={preset.presetId}
+                onClick={() => onChange(applyThemePreset(theme, preset))}
+                disabled={disabled}
+                className={`flex items-center gap-1.5 text-[10px] px-2 py-1 rounded border transition-colors disabled:opacity-40 ${
+                  theme.presetId === preset.presetId
+                    ? 'bg-purple-900/50 border-purple-700 text-white'
+                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                <span className="inline-block w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: preset.palette.primary }} />
+                {preset.name}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className={labelClass}>Name</label>
+            <input className={inputClass} value={theme.name} onChange={(e) => update({ name: e.target.value })} disabled={disabled} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Heading font</label>
+              <select className={inputClass} value={theme.headingFontFamily} onChange={(e) => update({ headingFontFamily: e.target.value })} disabled={disabled}>
+                {FONT_OPTIONS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Body font</label>
+              <select className={inputClass} value={theme.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })} disabled={disabled}>
+                {FONT_OPTIONS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <p className={sectionClass}>Palette</p>
+          <div className="grid grid-cols-2 gap-1.5">
+            {(Object.keys(PALETTE_LABELS) as (keyof ThemePalette)[]).map(key => (
+              <ColorField key={key} label={PALETTE_LABELS[key]} value={theme.palette[key]} onChange={(value) => updatePalette({ [key]: value })} disabled={disabled} />
+            ))}
+          </div>
+
+          <p className={sectionClass}>Card</p>
+          <div className="grid grid-cols-2 gap-1.5">
+            <ColorField label="Fill" value={theme.card.color} onChange={(color) => updateCard({ color })} disabled={disabled} />
+            <ColorField label="Border" value={theme.card.borderColor} onChange={(borderColor) => updateCard({ borderColor })} disabled={disabled} />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className={labelClass}>Opacity {Math.round(theme.card.opacity * 100)}%</label>
+              <input type="range" min={0} max={1} step={0.05} value={theme.card.opacity} onChange={(e) => updateCard({ opacity: Number(e.target.value) })} disabled={disabled} className="w-full accent-purple-500" />
+            </div>
+            <div>
+              <label className={labelClass}>Radius</label>
+              <input type="number" min={0} className={inputClass} value={theme.card.radius} onChange={(e) => updateCard({ radius: Math.max(0, Number(e.target.value) || 0) })} disabled={disabled} />
+            </div>
+            <div>
+              <label className={labelClass}>Blur</label>
+              <input type="number" min={0} className={inputClass} value={theme.card.blur} onChange={(e) => updateCard({ blur: Math.max(0, Number(e.target.value) || 0) })} disabled={disabled} />
+            </div>
+          </div>
+
+          <p className={sectionClass}>Subtitles</p>
+          <div className="grid grid-cols-2 gap-1.5 items-center">
+            <ColorField label="Text" value={theme.subtitle.textColor} onChange={(textColor) => updateSubtitle({ textColor })} disabled={disabled} />
+            <ColorField label="Box" value={theme.subtitle.backgroundColor} onChange={(backgroundColor) => updateSubtitle({ backgroundColor })} disabled={disabled} />
+          </div>
+          <div>
+            <label className={labelClass}>Box opacity {Math.round(theme.subtitle.backgroundOpacity * 100)}%</label>
+            <input
+              type="range" min={0} max={1} step={0.05}
+              value={theme.subtitle.backgroundOpacity}
+              onChange={(e) => updateSubtitle({ backgroundOpacity: Number(e.target.value) })}
+              disabled={disabled}
+              className="w-full accent-purple-500"
+            />
+          </div>
+
+          <p className={sectionClass}>Progress bar</p>
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={theme.progressBar.visible}
+              onChange={(e) => updateProgressBar({ visible: e.target.checked })}
+              disabled={disabled}
+              className="accent-purple-500"
+            />
+            Show scene progress
+          </label>
+          {theme.progressBar.visible && (
+            <div className="grid grid-cols-3 gap-1.5 items-center">
+              <ColorField label="From" value={theme.progressBar.startColor} onChange={(startColor) => updateProgressBar({ startColor })} disabled={disabled} />
+              <ColorField label="To" value={theme.progressBar.endColor} onChange={(endColor) => updateProgressBar({ endColor })} disabled={disabled} />
+              <input
+                type="number" min={1} max={40}
+                className={inputClass}
+                value={theme.progressBar.height}
+                onChange={(e) => updateProgressBar({ height: Math.max(1, Number(e.target.value) || 1) })}
+                title="Height (px)"
+                disabled={disabled}
+              />
+            </div>
+          )}
+
+          <p className={sectionClass}>Logo & watermark</p>
+          <div className="flex items-center gap-2">
+            {theme.logoUrl ? (
+              <img src={theme.logoUrl} alt="Logo" className="h-8 max-w-[80px] object-contain bg-slate-900 rounded border border-slate-700" />
+            ) : (
+              <span className="text-[10px] text-slate-500">No logo</span>
+            )}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled}
+              title="Upload a logo image"
+              className="p-1.5 rounded border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40"
+            >
+              <Upload className="w-3.5 h-3.5" />
+            </button>
+            {theme.logoUrl && (
+              <button
+                onClick={() => update({ logoUrl: undefined })}
+                disabled={disabled}
+                title="Remove logo"
+                className="p-1.5 rounded border border-slate-700 text-slate-400 hover:text-red-400 disabled:opacity-40"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+            <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleLogo} />
+          </div>
+          {theme.logoUrl && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>Position</label>
+                <select
+                  className={inputClass}
+                  value={theme.logoPosition}
+                  onChange={(e) => update({ logoPosition: e.target.value as LogoPosition })}
+                  disabled={disabled}
+                >
+                  {LOGO_POSITIONS.map(position => <option key={position} value={position}>{position}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Size {Math.round(theme.logoSize * 100)}%</label>
+                <input
+                  type="range" min={0.04} max={0.3} step={0.01}
+                  value={theme.logoSize}
+                  onChange={(e) => update({ logoSize: Number(e.target.value) })}
+                  disabled={disabled}
+                  className="w-full accent-purple-500"
+                />
+              </div>
+            </div>
+          )}
+          <div>
+            <label className={labelClass}>Watermark</label>
+            <input
+              className={inputClass}
+              value={theme.watermark}
+              onChange={(e) => update({ watermark: e.target.value })}
+              placeholder="Empty hides the badge"
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
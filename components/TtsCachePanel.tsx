@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { TtsCacheEntry, listSpeechCache, deleteCachedSpeech, clearSpeechCache, evictUnusedSpeech } from '../services/ttsCache';
+import { Database, ChevronDown, ChevronRight, Trash2, RefreshCw } from 'lucide-react';
+
+interface Props {
+  disabled?: boolean;
+}
+
+const EVICT_AFTER_DAYS = 30;
+const VISIBLE_ENTRIES = 50;
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const TtsCachePanel: React.FC<Props> = ({ disabled }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [entries, setEntries] = useState<TtsCacheEntry[] | null>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listSpeechCache());
+    } catch (e) {
+      console.error("Failed to read TTS cache", e);
+      setEntries([]);
+    }
+  };
+
+  useEffect(() => {
+    if (expanded) refresh();
+  }, [expanded]);
+
+  const runAndRefresh = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (e) {
+      console.error(failure, e);
+      alert(failure);
+    }
+    refresh();
+  };
+
+  const handleClear = () => {
+    if (!window.confirm("Delete all cached voiceovers? Projects keep their audio.")) return;
+    runAndRefresh(clearSpeechCache, "Failed to clear the TTS cache.");
+  };
+
+  const totalBytes = entries?.reduce((acc, e) => acc + e.size, 0) ?? 0;
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-xs font-semibold uppercase text-slate-500 mb-2"
+      >
+        <span className="flex items-center gap-2">
+          <Database className="w-3 h-3" />
+          TTS Cache
+        </span>
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+      </button>
+
+      {expanded && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-slate-400">
+            <span>{entries ? `${entries.length} takes · ${formatBytes(totalBytes)}` : 'Loading…'}</span>
+            <button onClick={refresh} title="Refresh" className="p-1 text-slate-500 hover:text-white">
+              <RefreshCw className="w-3 h-3" />
+            </button>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => runAndRefresh(() => evictUnusedSpeech(EVICT_AFTER_DAYS * 24 * 60 * 60 * 1000), "Failed to evict cache entries.")}
+              disabled={disabled || !entries?.length}
+              className="flex-1 text-[10px] px-2 py-1.5 rounded border bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+            >
+              Evict unused {EVICT_AFTER_DAYS}+ days
+            </button>
+            <button
+              onClick={handleClear}
+              disabled={disabled || !entries?.length}
+              className="flex-1 text-[10px] px-2 py-1.5 rounded border bg-red-900/30 border-red-900 text-red-200 hover:bg-red-900/60 disabled:opacity-40"
+            >
+              Clear all
+            </button>
+          </div>
+
+          {entries && entries.length > 0 && (
+            <ul className="max-h-48 overflow-auto space-y-1">
+              {entries.slice(0, VISIBLE_ENTRIES).map(entry => (
+                <li key={entry.key} className="flex items-center gap-2 text-[10px] text-slate-400 bg-slate-900/40 rounded px-2 py-1">
+                  <span className="truncate flex-grow" title={entry.text}>{entry.text}</span>
+                  <span className="shrink-0 text-slate-500">{entry.engine}/{entry.voice}</span>
+                  <span className="shrink-0 text-slate-500">{formatBytes(entry.size)}</span>
+                  <button
+                    onClick={() => runAndRefresh(() => deleteCachedSpeech(entry.key), "Failed to delete cache entry.")}
+                    disabled={disabled}
+                    title="Evict"
+                    className="shrink-0 text-slate-500 hover:text-red-400 disabled:opacity-30"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
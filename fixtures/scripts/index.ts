@@ -0,0 +1,9 @@
+import { ScriptFixture } from './types';
+import { japanCupFixture } from './japanCup';
+
+export type { ScriptFixture, FixtureScene } from './types';
+
+// Add new fixture files here to make them available to the local script provider
+export const SCRIPT_FIXTURES: ScriptFixture[] = [
+  japanCupFixture,
+];
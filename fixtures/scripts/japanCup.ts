@@ -0,0 +1,95 @@
+import { ScriptFixture } from './types';
+
+export const japanCupFixture: ScriptFixture = {
+  id: 'japan-cup',
+  keywords: ['ジャパンカップ', 'japan cup', 'じゃぱんかっぷ'],
+  topic: 'ジャパンカップ 過去データ分析',
+  referenceMaterial: {
+    title: 'ジャパンカップ 人気別成績',
+    subhead: '過去10年 東京芝2400m',
+    headers: ['人気', '勝率', '連対率', '複勝率'],
+    rows: [
+      ['1番人気', '50%', '70%', '80%'],
+      ['2番人気', '20%', '40%', '60%'],
+      ['3番人気', '10%', '30%', '40%'],
+      ['4番人気以下', '2%', '6%', '10%'],
+    ],
+  },
+  scenes: [
+    {
+      speaker: 0,
+      dialogue: 'いよいよ今週末はジャパンカップ！世界の強豪が東京に集まりますよ！',
+      phoneticDialogue: 'いよいよ こんしゅうまつ は じゃぱんかっぷ！ せかい の きょうごう が とうきょう に あつまります よ！',
+      visualDescription: 'Packed grandstand at Tokyo Racecourse under autumn sun',
+      keyword: 'racecourse',
+      durationInSeconds: 6,
+      backgroundColor: '#7c3aed',
+      dataOverlay: {
+        title: 'ジャパンカップ',
+        subhead: '東京 芝2400m',
+        headers: ['開催', '距離', '格付け'],
+        row: ['東京', '2400m', 'G1'],
+      },
+    },
+    {
+      speaker: 1,
+      dialogue: '過去10年のデータでは、1番人気の勝率が50%です。堅い決着が多いレースですね。',
+      phoneticDialogue: 'かこ じゅうねん の でーた では、 いちばんにんき の しょうりつ が ごじゅっ ぱーせんと です。 かたい けっちゃく が おおい れーす です ね。',
+      visualDescription: 'Analyst desk with charts of past race results',
+      keyword: 'analytics',
+      durationInSeconds: 7,
+      backgroundColor: '#1d4ed8',
+      dataOverlay: {
+        title: '1番人気の成績',
+        subhead: '過去10年',
+        headers: ['勝率', '連対率', '複勝率'],
+        row: ['50%', '70%', '80%'],
+      },
+    },
+    {
+      speaker: 0,
+      dialogue: 'じゃあ穴馬の出番はないんですか？',
+      phoneticDialogue: 'じゃあ あなうま の でばん は ない んです か？',
+      visualDescription: 'Horses breaking from the starting gate',
+      keyword: 'horse',
+      durationInSeconds: 5,
+      backgroundColor: '#db2777',
+      dataOverlay: {
+        title: '4番人気以下',
+        subhead: '過去10年',
+        headers: ['勝率', '連対率', '複勝率'],
+        row: ['2%', '6%', '10%'],
+      },
+    },
+    {
+      speaker: 1,
+      dialogue: '4番人気以下の複勝率は10%です。狙うなら3着までの馬券が現実的でしょう。',
+      phoneticDialogue: 'よんばんにんき いか の ふくしょうりつ は じゅっ ぱーせんと です。 ねらう なら さんちゃく まで の ばけん が げんじつてき でしょう。',
+      visualDescription: 'Close-up of betting tickets on a table',
+      keyword: 'tickets',
+      durationInSeconds: 7,
+      backgroundColor: '#0f766e',
+      dataOverlay: {
+        title: '狙い方',
+        subhead: '人気薄は複勝で',
+        headers: ['券種', '対象'],
+        row: ['複勝・ワイド', '4番人気以下'],
+      },
+    },
+    {
+      speaker: 0,
+      dialogue: '週末が楽しみですね！それではまた来週！',
+      phoneticDialogue: 'しゅうまつ が たのしみ です ね！ それでは また らいしゅう！',
+      visualDescription: 'Sunset over the final straight of the racecourse',
+      keyword: 'sunset',
+      durationInSeconds: 5,
+      backgroundColor: '#ea580c',
+      dataOverlay: {
+        title: 'まとめ',
+        subhead: 'ジャパンカップ',
+        headers: ['本命', '穴'],
+        row: ['1番人気', '複勝狙い'],
+      },
+    },
+  ],
+};
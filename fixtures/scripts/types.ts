@@ -0,0 +1,17 @@
+import { Scene, ReferenceMaterial } from '../../types';
+
+// Scripts are written against speaker slots instead of names so any cast can voice them.
+// Slot N is spoken by cast[N % cast.length]; dialogue and phoneticDialogue carry no prefix.
+export interface FixtureScene extends Omit<Scene, 'dialogue' | 'phoneticDialogue' | 'audioUrl'> {
+  speaker: number;
+  dialogue: string;
+  phoneticDialogue: string;
+}
+
+export interface ScriptFixture {
+  id: string;
+  keywords: string[]; // Matched case-insensitively against the prompt
+  topic: string;
+  referenceMaterial: ReferenceMaterial;
+  scenes: FixtureScene[];
+}
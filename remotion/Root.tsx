@@ -0,0 +1,39 @@
+import React from 'react';
+import { Composition } from 'remotion';
+import { MyVideoComposition, getCompositionDimensions } from '../components/RemotionVideo';
+import { getDurationInFrames } from '../services/timeline';
+import { Scene, AspectRatio, CastMember, MusicSettings, Theme, LibraryAsset, MasteringSettings, FPS } from '../types';
+import { COMPOSITION_ID } from './constants';
+
+// aspectRatio only feeds calculateMetadata; MyVideoComposition ignores it
+export type RenderInputProps = {
+  scenes: Scene[];
+  introBgUrl?: string;
+  assets?: LibraryAsset[];
+  cast?: CastMember[];
+  music?: MusicSettings;
+  theme?: Theme;
+  mastering?: MasteringSettings;
+  aspectRatio: AspectRatio;
+};
+
+const defaultProps: RenderInputProps = {
+  scenes: [],
+  aspectRatio: '16:9',
+};
+
+export const RemotionRoot: React.FC = () => {
+  return (
+    <Composition
+      id={COMPOSITION_ID}
+      component={MyVideoComposition}
+      fps={FPS}
+      defaultProps={defaultProps}
+      calculateMetadata={({ props }) => ({
+        ...getCompositionDimensions(props.aspectRatio),
+        // A composition must be at least one frame long
+        durationInFrames: Math.max(1, getDurationInFrames(props.scenes)),
+      })}
+    />
+  );
+};
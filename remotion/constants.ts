@@ -0,0 +1,3 @@
+// Kept free of React imports so the Node render server can share it
+export const COMPOSITION_ID = 'PodcastVideo';
+export const ENTRY_POINT = 'remotion/index.ts';
@@ -0,0 +1,26 @@
+import { registerRoot, delayRender, continueRender } from 'remotion';
+import { RemotionRoot } from './Root';
+
+// The composition is styled with the Tailwind CDN build and Inter, exactly like index.html.
+// Hold the first frame until both are in the page so headless frames match the preview.
+const loadStylesheet = (tag: 'script' | 'link', url: string) => {
+  const handle = delayRender(`Loading ${url}`);
+  const el = document.createElement(tag);
+  if (el instanceof HTMLScriptElement) {
+    el.src = url;
+  } else if (el instanceof HTMLLinkElement) {
+    el.rel = 'stylesheet';
+    el.href = url;
+  }
+  el.onload = () => continueRender(handle);
+  el.onerror = () => {
+    console.error(`Failed to load ${url}, rendering without it`);
+    continueRender(handle);
+  };
+  document.head.appendChild(el);
+};
+
+loadStylesheet('script', 'https://cdn.tailwindcss.com');
+loadStylesheet('link', 'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;600;700&display=swap');
+
+registerRoot(RemotionRoot);
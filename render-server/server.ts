@@ -0,0 +1,304 @@
+// Local headless render service.
+//
+//   npm run render-server
+//
+// The app POSTs a project bundle (.zip, see services/projectBundle.ts) to /renders, polls
+// /renders/:id for progress and downloads /renders/:id/output once done. Rendering goes
+// through Remotion (remotion/index.ts), so frames are exact and audio is mixed from the
+// scene WAVs, independent of tab focus or screen capture.
+
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { mkdir, writeFile, rm, stat } from 'node:fs/promises';
+import { bundle } from '@remotion/bundler';
+import { ensureBrowser, selectComposition, renderMedia } from '@remotion/renderer';
+import { parseProjectBundle } from '../services/projectBundle';
+import { COMPOSITION_ID, ENTRY_POINT } from '../remotion/constants';
+import type { RenderInputProps } from '../remotion/Root';
+
+const PORT = Number(process.env.RENDER_SERVER_PORT || 3001);
+// Loopback only by default: anyone who can reach the server can upload projects to render
+const HOST = process.env.RENDER_SERVER_HOST || '127.0.0.1';
+const PUBLIC_URL = `http://${HOST.includes(':') ? `[${HOST}]` : HOST}:${PORT}`;
+// Pages allowed to call the server from a browser besides local ones (the Vite dev server, Remotion)
+const ALLOWED_ORIGINS = (process.env.RENDER_SERVER_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+const WORK_DIR = path.join(os.tmpdir(), 'ai-podcast-director-renders');
+const MAX_UPLOAD_BYTES = 500 * 1024 * 1024;
+const JOB_TTL_MS = 30 * 60 * 1000; // Finished renders are kept this long for download
+
+type JobStatus = 'queued' | 'bundling' | 'rendering' | 'done' | 'error';
+
+interface RenderJob {
+  id: string;
+  status: JobStatus;
+  progress: number; // 0..1 within the current status
+  error?: string;
+  dir: string;
+  fileName: string;
+  inputProps: RenderInputProps;
+  assetTypes: Record<string, string>; // MIME type per served background file
+}
+
+const jobs = new Map<string, RenderJob>();
+let renderQueue: Promise<void> = Promise.resolve();
+let serveUrlPromise: Promise<string> | null = null;
+
+// The webpack bundle of the composition only needs to be built once per server run
+const getServeUrl = (onProgress: (progress: number) => void): Promise<string> => {
+  if (!serveUrlPromise) {
+    serveUrlPromise = bundle({
+      entryPoint: path.resolve(process.cwd(), ENTRY_POINT),
+      onProgress: (percent) => onProgress(percent / 100),
+    }).catch((e) => {
+      serveUrlPromise = null;
+      throw e;
+    });
+  }
+  return serveUrlPromise;
+};
+
+const runJob = async (job: RenderJob) => {
+  try {
+    job.status = 'bundling';
+    const serveUrl = await getServeUrl((progress) => { job.progress = progress; });
+
+    job.status = 'rendering';
+    job.progress = 0;
+    // Downloads Chrome Headless Shell on first use
+    await ensureBrowser();
+    const composition = await selectComposition({
+      serveUrl,
+      id: COMPOSITION_ID,
+      inputProps: job.inputProps,
+    });
+
+    await renderMedia({
+      composition,
+      serveUrl,
+      codec: 'h264',
+      outputLocation: path.join(job.dir, 'output.mp4'),
+      inputProps: job.inputProps,
+      onProgress: ({ progress }) => { job.progress = progress; },
+    });
+
+    job.status = 'done';
+    job.progress = 1;
+  } catch (e: any) {
+    console.error(`Render ${job.id} failed`, e);
+    job.status = 'error';
+    job.error = e?.message || 'Render failed.';
+  } finally {
+    setTimeout(() => {
+      jobs.delete(job.id);
+      rm(job.dir, { recursive: true, force: true }).catch(() => {});
+    }, JOB_TTL_MS);
+  }
+};
+
+// Only a plain extension from an uploaded file name is kept
+const safeExtension = (fileName: string, fallback: string) => {
+  const extension = path.extname(fileName).toLowerCase();
+  return /^\.[a-z0-9]+$/.test(extension) ? extension : fallback;
+};
+
+// Every file of a job is written through here, so nothing from the bundle can leave its directory
+const writeJobFile = async (dir: string, fileName: string, bytes: Uint8Array) => {
+  const filePath = path.resolve(dir, fileName);
+  if (path.dirname(filePath) !== path.resolve(dir)) throw new Error(`Invalid file name: ${fileName}`);
+  await writeFile(filePath, bytes);
+};
+
+const createJob = async (body: Buffer): Promise<RenderJob> => {
+  const { name, script, settings, audio, music, assets } = await parseProjectBundle(new Uint8Array(body));
+
+  const id = randomUUID();
+  const dir = path.join(WORK_DIR, id);
+  await mkdir(dir, { recursive: true });
+
+  // Headless Chrome cannot read the app's blob: URLs, so serve the WAVs from here instead
+  const scenes = await Promise.all(script.scenes.map(async (scene, idx) => {
+    const bytes = audio[idx];
+    if (!bytes) return scene;
+    const fileName = `scene-${String(idx + 1).padStart(3, '0')}.wav`;
+    await writeJobFile(dir, fileName, bytes);
+    return { ...scene, audioUrl: `${PUBLIC_URL}/renders/${id}/audio/${fileName}` };
+  }));
+
+  let musicUrl: string | undefined;
+  if (music && settings.music.source !== 'none') {
+    const fileName = `music${safeExtension(settings.music.fileName ?? '', '.wav')}`;
+    await writeJobFile(dir, fileName, music);
+    musicUrl = `${PUBLIC_URL}/renders/${id}/audio/${fileName}`;
+  }
+
+  // Library backgrounds the same way; the composition matches scenes to them by tag again
+  const assetTypes: Record<string, string> = {};
+  // Files are named by position; ids and names from the bundle never reach the file system
+  const libraryAssets = await Promise.all(assets.map(async ({ asset, bytes }, idx) => {
+    const fileName = `asset-${idx}${safeExtension(asset.name, '')}`;
+    await writeJobFile(dir, fileName, bytes);
+    assetTypes[fileName] = asset.mimeType;
+    return { ...asset, url: `${PUBLIC_URL}/renders/${id}/assets/${fileName}` };
+  }));
+
+  return {
+    id,
+    status: 'queued',
+    progress: 0,
+    dir,
+    fileName: `${name.replace(/\s+/g, '_')}_${settings.aspectRatio.replace(':', 'x')}.mp4`,
+    inputProps: {
+      scenes,
+      introBgUrl: settings.introBackground,
+      assets: libraryAssets,
+      cast: settings.cast,
+      music: { ...settings.music, url: musicUrl },
+      theme: settings.theme,
+      mastering: settings.mastering,
+      aspectRatio: settings.aspectRatio,
+    },
+    assetTypes,
+  };
+};
+
+// --- HTTP ---
+const AUDIO_TYPES: Record<string, string> = {
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.ogg': 'audio/ogg',
+  '.flac': 'audio/flac',
+};
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+const isAllowedOrigin = (origin: string) => {
+  if (ALLOWED_ORIGINS.includes(origin)) return true;
+  try {
+    const { protocol, hostname } = new URL(origin);
+    return protocol === 'http:' && LOOPBACK_HOSTS.includes(hostname);
+  } catch {
+    return false;
+  }
+};
+
+// Echoes the request's origin when it is allowed; other pages get no CORS headers and the
+// browser blocks them
+const getCorsHeaders = (req: http.IncomingMessage): Record<string, string> => {
+  const origin = req.headers.origin;
+  if (!origin || !isAllowedOrigin(origin)) return { 'Vary': 'Origin' };
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Expose-Headers': 'Content-Disposition',
+    'Vary': 'Origin',
+  };
+};
+
+const sendJson = (res: http.ServerResponse, statusCode: number, payload: unknown) => {
+  res.writeHead(statusCode, { ...getCorsHeaders(res.req), 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+const sendFile = async (res: http.ServerResponse, filePath: string, contentType: string, downloadName?: string) => {
+  try {
+    const { size } = await stat(filePath);
+    res.writeHead(200, {
+      ...getCorsHeaders(res.req),
+      'Content-Type': contentType,
+      'Content-Length': size,
+      ...(downloadName ? { 'Content-Disposition': `attachment; filename="${encodeURIComponent(downloadName)}"` } : {}),
+    });
+    createReadStream(filePath).pipe(res);
+  } catch {
+    sendJson(res, 404, { error: 'File not found.' });
+  }
+};
+
+const readBody = (req: http.IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    req.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > MAX_UPLOAD_BYTES) {
+        reject(new Error('Project bundle is too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const toStatus = (job: RenderJob) => ({
+  id: job.id,
+  status: job.status,
+  progress: job.progress,
+  error: job.error,
+  fileName: job.fileName,
+});
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', PUBLIC_URL);
+  const parts = url.pathname.split('/').filter(Boolean); // ['renders', id, ...]
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, getCorsHeaders(req));
+    res.end();
+    return;
+  }
+
+  // A simple POST is sent before the browser checks CORS, so refuse other pages' uploads here
+  if (req.headers.origin && !isAllowedOrigin(req.headers.origin)) {
+    sendJson(res, 403, { error: 'Origin not allowed.' });
+    return;
+  }
+
+  if (parts[0] !== 'renders') {
+    sendJson(res, 404, { error: 'Not found.' });
+    return;
+  }
+
+  if (req.method === 'POST' && parts.length === 1) {
+    try {
+      const job = await createJob(await readBody(req));
+      jobs.set(job.id, job);
+      renderQueue = renderQueue.then(() => runJob(job));
+      sendJson(res, 202, toStatus(job));
+    } catch (e: any) {
+      sendJson(res, 400, { error: e?.message || 'Invalid project bundle.' });
+    }
+    return;
+  }
+
+  const job = parts[1] ? jobs.get(parts[1]) : undefined;
+  if (req.method !== 'GET' || !job) {
+    sendJson(res, 404, { error: 'Render job not found.' });
+    return;
+  }
+
+  if (parts.length === 2) {
+    sendJson(res, 200, toStatus(job));
+  } else if (parts[2] === 'output' && job.status === 'done') {
+    await sendFile(res, path.join(job.dir, 'output.mp4'), 'video/mp4', job.fileName);
+  } else if (parts[2] === 'audio' && parts[3]) {
+    const fileName = path.basename(parts[3]);
+    await sendFile(res, path.join(job.dir, fileName), AUDIO_TYPES[path.extname(fileName)] ?? 'application/octet-stream');
+  } else if (parts[2] === 'assets' && parts[3]) {
+    const fileName = path.basename(parts[3]);
+    await sendFile(res, path.join(job.dir, fileName), job.assetTypes[fileName] ?? 'application/octet-stream');
+  } else {
+    sendJson(res, 404, { error: 'Not found.' });
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Render server listening on ${PUBLIC_URL}`);
+});
@@ -0,0 +1,97 @@
+import { AssetKind, BackgroundAsset, LibraryAsset } from "../types";
+import { openDatabase, requestToPromise, transactionDone, STORES } from "./db";
+
+// Local library of background images and video loops, shared by every project.
+// Scenes are matched to assets by tag (services/backgrounds.ts), so previews and renders
+// never depend on an image service being reachable.
+
+export interface AssetRecord extends BackgroundAsset {
+  blob: Blob;
+}
+
+export const MAX_ASSET_BYTES = 100 * 1024 * 1024;
+
+export const getAssetKind = (mimeType: string): AssetKind | null =>
+  mimeType.startsWith('image/') ? 'image' : mimeType.startsWith('video/') ? 'video' : null;
+
+// Comma-, 、- or whitespace-separated; lowercased and de-duplicated
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.normalize('NFKC').toLowerCase().split(/[,、\s]+/).filter(Boolean)));
+
+// "city-night_01.jpg" → ["city", "night"]
+const tagsFromFileName = (name: string) =>
+  parseTags(name.replace(/\.[^.]+$/, '').replace(/[-_.]+/g, ' ')).filter(tag => !/^\d+$/.test(tag));
+
+const toLibraryAsset = ({ blob, ...asset }: AssetRecord): LibraryAsset => ({ ...asset, url: URL.createObjectURL(blob) });
+
+export const listAssets = async (): Promise<AssetRecord[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.assets, 'readonly');
+  const records = await requestToPromise(tx.objectStore(STORES.assets).getAll()) as AssetRecord[];
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Every asset with a blob URL; pass the result to releaseAssetUrls when it is replaced
+export const loadAssetLibrary = async (): Promise<LibraryAsset[]> => (await listAssets()).map(toLibraryAsset);
+
+export const releaseAssetUrls = (assets: LibraryAsset[]) => assets.forEach(asset => URL.revokeObjectURL(asset.url));
+
+const putRecords = async (records: AssetRecord[]) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.assets, 'readwrite');
+  const store = tx.objectStore(STORES.assets);
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+};
+
+// New assets are tagged from their file name until tags are edited
+export const addAsset = async (file: File): Promise<LibraryAsset> => {
+  const kind = getAssetKind(file.type);
+  if (!kind) {
+    throw new Error(`${file.name} is not an image or video file.`);
+  }
+  if (file.size > MAX_ASSET_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_ASSET_BYTES / (1024 * 1024)} MB.`);
+  }
+
+  const record: AssetRecord = {
+    id: crypto.randomUUID(),
+    name: file.name,
+    kind,
+    mimeType: file.type,
+    tags: tagsFromFileName(file.name),
+    size: file.size,
+    createdAt: Date.now(),
+    blob: file,
+  };
+  await putRecords([record]);
+  return toLibraryAsset(record);
+};
+
+// Assets from a project bundle keep their ids so the project's overrides still point at them.
+// Ids already in the library are left alone; returns the assets that were added.
+export const importAssets = async (assets: { asset: BackgroundAsset; blob: Blob }[]): Promise<LibraryAsset[]> => {
+  const existing = new Set((await listAssets()).map(record => record.id));
+  const records = assets
+    .filter(({ asset }) => !existing.has(asset.id))
+    .map(({ asset, blob }): AssetRecord => ({ ...asset, blob }));
+  await putRecords(records);
+  return records.map(toLibraryAsset);
+};
+
+export const updateAssetTags = async (id: string, tags: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.assets, 'readwrite');
+  const store = tx.objectStore(STORES.assets);
+  const record = await requestToPromise(store.get(id)) as AssetRecord | undefined;
+  if (!record) throw new Error("Asset not found.");
+  store.put({ ...record, tags });
+  await transactionDone(tx);
+};
+
+export const deleteAsset = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.assets, 'readwrite');
+  tx.objectStore(STORES.assets).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,132 @@
+import { Scene, LibraryAsset } from "../types";
+
+// What is drawn behind each scene, in order of precedence:
+//   1. the scene's manual override (a library asset or the generated pattern)
+//   2. the intro background URL, for the first scene
+//   3. the library asset whose tags best match the scene's keyword and visual description
+//   4. a pattern generated from backgroundColor
+// Everything is deterministic, so the player and the render server pick the same backgrounds.
+
+export interface ResolvedBackground {
+  kind: 'image' | 'video' | 'generated';
+  url?: string; // image and video
+  assetId?: string; // Set when the background comes from the library
+  matchedTags?: string[]; // Tags that selected the asset when it was matched automatically
+  css?: string; // generated: CSS background value
+}
+
+export interface AssetMatch {
+  asset: LibraryAsset;
+  score: number;
+  matchedTags: string[];
+}
+
+const FALLBACK_COLOR = '#334155';
+
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase();
+const tokenize = (text: string) => normalize(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Latin tags must match a whole word ("car" is not in "cartoon"); Japanese text has no word
+// boundaries, so other tags match anywhere
+const isWordTag = (tag: string) => /^[a-z0-9]+$/.test(tag);
+
+// A tag found in the keyword counts double: it is the script's one-word summary of the visual
+export const scoreAsset = (scene: Scene, asset: LibraryAsset): AssetMatch => {
+  const keyword = normalize(scene.keyword);
+  const description = normalize(scene.visualDescription);
+  const keywordTokens = new Set(tokenize(scene.keyword));
+  const descriptionTokens = new Set(tokenize(scene.visualDescription));
+  const contains = (text: string, tokens: Set<string>, tag: string) => isWordTag(tag) ? tokens.has(tag) : text.includes(tag);
+
+  let score = 0;
+  const matchedTags: string[] = [];
+  asset.tags.forEach(tag => {
+    if (contains(keyword, keywordTokens, tag)) score += 2;
+    else if (contains(description, descriptionTokens, tag)) score += 1;
+    else return;
+    matchedTags.push(tag);
+  });
+  return { asset, score, matchedTags };
+};
+
+// Ties go to the oldest asset, so adding an equally good one later does not reshuffle scenes
+export const findBestAsset = (scene: Scene, assets: LibraryAsset[]): AssetMatch | undefined =>
+  assets
+    .map(asset => scoreAsset(scene, asset))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.asset.createdAt - b.asset.createdAt || a.asset.id.localeCompare(b.asset.id))[0];
+
+// FNV-1a, enough to spread keywords over the patterns
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const parseHex = (color: string): [number, number, number] => {
+  const hex = /^#[0-9a-f]{3}$/i.test(color)
+    ? color.slice(1).split('').map(c => c + c).join('')
+    : /^#[0-9a-f]{6}$/i.test(color) ? color.slice(1) : FALLBACK_COLOR.slice(1);
+  return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16)) as [number, number, number];
+};
+
+// Mixes the color towards white (amount > 0) or black (amount < 0)
+const shade = (color: string, amount: number) => {
+  const target = amount > 0 ? 255 : 0;
+  const channels = parseHex(color).map(channel => Math.round(channel + (target - channel) * Math.abs(amount)));
+  return `rgb(${channels.join(', ')})`;
+};
+
+// Gradient or pattern derived from the scene color; the keyword picks the variant
+export const getGeneratedBackground = (scene: Scene): string => {
+  const hash = hashString(scene.keyword || scene.visualDescription);
+  const base = shade(scene.backgroundColor, -0.2);
+  const light = shade(scene.backgroundColor, 0.25);
+  const dark = shade(scene.backgroundColor, -0.75);
+  const angle = hash % 360;
+
+  switch (hash % 4) {
+    case 0:
+      return `linear-gradient(${angle}deg, ${dark}, ${base} 55%, ${light})`;
+    case 1:
+      return `radial-gradient(circle at ${20 + hash % 60}% ${20 + (hash >> 8) % 60}%, ${light}, ${base} 40%, ${dark})`;
+    case 2:
+      return `repeating-linear-gradient(${angle}deg, rgba(255, 255, 255, 0.06) 0 24px, transparent 24px 48px), linear-gradient(${angle + 90}deg, ${dark}, ${base})`;
+    default:
+      return `radial-gradient(rgba(255, 255, 255, 0.12) 2px, transparent 2.5px) 0 0 / 32px 32px, linear-gradient(${angle}deg, ${base}, ${dark})`;
+  }
+};
+
+const generated = (scene: Scene): ResolvedBackground => ({ kind: 'generated', css: getGeneratedBackground(scene) });
+
+const fromAsset = (asset: LibraryAsset, matchedTags?: string[]): ResolvedBackground =>
+  ({ kind: asset.kind, url: asset.url, assetId: asset.id, matchedTags });
+
+export const resolveSceneBackground = (scene: Scene, index: number, assets: LibraryAsset[], introBgUrl?: string): ResolvedBackground => {
+  const override = scene.background;
+  if (override?.source === 'generated') return generated(scene);
+  if (override?.source === 'asset') {
+    const asset = assets.find(a => a.id === override.assetId);
+    // A deleted asset falls back to automatic matching
+    if (asset) return fromAsset(asset);
+  }
+
+  if (index === 0 && introBgUrl) return { kind: 'image', url: introBgUrl };
+
+  const match = findBestAsset(scene, assets);
+  return match ? fromAsset(match.asset, match.matchedTags) : generated(scene);
+};
+
+export const resolveSceneBackgrounds = (scenes: Scene[], assets: LibraryAsset[], introBgUrl?: string): ResolvedBackground[] =>
+  scenes.map((scene, index) => resolveSceneBackground(scene, index, assets, introBgUrl));
+
+// Library assets a project shows; exported bundles carry only these
+export const getUsedAssetIds = (scenes: Scene[], assets: LibraryAsset[], introBgUrl?: string): string[] =>
+  Array.from(new Set(
+    resolveSceneBackgrounds(scenes, assets, introBgUrl)
+      .map(background => background.assetId)
+      .filter((id): id is string => !!id)
+  ));
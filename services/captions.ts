@@ -0,0 +1,78 @@
+import { Scene, CastMember, FPS } from "../types";
+import { buildTimeline } from "./timeline";
+import { getSpeaker } from "./cast";
+import { getSceneSubtitleChunks } from "./subtitles";
+
+// Sidecar caption files (SRT / WebVTT) with the same timing as the burned-in subtitles
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+export interface CaptionOptions {
+  speakerLabels?: boolean; // Prefix each cue with "<displayName>: "
+}
+
+interface CaptionCue {
+  start: number; // Seconds from the start of the video
+  end: number;
+  text: string;
+}
+
+export const buildCaptionCues = (scenes: Scene[], cast: CastMember[], { speakerLabels = false }: CaptionOptions = {}): CaptionCue[] => {
+  const timeline = buildTimeline(scenes).scenes;
+  const cues: CaptionCue[] = [];
+
+  scenes.forEach((scene, idx) => {
+    const { startFrame, durationInFrames, transitionOutFrames } = timeline[idx];
+    const sceneStart = startFrame / FPS;
+    const sceneEnd = (startFrame + durationInFrames) / FPS;
+    const speaker = speakerLabels ? getSpeaker(scene.dialogue, cast) : undefined;
+
+    getSceneSubtitleChunks(scene, cast, transitionOutFrames).forEach(chunk => {
+      // The composition only shows a chunk while its scene is mounted
+      const start = sceneStart + Math.max(0, chunk.start);
+      const end = Math.min(sceneEnd, sceneStart + chunk.end);
+      if (end <= start) return;
+      // A blank line would end the cue early in both formats
+      const text = chunk.text.replace(/\s*\n\s*/g, ' ');
+      cues.push({ start, end, text: speaker ? `${speaker.displayName}: ${text}` : text });
+    });
+  });
+
+  // During a transition the outgoing scene's last chunk can still be running; cut it at the next cue
+  cues.forEach((cue, idx) => {
+    const next = cues[idx + 1];
+    if (next && cue.end > next.start) cue.end = Math.max(cue.start, next.start);
+  });
+
+  return cues.filter(cue => cue.end > cue.start);
+};
+
+const formatTimestamp = (seconds: number, decimalSeparator: string) => {
+  const totalMs = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor(totalMs / 60000) % 60;
+  const s = Math.floor(totalMs / 1000) % 60;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${decimalSeparator}${pad(totalMs % 1000, 3)}`;
+};
+
+export const toSrt = (cues: CaptionCue[]) =>
+  cues.map((cue, idx) =>
+    `${idx + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`
+  ).join('\n');
+
+// WebVTT cue text is markup: "&" and "<" start entities and tags, and "-->" is not allowed at all
+const escapeVttText = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/-->/g, '--&gt;');
+
+export const toWebVtt = (cues: CaptionCue[]) =>
+  ['WEBVTT\n', ...cues.map(cue =>
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${escapeVttText(cue.text)}\n`
+  )].join('\n');
+
+export const exportCaptions = (scenes: Scene[], cast: CastMember[], format: CaptionFormat, options?: CaptionOptions): Blob => {
+  const cues = buildCaptionCues(scenes, cast, options);
+  return format === 'srt'
+    ? new Blob([toSrt(cues)], { type: 'application/x-subrip' })
+    : new Blob([toWebVtt(cues)], { type: 'text/vtt' });
+};
@@ -0,0 +1,101 @@
+import { CastMember } from "../types";
+
+export const MIN_CAST_SIZE = 1;
+export const MAX_CAST_SIZE = 4;
+
+// Prebuilt voices offered by the Gemini TTS models
+export const PREBUILT_VOICES = [
+  'Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Aoede', 'Callirrhoe', 'Autonoe',
+  'Enceladus', 'Iapetus', 'Umbriel', 'Algieba', 'Despina', 'Erinome', 'Algenib', 'Rasalgethi',
+  'Laomedeia', 'Achernar', 'Alnilam', 'Schedar', 'Gacrux', 'Pulcherrima', 'Achird',
+  'Zubenelgenubi', 'Vindemiatrix', 'Sadachbia', 'Sadaltager', 'Sulafat',
+];
+
+// The original duo of the show
+export const DEFAULT_CAST: CastMember[] = [
+  {
+    id: 'jenba',
+    displayName: 'じぇんば',
+    romanizedName: 'Jenba',
+    role: 'Host / MC',
+    personality: 'Energetic, enthusiastic. Talks about the "fun" and "excitement" (e.g., the thrill of horse racing). Tone: Lively.',
+    voiceName: 'Charon',
+  },
+  {
+    id: 'aiba',
+    displayName: 'あいば',
+    romanizedName: 'Aiba',
+    role: 'Analyst / Expert',
+    personality: 'Calm, logical, intellectual. Focuses on "data", "analysis", and "probabilities". Tone: Composed.',
+    voiceName: 'Kore',
+  },
+];
+
+export const createCastMember = (index: number): CastMember => ({
+  id: crypto.randomUUID(),
+  displayName: `speaker${index + 1}`,
+  romanizedName: `Speaker ${index + 1}`,
+  role: 'Guest',
+  personality: 'Friendly and curious. Tone: Conversational.',
+  voiceName: PREBUILT_VOICES[index % PREBUILT_VOICES.length],
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const namePattern = (cast: CastMember[]) =>
+  cast.filter(m => m.displayName).map(m => escapeRegExp(m.displayName)).join('|');
+
+// Matches "<displayName>:" (half- or full-width colon) at the start of a line of dialogue
+export const getSpeakerPrefixRegex = (cast: CastMember[]) =>
+  new RegExp(`^(${namePattern(cast)})[:：]`);
+
+// Markdown bullets / numbering the model sometimes puts before the prefix (e.g. "* じぇんば:", "1. じぇんば:")
+const getBulletBeforePrefixRegex = (cast: CastMember[]) =>
+  new RegExp(`^[\\s\\*\\-\\d\\.]+(?=(${namePattern(cast)})[:：])`);
+
+export const findCastMember = (cast: CastMember[], displayName: string) =>
+  cast.find(m => m.displayName === displayName);
+
+export const getSpeaker = (text: string, cast: CastMember[]): CastMember | undefined => {
+  const match = text.trim().match(getSpeakerPrefixRegex(cast));
+  return match ? findCastMember(cast, match[1]) : undefined;
+};
+
+export const stripSpeakerPrefix = (text: string, cast: CastMember[]) =>
+  text.trim().replace(getSpeakerPrefixRegex(cast), '').trim();
+
+export const stripBulletBeforePrefix = (text: string, cast: CastMember[]) =>
+  text.replace(getBulletBeforePrefixRegex(cast), '');
+
+// Returns the TTS text with a valid speaker prefix, inferred from the display dialogue
+// or falling back to the first cast member
+export const ensureSpeakerPrefix = (text: string, dialogue: string, cast: CastMember[]) => {
+  const cleanText = stripBulletBeforePrefix(text, cast).trim();
+  if (getSpeakerPrefixRegex(cast).test(cleanText)) return cleanText;
+
+  const speaker = getSpeaker(stripBulletBeforePrefix(dialogue, cast), cast) ?? cast[0];
+  return `${speaker.displayName}: ${cleanText}`;
+};
+
+export const formatCastNames = (cast: CastMember[]) =>
+  cast.map(m => `"${m.displayName}" (${m.romanizedName})`).join(', ');
+
+// Prompt section describing who speaks and how
+export const buildCastInstruction = (cast: CastMember[]) => {
+  const roles = cast.map((m, idx) => `
+      ${idx + 1}. "${m.displayName}" (${m.romanizedName}):
+         - Role: ${m.role}.
+         - Personality: ${m.personality}`).join('\n');
+
+  const order = cast.map(m => m.romanizedName).join(' -> ');
+  const turnRule = cast.length > 1
+    ? `1. ALTERNATE SPEAKERS: Never have the same person speak two scenes in a row. (${order} -> ...).`
+    : `1. SINGLE SPEAKER: Every scene is spoken by "${cast[0].displayName}" (${cast[0].romanizedName}).`;
+
+  const introRule = `3. SELF-INTRODUCTIONS: If they introduce themselves, ensure ${cast.map(m => `${m.romanizedName} says "${m.romanizedName}"`).join(' and ')}. Do not mix them up.`;
+
+  return { roles, turnRule, introRule };
+};
+
+export const formatPrefixOptions = (cast: CastMember[]) =>
+  cast.map(m => `"${m.displayName}:"`).join(' or ');
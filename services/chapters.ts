@@ -0,0 +1,144 @@
+import { Scene, VideoScript, ReferenceMaterial, ChapterSettings, PodcastSettings, FPS } from "../types";
+import { buildTimeline } from "./timeline";
+
+// Chapters start where the first scene of a group enters on the shared timeline, so the
+// timestamps match the rendered video and the mixed audio.
+
+export interface Chapter {
+  title: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export type ChapterExportFormat = 'youtube' | 'markdown' | 'json';
+
+export const CHAPTER_EXPORT_FORMATS: { id: ChapterExportFormat; label: string; extension: string }[] = [
+  { id: 'youtube', label: 'YouTube', extension: 'txt' },
+  { id: 'markdown', label: 'Show notes', extension: 'md' },
+  { id: 'json', label: 'JSON', extension: 'json' },
+];
+
+// YouTube only shows a chapter list with at least this many entries, each at least this long
+export const MIN_YOUTUBE_CHAPTERS = 3;
+export const MIN_YOUTUBE_CHAPTER_SECONDS = 10;
+
+export const DEFAULT_CHAPTER_SETTINGS: ChapterSettings = {
+  mergeSameTitle: true,
+  minChapterSeconds: MIN_YOUTUBE_CHAPTER_SECONDS,
+};
+
+const mergeSameTitles = (chapters: Chapter[]) =>
+  chapters.reduce<Chapter[]>((merged, chapter) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.title === chapter.title) previous.endSeconds = chapter.endSeconds;
+    else merged.push({ ...chapter });
+    return merged;
+  }, []);
+
+// A short chapter joins the previous one; a short first chapter joins the next, so the list
+// still starts at 0
+const foldShortChapters = (chapters: Chapter[], minSeconds: number) => {
+  const folded = chapters.map(chapter => ({ ...chapter }));
+  let idx = 0;
+  while (idx < folded.length && folded.length > 1) {
+    const chapter = folded[idx];
+    if (chapter.endSeconds - chapter.startSeconds >= minSeconds) {
+      idx++;
+    } else if (idx === 0) {
+      folded[1].startSeconds = chapter.startSeconds;
+      folded.splice(0, 1);
+    } else {
+      folded[idx - 1].endSeconds = chapter.endSeconds;
+      folded.splice(idx, 1);
+    }
+  }
+  return folded;
+};
+
+// Each titled scene starts a chapter (consecutive equal titles share one when mergeSameTitle is
+// set); untitled scenes continue the previous chapter.
+export const buildChapters = (scenes: Scene[], fallbackTitle: string, settings: ChapterSettings = DEFAULT_CHAPTER_SETTINGS): Chapter[] => {
+  const { scenes: timeline, durationInSeconds } = buildTimeline(scenes);
+  const chapters: Chapter[] = [];
+  scenes.forEach((scene, idx) => {
+    const title = scene.dataOverlay?.title?.trim();
+    const previous = chapters[chapters.length - 1];
+    if (previous && !title) return;
+    chapters.push({ title: title || fallbackTitle, startSeconds: timeline[idx].startFrame / FPS, endSeconds: 0 });
+  });
+  chapters.forEach((chapter, idx) => {
+    chapter.endSeconds = chapters[idx + 1]?.startSeconds ?? durationInSeconds;
+  });
+
+  const grouped = settings.mergeSameTitle ? mergeSameTitles(chapters) : chapters;
+  const folded = foldShortChapters(grouped, settings.minChapterSeconds);
+  // Folding can leave two equal titles side by side
+  return settings.mergeSameTitle ? mergeSameTitles(folded) : folded;
+};
+
+// 00:00, or 1:02:03 past the hour. Rounded down so the first chapter is always 00:00.
+export const formatChapterTimestamp = (seconds: number) => {
+  const total = Math.floor(seconds);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const h = Math.floor(total / 3600);
+  const m = Math.floor(total / 60) % 60;
+  const s = total % 60;
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+};
+
+// Pasted into a YouTube description, one "00:00 Title" line per chapter
+export const toYouTubeChapters = (chapters: Chapter[]) =>
+  chapters.map(chapter => `${formatChapterTimestamp(chapter.startSeconds)} ${chapter.title}`).join('\n') + '\n';
+
+const escapeCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ').trim();
+
+const toMarkdownTable = (headers: string[], rows: string[][]) => [
+  `| ${headers.map(escapeCell).join(' | ')} |`,
+  `| ${headers.map(() => '---').join(' | ')} |`,
+  ...rows.map(row => `| ${headers.map((_, idx) => escapeCell(row[idx] ?? '')).join(' | ')} |`),
+].join('\n');
+
+const toReferenceSection = (reference: ReferenceMaterial) => {
+  const lines = [`## ${reference.title.trim() || 'Reference'}`, ''];
+  if (reference.subhead.trim()) lines.push(reference.subhead.trim(), '');
+  if (reference.headers.length > 0) lines.push(toMarkdownTable(reference.headers, reference.rows), '');
+  if (reference.source) lines.push(`Source: ${reference.source}`, '');
+  return lines;
+};
+
+export const toShowNotes = (script: VideoScript, chapters: Chapter[], podcast?: PodcastSettings) => {
+  const byline = [
+    podcast?.showName.trim(),
+    podcast?.episodeNumber !== undefined ? `Episode ${podcast.episodeNumber}` : undefined,
+  ].filter(Boolean).join(' · ');
+
+  const lines = [`# ${script.topic}`, ''];
+  if (byline) lines.push(byline, '');
+  lines.push('## Chapters', '', ...chapters.map(chapter => `- ${formatChapterTimestamp(chapter.startSeconds)} ${chapter.title}`), '');
+  if (script.referenceMaterial) lines.push(...toReferenceSection(script.referenceMaterial));
+  return lines.join('\n');
+};
+
+// Podcasting 2.0 JSON chapters, which podcast hosts accept next to the audio file
+export const toChaptersJson = (script: VideoScript, chapters: Chapter[], podcast?: PodcastSettings) => JSON.stringify({
+  version: '1.2.0',
+  title: script.topic,
+  podcastName: podcast?.showName.trim() || undefined,
+  chapters: chapters.map(chapter => ({
+    startTime: Math.round(chapter.startSeconds * 1000) / 1000,
+    endTime: Math.round(chapter.endSeconds * 1000) / 1000,
+    title: chapter.title,
+  })),
+}, null, 2);
+
+export const exportChapters = (script: VideoScript, format: ChapterExportFormat, settings: ChapterSettings, podcast?: PodcastSettings): Blob => {
+  const chapters = buildChapters(script.scenes, script.topic, settings);
+  switch (format) {
+    case 'youtube':
+      return new Blob([toYouTubeChapters(chapters)], { type: 'text/plain' });
+    case 'markdown':
+      return new Blob([toShowNotes(script, chapters, podcast)], { type: 'text/markdown' });
+    default:
+      return new Blob([toChaptersJson(script, chapters, podcast)], { type: 'application/json+chapters' });
+  }
+};
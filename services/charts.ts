@@ -0,0 +1,120 @@
+import { ChartSpec, ChartType, ReferenceMaterial, VideoScript } from "../types";
+
+// Overlay charts: the model (or the editor) picks a chart type plus referenceMaterial columns
+// and rows; resolveChart copies the numbers into the scene so rendering needs no lookup.
+
+export const CHART_TYPES: { id: ChartType; label: string }[] = [
+  { id: 'bar', label: 'Bar chart' },
+  { id: 'line', label: 'Line chart' },
+  { id: 'pie', label: 'Pie chart' },
+  { id: 'ranking', label: 'Ranking' },
+  { id: 'counter', label: 'Count-up number' },
+];
+
+export type ChartSelection = Pick<ChartSpec, 'type' | 'labelHeader' | 'valueHeaders' | 'rowIndices' | 'unit'>;
+
+// More points stop being readable on a 9:16 frame
+export const MAX_CHART_POINTS = 12;
+export const MAX_CHART_SERIES = 4;
+// Slices beyond this are too thin to label
+export const MAX_PIE_SLICES = 8;
+
+// Pie slices and ranking places are shares or positions of a single column
+export const getMaxSeries = (type: ChartType) => type === 'pie' || type === 'ranking' ? 1 : MAX_CHART_SERIES;
+export const getMaxPoints = (type: ChartType) => type === 'pie' ? MAX_PIE_SLICES : MAX_CHART_POINTS;
+
+const UNIT_SUFFIXES = ['%', '倍', '円', '秒', '人', '頭', '着', '位'];
+
+// "2.5倍" → 2.5, "¥1,200" → 1200, "12%" → 12; anything else is not a number
+export const parseChartNumber = (cell: string): number | null => {
+  const match = cell.normalize('NFKC').trim().match(/^[¥$]?\s*([-+]?[\d,]*\.?\d+)\s*(\S{0,2})$/);
+  if (!match || (match[2] && !UNIT_SUFFIXES.includes(match[2]))) return null;
+  const value = Number(match[1].replace(/,/g, ''));
+  return Number.isFinite(value) ? value : null;
+};
+
+const getColumn = (reference: ReferenceMaterial, header: string) => {
+  const index = reference.headers.indexOf(header);
+  return index === -1 ? null : reference.rows.map(row => row[index] ?? '');
+};
+
+// Columns where most filled cells are numbers
+export const getNumericHeaders = (reference: ReferenceMaterial): string[] =>
+  reference.headers.filter(header => {
+    const cells = getColumn(reference, header)!.filter(cell => cell.trim());
+    return cells.length > 0 && cells.filter(cell => parseChartNumber(cell) !== null).length >= cells.length / 2;
+  });
+
+// Shared suffix of the value cells, shown after each number
+const inferUnit = (cells: string[]) => {
+  const suffixes = new Set(cells.filter(Boolean).map(cell => UNIT_SUFFIXES.find(unit => cell.trim().endsWith(unit)) ?? ''));
+  return suffixes.size === 1 ? [...suffixes][0] || undefined : undefined;
+};
+
+export const resolveChart = (selection: ChartSelection, reference: ReferenceMaterial): ChartSpec | undefined => {
+  const labelColumn = getColumn(reference, selection.labelHeader);
+  const valueHeaders = selection.valueHeaders
+    .filter(header => getColumn(reference, header) !== null)
+    .slice(0, getMaxSeries(selection.type));
+  const rowIndices = selection.rowIndices
+    .filter(idx => Number.isInteger(idx) && idx >= 0 && idx < reference.rows.length)
+    .slice(0, getMaxPoints(selection.type));
+  if (!labelColumn || valueHeaders.length === 0 || rowIndices.length === 0) return undefined;
+
+  const series = valueHeaders.map(header => {
+    const column = getColumn(reference, header)!;
+    return { name: header, values: rowIndices.map(idx => parseChartNumber(column[idx])) };
+  });
+  if (series.every(s => s.values.every(v => v === null))) return undefined;
+
+  const valueCells = valueHeaders.flatMap(header => rowIndices.map(idx => getColumn(reference, header)![idx]));
+  return {
+    type: selection.type,
+    labelHeader: selection.labelHeader,
+    valueHeaders,
+    rowIndices,
+    unit: selection.unit ?? inferUnit(valueCells),
+    labels: rowIndices.map(idx => labelColumn[idx]),
+    series,
+  };
+};
+
+// 1, 2, 3… columns (horse numbers, ranks) are identifiers, not something to plot
+const isSequence = (reference: ReferenceMaterial, header: string) =>
+  getColumn(reference, header)!.every((cell, idx) => parseChartNumber(cell) === idx + 1);
+
+// Starting point for the editor: first text column as labels, first numeric column as values
+export const suggestChart = (type: ChartType, reference: ReferenceMaterial): ChartSpec | undefined => {
+  const numeric = getNumericHeaders(reference);
+  const labelHeader = reference.headers.find(header => !numeric.includes(header)) ?? reference.headers[0];
+  const candidates = numeric.filter(header => header !== labelHeader);
+  const valueHeader = candidates.find(header => !isSequence(reference, header)) ?? candidates[0];
+  if (!labelHeader || !valueHeader) return undefined;
+  const rowIndices = reference.rows.map((_, idx) => idx).slice(0, type === 'counter' ? 1 : getMaxPoints(type));
+  return resolveChart({ type, labelHeader, valueHeaders: [valueHeader], rowIndices }, reference);
+};
+
+// The model returns only the selection (type 'none' for a plain grid); fill in the numbers
+// and drop charts that point at columns or rows that do not exist
+export const resolveSceneCharts = (script: VideoScript): VideoScript => ({
+  ...script,
+  scenes: script.scenes.map(scene => {
+    const { chart, ...overlay } = scene.dataOverlay;
+    const selection = chart as (Partial<Omit<ChartSelection, 'type'>> & { type: ChartType | 'none' }) | undefined;
+    if (!selection || selection.type === 'none' || !script.referenceMaterial) return { ...scene, dataOverlay: overlay };
+    const resolved = resolveChart({
+      type: selection.type,
+      labelHeader: selection.labelHeader ?? '',
+      valueHeaders: selection.valueHeaders ?? [],
+      rowIndices: selection.rowIndices ?? [],
+    }, script.referenceMaterial);
+    return { ...scene, dataOverlay: resolved ? { ...overlay, chart: resolved } : overlay };
+  }),
+});
+
+// Decimal places shown for a series: as many as its most precise value
+export const getValueDecimals = (values: (number | null)[]) =>
+  Math.max(0, ...values.map(v => v === null ? 0 : (String(v).split('.')[1]?.length ?? 0)));
+
+export const formatChartValue = (value: number, decimals: number, unit?: string) =>
+  `${value.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })}${unit ?? ''}`;
@@ -0,0 +1,43 @@
+// Delimited text (CSV/TSV) per RFC 4180: quoted fields may contain delimiters, quotes ("")
+// and line breaks. Shared by the lexicon and data imports.
+
+export const toCsvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]) =>
+  rows.map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+
+export const parseDelimitedRows = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, ''); // Spreadsheet exports often start with a BOM
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) throw new Error("The file has an unterminated quoted field.");
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
@@ -0,0 +1,139 @@
+import { ReferenceMaterial } from "../types";
+import { parseDelimitedRows } from "./csv";
+
+// Imports an analyst's table (CSV, TSV or JSON) as the episode's ReferenceMaterial. An
+// imported table is ground truth: the script prompt may only cite its values, and overlay
+// values that do not appear in it are flagged after generation.
+
+export type DataFormat = 'csv' | 'tsv' | 'json';
+
+export type ColumnType = 'number' | 'percent' | 'currency' | 'date' | 'time' | 'text';
+
+// Rows beyond this are left out of the script prompt
+const MAX_PROMPT_ROWS = 300;
+
+const NUMBER = /^[-+]?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?$/;
+const PERCENT = /^[-+]?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?\s*%$/;
+const CURRENCY = /^(?:[¥$]\s*[-+]?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?|[-+]?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?\s*円)$/;
+const DATE = /^(?:\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|(?:\d{4}年)?\d{1,2}月\d{1,2}日)$/;
+// Clock times and race times (2:23.4)
+const TIME = /^\d{1,2}:\d{2}(?:[:.]\d+)?$/;
+
+const COLUMN_PATTERNS: [ColumnType, RegExp][] = [
+  ['number', NUMBER],
+  ['percent', PERCENT],
+  ['currency', CURRENCY],
+  ['date', DATE],
+  ['time', TIME],
+];
+
+const normalizeCell = (value: string) => value.normalize('NFKC').trim();
+
+export const detectFormat = (text: string, fileName?: string): DataFormat => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'tsv' || extension === 'tab') return 'tsv';
+  if (extension === 'csv') return 'csv';
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'json';
+  // Spreadsheet copy & paste gives tab separated text
+  const firstLine = trimmed.split(/\r?\n/, 1)[0];
+  return firstLine.includes('\t') ? 'tsv' : 'csv';
+};
+
+const cellToString = (value: unknown): string =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Accepts an array of objects, an array of arrays (first row is the header) or a
+// ReferenceMaterial-shaped object with headers and rows
+const parseJsonTable = (text: string): { headers: string[]; rows: string[][]; title?: string; subhead?: string } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    const table = data as Record<string, unknown>;
+    if (Array.isArray(table.headers) && Array.isArray(table.rows)) {
+      return {
+        headers: table.headers.map(cellToString),
+        rows: table.rows.map(row => Array.isArray(row) ? row.map(cellToString) : []),
+        title: typeof table.title === 'string' ? table.title : undefined,
+        subhead: typeof table.subhead === 'string' ? table.subhead : undefined,
+      };
+    }
+    throw new Error("JSON objects need \"headers\" and \"rows\" arrays.");
+  }
+
+  if (!Array.isArray(data) || data.length === 0) throw new Error("The JSON file has no rows.");
+  if (data.every(Array.isArray)) {
+    const [headers, ...rows] = data as unknown[][];
+    return { headers: headers.map(cellToString), rows: rows.map(row => row.map(cellToString)) };
+  }
+  if (data.every(item => item && typeof item === 'object')) {
+    const records = data as Record<string, unknown>[];
+    // Union of keys in first-seen order, so sparse records keep their columns
+    const headers = [...new Set(records.flatMap(record => Object.keys(record)))];
+    return { headers, rows: records.map(record => headers.map(key => cellToString(record[key]))) };
+  }
+  throw new Error("JSON must be an array of objects or an array of rows.");
+};
+
+export const parseDataTable = (text: string, fileName?: string): ReferenceMaterial => {
+  const format = detectFormat(text, fileName);
+  const parsed = format === 'json'
+    ? parseJsonTable(text)
+    : (() => {
+        const [headers = [], ...rows] = parseDelimitedRows(text, format === 'tsv' ? '\t' : ',');
+        return { headers, rows, title: undefined, subhead: undefined };
+      })();
+
+  const headers = parsed.headers.map(header => header.trim());
+  if (headers.length === 0 || headers.every(header => !header)) throw new Error("The data has no header row.");
+  if (parsed.rows.length === 0) throw new Error("The data has a header but no rows.");
+
+  // Every row gets exactly one cell per header
+  const rows = parsed.rows.map(row => headers.map((_, idx) => (row[idx] ?? '').trim()));
+  const title = parsed.title ?? fileName?.replace(/\.[^.]+$/, '') ?? 'Imported data';
+
+  return { title, subhead: parsed.subhead ?? '', headers, rows, source: fileName ?? 'pasted data' };
+};
+
+// The most specific type every non-empty cell of a column matches
+export const detectColumnTypes = ({ headers, rows }: ReferenceMaterial): ColumnType[] =>
+  headers.map((_, col) => {
+    const cells = rows.map(row => normalizeCell(row[col] ?? '')).filter(Boolean);
+    if (cells.length === 0) return 'text';
+    return COLUMN_PATTERNS.find(([, pattern]) => cells.every(cell => pattern.test(cell)))?.[0] ?? 'text';
+  });
+
+// Numeric value of a cell or overlay value, ignoring separators, currency and common units
+const toComparableNumber = (value: string) => {
+  const match = value.match(/^[¥$]?([-+]?[\d,]+(?:\.\d+)?)\s*(?:%|円|倍|番|着|頭|人|秒|位)?$/);
+  return match ? Number(match[1].replace(/,/g, '')) : undefined;
+};
+
+const comparable = (value: string) => normalizeCell(value).replace(/\s+/g, '');
+
+// Lookup of every cell and header of the table
+export const createValueIndex = ({ headers, rows }: ReferenceMaterial) => {
+  const cells = [...headers, ...rows.flat()].map(comparable).filter(Boolean);
+  const texts = new Set(cells);
+  const numbers = new Set(cells.map(toComparableNumber).filter((n): n is number => n !== undefined));
+  return (value: string) => {
+    const key = comparable(value);
+    if (!key || texts.has(key)) return true;
+    const number = toComparableNumber(key);
+    return number !== undefined && numbers.has(number);
+  };
+};
+
+// Table as TSV for the script prompt
+export const formatTableForPrompt = ({ headers, rows }: ReferenceMaterial) => {
+  const clean = (cell: string) => cell.replace(/[\t\r\n]+/g, ' ');
+  const lines = [headers, ...rows.slice(0, MAX_PROMPT_ROWS)].map(row => row.map(clean).join('\t'));
+  if (rows.length > MAX_PROMPT_ROWS) lines.push(`(${rows.length - MAX_PROMPT_ROWS} more rows omitted)`);
+  return lines.join('\n');
+};
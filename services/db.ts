@@ -0,0 +1,63 @@
+// Shared IndexedDB connection for everything the app persists locally.
+// Bump DB_VERSION and extend the upgrade handler when adding a new store.
+
+const DB_NAME = 'ai-podcast-director';
+const DB_VERSION = 3;
+
+export const STORES = {
+  projects: 'projects',       // ProjectRecord, keyed by id
+  projectAudio: 'projectAudio', // { id, clips: (Blob | null)[], music?: Blob | null }, one entry per project
+  ttsCache: 'ttsCache',       // TtsCacheEntry, keyed by content hash
+  assets: 'assets',           // AssetRecord (background library), keyed by id
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.projects)) {
+          db.createObjectStore(STORES.projects, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.projectAudio)) {
+          db.createObjectStore(STORES.projectAudio, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.ttsCache)) {
+          db.createObjectStore(STORES.ttsCache, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(STORES.assets)) {
+          db.createObjectStore(STORES.assets, { keyPath: 'id' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a later retry
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
@@ -1,10 +1,38 @@
 
 import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { VideoScript, Scene } from "../types";
+import { VideoScript, CastMember, ReferenceMaterial, ScriptGenerationOptions, ScriptProvider, SpeechEngine, SpeechRequest, SynthesizedSpeech } from "../types";
+import { PREBUILT_VOICES, buildCastInstruction, formatCastNames, formatPrefixOptions, stripBulletBeforePrefix } from "./cast";
+import { base64ToBytes, pcm16ToWavBlob } from "./wav";
+import { normalizePhoneticDialogue } from "./readingNormalizer";
+import { buildLexiconInstruction } from "./lexicon";
+import { formatTableForPrompt } from "./dataImport";
+import { resolveSceneCharts } from "./charts";
+import { LAYOUT_IDS, buildLayoutInstruction } from "./layouts";
 
-const genAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const DEFAULT_SCRIPT_MODEL = "gemini-2.5-flash";
 
-const SCHEMA = {
+// Created on first use so the app (and the offline providers) load without an API key
+let genAI: GoogleGenAI | null = null;
+
+export const hasGeminiApiKey = () => !!process.env.API_KEY;
+
+const getGenAI = (): GoogleGenAI => {
+  if (!hasGeminiApiKey()) {
+    throw new Error("GEMINI_API_KEY is not set. Add it to .env.local or switch to an offline provider.");
+  }
+  if (!genAI) {
+    genAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return genAI;
+};
+
+const COMPARISON_SIDE_PROPERTIES = {
+  label: { type: Type.STRING },
+  value: { type: Type.STRING },
+  note: { type: Type.STRING },
+};
+
+const buildSchema = (cast: CastMember[]) => ({
   type: Type.OBJECT,
   properties: {
     topic: {
@@ -47,13 +75,24 @@ const SCHEMA = {
               title: { type: Type.STRING, description: "Slide Title (e.g., 'Step 1' or 'Category A')." },
               subhead: { type: Type.STRING, description: "Slide Subhead." },
               headers: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Relevant headers for this specific slide." },
-              row: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The specific data values for this slide." }
+              row: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The specific data values for this slide." },
+              chart: {
+                type: Type.OBJECT,
+                description: "Optional animated chart drawn from referenceMaterial rows instead of the header/value grid.",
+                properties: {
+                  type: { type: Type.STRING, enum: ["none", "bar", "line", "pie", "ranking", "counter"] },
+                  labelHeader: { type: Type.STRING, description: "referenceMaterial header whose cells name each bar/point." },
+                  valueHeaders: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Numeric referenceMaterial headers to plot (1-4)." },
+                  rowIndices: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "0-based referenceMaterial row indices to plot, in display order." }
+                },
+                required: ["type"]
+              }
             },
             required: ["title", "headers", "row"]
           },
           dialogue: {
             type: Type.STRING,
-            description: "The SPEAKER NOTES (Audio Script). Format: 'じぇんば: [text]' or 'あいば: [text]'.",
+            description: `The SPEAKER NOTES (Audio Script). Format: ${cast.map(m => `'${m.displayName}: [text]'`).join(' or ')}.`,
           },
           phoneticDialogue: {
             type: Type.STRING,
@@ -65,7 +104,7 @@ const SCHEMA = {
           },
           keyword: {
             type: Type.STRING,
-            description: "English keyword for stock photo.",
+            description: "Lowercase English keyword for the background, matched against asset library tags.",
           },
           durationInSeconds: {
             type: Type.NUMBER,
@@ -75,6 +114,30 @@ const SCHEMA = {
             type: Type.STRING,
             description: "Hex color code.",
           },
+          layout: {
+            type: Type.STRING,
+            enum: LAYOUT_IDS,
+            description: "Screen template for this scene.",
+          },
+          layoutProps: {
+            type: Type.OBJECT,
+            description: "Content for the chosen layout. Fields of other layouts are left out.",
+            properties: {
+              value: { type: Type.STRING, description: "big-stat: the headline number, e.g. '2.5倍'." },
+              label: { type: Type.STRING, description: "big-stat: what the number measures." },
+              left: { type: Type.OBJECT, properties: COMPARISON_SIDE_PROPERTIES, required: ["label", "value"], description: "comparison: left item." },
+              right: { type: Type.OBJECT, properties: COMPARISON_SIDE_PROPERTIES, required: ["label", "value"], description: "comparison: right item." },
+              items: {
+                type: Type.ARRAY,
+                description: "ranked-list: entries, best first (max 8).",
+                items: { type: Type.OBJECT, properties: { label: { type: Type.STRING }, value: { type: Type.STRING } }, required: ["label"] },
+              },
+              quote: { type: Type.STRING, description: "quote: the key sentence." },
+              attribution: { type: Type.STRING, description: "quote: who said it." },
+              caption: { type: Type.STRING, description: "full-bleed: caption over the image." },
+              kicker: { type: Type.STRING, description: "title-card: short line above the title, e.g. '第3回'." },
+            },
+          },
         },
         required: ["dataOverlay", "dialogue", "phoneticDialogue", "visualDescription", "keyword", "durationInSeconds", "backgroundColor"],
       },
@@ -85,127 +148,109 @@ const SCHEMA = {
     },
   },
   required: ["topic", "scenes", "totalDurationInSeconds", "referenceMaterial"],
-};
-
-// Helper to convert Base64 PCM to a WAV Blob URL
-const pcmToWav = (base64Pcm: string, sampleRate = 24000): string => {
-  const binaryString = atob(base64Pcm);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-
-  const dataLength = bytes.length;
-  const buffer = new ArrayBuffer(44 + dataLength);
-  const view = new DataView(buffer);
+});
 
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + dataLength, true);
-  writeString(view, 8, 'WAVE');
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
-  view.setUint16(22, 1, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * 2, true);
-  view.setUint16(32, 2, true);
-  view.setUint16(34, 16, true);
-  writeString(view, 36, 'data');
-  view.setUint32(40, dataLength, true);
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const TTS_SAMPLE_RATE = 24000; // Gemini TTS returns base64 24 kHz 16-bit mono PCM
 
-  const wavBytes = new Uint8Array(buffer);
-  wavBytes.set(bytes, 44);
-
-  const blob = new Blob([buffer], { type: 'audio/wav' });
-  return URL.createObjectURL(blob);
-};
-
-const writeString = (view: DataView, offset: number, string: string) => {
-  for (let i = 0; i < string.length; i++) {
-    view.setUint8(offset + i, string.charCodeAt(i));
-  }
-};
-
-export const generateSpeech = async (text: string): Promise<{ audioUrl: string; duration: number } | null> => {
-  try {
-    // Ensure the text has the correct context for the model
-    const prompt = `
+const synthesizeWithGemini = async ({ text, speaker, cast, voices, signal }: SpeechRequest): Promise<SynthesizedSpeech> => {
+  // Ensure the text has the correct context for the model
+  const prompt = `
       Generate audio for the following dialogue. 
       Strictly adhere to the speaker definitions:
-      - "じぇんば" (Jenba) -> Charon (Energetic, Host)
-      - "あいば" (Aiba) -> Kore (Calm, Analyst)
+${cast.map(m => `      - "${m.displayName}" (${m.romanizedName}) -> ${voices[m.id]} (${m.role})`).join('\n')}
       
       Input text (Hiragana preferred for intonation):
       ${text}
     `;
 
-    const response = await genAI.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: {
-        parts: [{ text: prompt }],
-      },
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          multiSpeakerVoiceConfig: {
-            speakerVoiceConfigs: [
-              {
-                speaker: 'じぇんば',
-                voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Charon' } }
-              },
-              {
-                speaker: 'あいば',
-                voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-              }
-            ]
-          }
-        },
-      },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    
-    if (!base64Audio) return null;
+  // Multi-speaker mode takes exactly two speakers; other cast sizes voice the scene's speaker directly
+  const speechConfig = cast.length === 2
+    ? {
+        multiSpeakerVoiceConfig: {
+          speakerVoiceConfigs: cast.map(m => ({
+            speaker: m.displayName,
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: voices[m.id] } }
+          }))
+        }
+      }
+    : { voiceConfig: { prebuiltVoiceConfig: { voiceName: voices[speaker.id] } } };
 
-    const byteLength = atob(base64Audio).length;
-    const duration = byteLength / (24000 * 2 * 1);
-    const audioUrl = pcmToWav(base64Audio, 24000);
-    return { audioUrl, duration };
+  const response = await getGenAI().models.generateContent({
+    model: TTS_MODEL,
+    contents: {
+      parts: [{ text: prompt }],
+    },
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig,
+      abortSignal: signal,
+    },
+  });
 
-  } catch (e) {
-    console.error("TTS Error", e);
-    return null;
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) {
+    throw new Error("Gemini returned no audio.");
   }
+
+  const pcm = base64ToBytes(base64Audio);
+  return {
+    audio: pcm16ToWavBlob(pcm, TTS_SAMPLE_RATE),
+    duration: pcm.byteLength / (TTS_SAMPLE_RATE * 2 * 1),
+    sampleRate: TTS_SAMPLE_RATE,
+  };
+};
+
+export const geminiSpeechEngine: SpeechEngine = {
+  id: 'gemini',
+  label: 'Gemini TTS',
+  model: TTS_MODEL,
+  requiresApiKey: true,
+  voices: PREBUILT_VOICES,
+  defaultVoice: (member) => member.voiceName,
+  synthesize: synthesizeWithGemini,
+};
+
+// Prompt section that pins the script to an imported table
+const buildReferenceDataInstruction = (referenceData?: ReferenceMaterial) => {
+  if (!referenceData) return '';
+  return `
+      *** GROUND TRUTH DATA (IMPORTED) ***
+      The table below is real data from "${referenceData.title}". It is the ONLY source of facts and figures.
+      1. Use it as 'referenceMaterial' unchanged.
+      2. Every value in a scene's 'dataOverlay.row' MUST be copied verbatim from a cell of this table. Do not invent, round or recompute numbers.
+      3. If the table does not contain a figure, do not mention it in the dialogue either.
+${formatTableForPrompt(referenceData)}
+`;
 };
 
 // STEP 1: Generate Script Only
-export const generateScript = async (prompt: string): Promise<VideoScript> => {
+export const generateScript = async (
+  prompt: string,
+  { cast, lexicon = [], referenceData, model = DEFAULT_SCRIPT_MODEL, temperature = 0.7 }: ScriptGenerationOptions
+): Promise<VideoScript> => {
   try {
-    const scriptModel = "gemini-2.5-flash";
+    const { roles, turnRule, introRule } = buildCastInstruction(cast);
     const systemInstruction = `
-      You are an expert podcast and video creator. You generate scripts for a duo: "じぇんば" (Jenba) and "あいば" (Aiba).
+      You are an expert podcast and video creator. You generate scripts for ${cast.length === 1 ? 'a solo host' : `a cast of ${cast.length}`}: ${formatCastNames(cast)}.
 
       *** SPEAKER ROLES ***
-      1. "じぇんば" (Jenba):
-         - Role: Host / MC.
-         - Personality: Energetic, enthusiastic. Talks about the "fun" and "excitement" (e.g., the thrill of horse racing).
-         - Tone: Lively.
-
-      2. "あいば" (Aiba):
-         - Role: Analyst / Expert.
-         - Personality: Calm, logical, intellectual. Focuses on "data", "analysis", and "probabilities".
-         - Tone: Composed.
+${roles}
 
       *** DIALOGUE RULES (CRITICAL) ***
-      1. ALTERNATE SPEAKERS: Never have the same person speak two scenes in a row. (Jenba -> Aiba -> Jenba -> Aiba).
+      ${turnRule}
       2. NO SIMULTANEOUS SPEECH: Do not create parts where they speak at the same time.
-      3. SELF-INTRODUCTIONS: If they introduce themselves, ensure Jenba says "Jenba" and Aiba says "Aiba". Do not mix them up.
+      ${introRule}
       4. NO STAGE DIRECTIONS: Do not include text like (BGM), (Music start), (Laughs) in the dialogue fields. Only spoken words.
 
       *** VISUAL OUTPUT RULES ***
       - The screen must display STRUCTURED DATA (Title, Subhead, Headers, Row Values) that matches what they are discussing.
       - Do not put the conversation text on the screen dataOverlay. The screen is for facts/data.
+      - CHARTS: When a scene compares numbers across several referenceMaterial rows, set 'dataOverlay.chart'.
+        Use "bar" to compare items (odds, votes, prize money), "line" for a trend over ordered rows (years, races, laps),
+        "pie" for shares of a whole in one column (vote share, win share by post position, at most 8 rows),
+        "ranking" to order items by one column from highest to lowest (prize money, win rate),
+        "counter" for one or two headline numbers, and "none" when a plain table reads better. Keep charts to at most 12 rows.
 
       *** PHONETIC DIALOGUE (phoneticDialogue) RULES - STRICT ***
       The 'phoneticDialogue' field is used for Text-to-Speech generation. You MUST follow these formatting rules:
@@ -214,22 +259,22 @@ export const generateScript = async (prompt: string): Promise<VideoScript> => {
       3. BUNSETSU SPACING: Insert a half-width space ( ) between every phrase/bunsetsu to ensure natural pauses and rhythm.
          - Bad: "きょうはいいてんきですね"
          - Good: "きょう は いい てんき です ね"
-      4. SPEAKER PREFIX: Must start with "じぇんば:" or "あいば:".
-
+      4. SPEAKER PREFIX: Must start with ${formatPrefixOptions(cast)}.
+${buildLayoutInstruction()}${buildLexiconInstruction(lexicon)}${buildReferenceDataInstruction(referenceData)}
       Requirements:
       1. Create 'referenceMaterial' (the full dataset).
       2. Create 'scenes'. 
       3. Fill 'phoneticDialogue' strictly according to the rules above.
     `;
 
-    const result = await genAI.models.generateContent({
-      model: scriptModel,
+    const result = await getGenAI().models.generateContent({
+      model,
       contents: prompt,
       config: {
         systemInstruction,
         responseMimeType: "application/json",
-        responseSchema: SCHEMA,
-        temperature: 0.7,
+        responseSchema: buildSchema(cast),
+        temperature,
       }
     });
 
@@ -240,12 +285,20 @@ export const generateScript = async (prompt: string): Promise<VideoScript> => {
 
     const data = JSON.parse(text) as VideoScript;
 
+    // The imported table stays authoritative whatever the model echoed back
+    if (referenceData) data.referenceMaterial = referenceData;
+    const charted = resolveSceneCharts(data);
+
     // Clean up phoneticDialogue for initial display
-    // This removes Markdown artifacts so the user sees clean text in the editor
-    data.scenes = data.scenes.map(scene => {
-        let cleanText = scene.phoneticDialogue || scene.dialogue || "";
-        cleanText = cleanText.replace(/^[\s\*\-\d\.]+(?=(じぇんば|あいば)[:：])/, '');
-        return { ...scene, phoneticDialogue: cleanText };
+    // This removes Markdown artifacts so the user sees clean text in the editor,
+    // and replaces the model's number readings with deterministic ones
+    data.scenes = charted.scenes.map(scene => {
+        const cleanText = stripBulletBeforePrefix(scene.phoneticDialogue || scene.dialogue || "", cast);
+        return {
+          ...scene,
+          phoneticDialogue: normalizePhoneticDialogue(cleanText, cast),
+          layout: LAYOUT_IDS.includes(scene.layout) ? scene.layout : undefined,
+        };
     });
 
     return data;
@@ -256,62 +309,9 @@ export const generateScript = async (prompt: string): Promise<VideoScript> => {
   }
 };
 
-// STEP 2: Generate Audio & Link to Script
-export const addAudioToScript = async (
-  currentScript: VideoScript, 
-  onProgress?: (completed: number, total: number) => void
-): Promise<VideoScript> => {
-    const scenesWithAudio: Scene[] = [];
-    const totalScenes = currentScript.scenes.length;
-    
-    for (let i = 0; i < totalScenes; i++) {
-      const scene = currentScript.scenes[i];
-      let textToSpeak = scene.phoneticDialogue || scene.dialogue || "じぇんば: ...";
-
-      // 1. Clean up potential markdown bullets (e.g., "* じぇんば:", "1. じぇんば:")
-      // Duplicate check here to be safe if user edited it weirdly
-      textToSpeak = textToSpeak.replace(/^[\s\*\-\d\.]+(?=(じぇんば|あいば)[:：])/, '');
-
-      // 2. Normalize speaker prefix
-      const speakerRegex = /^(じぇんば|あいば)[:：]/;
-      
-      if (!speakerRegex.test(textToSpeak)) {
-         // Attempt to infer from dialogue or default to Jenba
-         const dialogueMatch = scene.dialogue.match(speakerRegex);
-         if (dialogueMatch) {
-           textToSpeak = `${dialogueMatch[1]}: ${textToSpeak}`;
-         } else {
-           textToSpeak = `じぇんば: ${textToSpeak}`;
-         }
-      }
-
-      const audioResult = await generateSpeech(textToSpeak);
-      
-      if (audioResult) {
-        // Add 0.6s buffer: 0.5s covers the visual transition, 0.1s is pure silence buffer
-        const audioDuration = audioResult.duration + 0.6;
-        const finalDuration = Math.max(scene.durationInSeconds, audioDuration);
-        
-        scenesWithAudio.push({
-          ...scene,
-          phoneticDialogue: textToSpeak, // Save the properly prefixed version
-          audioUrl: audioResult.audioUrl,
-          durationInSeconds: finalDuration
-        });
-      } else {
-        // If audio generation fails, keep original scene without audioUrl
-        console.warn("Audio generation failed for scene:", textToSpeak);
-        scenesWithAudio.push(scene);
-      }
-
-      if (onProgress) onProgress(i + 1, totalScenes);
-    }
-
-    const totalDuration = scenesWithAudio.reduce((acc, s) => acc + s.durationInSeconds, 0);
-
-    return {
-      ...currentScript,
-      scenes: scenesWithAudio,
-      totalDurationInSeconds: Math.ceil(totalDuration)
-    };
+export const geminiScriptProvider: ScriptProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  requiresApiKey: true,
+  generateScript,
 };
@@ -0,0 +1,81 @@
+import { VideoScript } from "../types";
+import { withSceneIds } from "./scenes";
+
+// Undo/redo for the open script. Every edit is recorded as a labelled snapshot; scripts are
+// immutable and edits copy only what they touch, so snapshots share most of their data.
+// Snapshots keep their audioUrl, so undoing a regenerate brings the previous take back
+// without another TTS call (blob URLs are never revoked while the page is open).
+
+const MAX_HISTORY_ENTRIES = 100;
+// Consecutive edits with the same key this close together become one entry (e.g. typing)
+const COALESCE_WINDOW_MS = 1500;
+
+export interface HistoryEntry {
+  label: string;
+  script: VideoScript;
+  at: number;
+  coalesceKey?: string;
+}
+
+export interface ScriptHistory {
+  entries: HistoryEntry[];
+  index: number; // Entry shown now; -1 when no script is open
+}
+
+export type ScriptUpdate = VideoScript | ((prev: VideoScript) => VideoScript);
+
+export type HistoryAction =
+  | { type: 'reset'; script: VideoScript | null; label?: string; at: number }
+  | { type: 'commit'; update: ScriptUpdate; label: string; coalesceKey?: string; at: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'jump'; index: number };
+
+export const EMPTY_HISTORY: ScriptHistory = { entries: [], index: -1 };
+
+export const getPresentScript = (history: ScriptHistory): VideoScript | null =>
+  history.entries[history.index]?.script ?? null;
+
+export const canUndo = (history: ScriptHistory) => history.index > 0;
+export const canRedo = (history: ScriptHistory) => history.index < history.entries.length - 1;
+
+export const historyReducer = (history: ScriptHistory, action: HistoryAction): ScriptHistory => {
+  switch (action.type) {
+    case 'reset':
+      return action.script
+        ? { entries: [{ label: action.label ?? 'Open script', script: withSceneIds(action.script), at: action.at }], index: 0 }
+        : EMPTY_HISTORY;
+
+    case 'commit': {
+      const present = history.entries[history.index];
+      if (!present) return history; // Nothing to edit
+      const script = withSceneIds(typeof action.update === 'function' ? action.update(present.script) : action.update);
+      if (script === present.script) return history;
+
+      const entry: HistoryEntry = { label: action.label, script, at: action.at, coalesceKey: action.coalesceKey };
+      // Redo entries are dropped by a new edit
+      const kept = history.entries.slice(0, history.index + 1);
+
+      const coalesce = action.coalesceKey !== undefined
+        && present.coalesceKey === action.coalesceKey
+        && history.index > 0
+        && action.at - present.at < COALESCE_WINDOW_MS;
+      if (coalesce) {
+        kept[kept.length - 1] = entry;
+        return { entries: kept, index: kept.length - 1 };
+      }
+
+      const entries = [...kept, entry].slice(-MAX_HISTORY_ENTRIES);
+      return { entries, index: entries.length - 1 };
+    }
+
+    case 'undo':
+      return canUndo(history) ? { ...history, index: history.index - 1 } : history;
+
+    case 'redo':
+      return canRedo(history) ? { ...history, index: history.index + 1 } : history;
+
+    case 'jump':
+      return action.index >= 0 && action.index < history.entries.length ? { ...history, index: action.index } : history;
+  }
+};
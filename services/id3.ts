@@ -0,0 +1,106 @@
+import { Chapter } from "./chapters";
+
+// ID3v2.3 tag writer for the podcast export. v2.3 rather than v2.4 because it is what podcast
+// apps read most reliably; text frames are UTF-16 so Japanese titles survive.
+// Chapters follow the ID3v2 Chapter Frame Addendum (CHAP per chapter, one ordered CTOC).
+
+export interface Id3Picture {
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface Id3Tags {
+  title: string;
+  album?: string;
+  trackNumber?: number;
+  genre?: string;
+  durationMs: number;
+  cover?: Id3Picture;
+  chapters: Chapter[];
+}
+
+const TEXT_ENCODING_UTF16 = 1;
+const PICTURE_TYPE_FRONT_COVER = 3;
+const CTOC_TOP_LEVEL_ORDERED = 0x03;
+const NO_BYTE_OFFSET = 0xffffffff;
+// CTOC stores its entry count in one byte
+export const MAX_ID3_CHAPTERS = 255;
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => { out.set(part, offset); offset += part.length; });
+  return out;
+};
+
+const latin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+
+const uint32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+// Tag sizes in the header are 4 × 7 bits so they never look like an MPEG sync word
+const syncsafe = (value: number) => Uint8Array.of((value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f);
+
+// BOM plus UTF-16LE code units
+const utf16 = (text: string) => {
+  const bytes = new Uint8Array(2 + text.length * 2);
+  bytes[0] = 0xff;
+  bytes[1] = 0xfe;
+  for (let i = 0; i < text.length; i++) {
+    bytes[2 + i * 2] = text.charCodeAt(i) & 0xff;
+    bytes[3 + i * 2] = text.charCodeAt(i) >> 8;
+  }
+  return bytes;
+};
+
+// v2.3 frame sizes are plain 32-bit integers
+const frame = (id: string, body: Uint8Array) => concat([latin1(id), uint32(body.length), new Uint8Array(2), body]);
+
+const textFrame = (id: string, text: string) => frame(id, concat([Uint8Array.of(TEXT_ENCODING_UTF16), utf16(text)]));
+
+const pictureFrame = ({ mimeType, data }: Id3Picture) => frame('APIC', concat([
+  Uint8Array.of(TEXT_ENCODING_UTF16),
+  latin1(mimeType), Uint8Array.of(0),
+  Uint8Array.of(PICTURE_TYPE_FRONT_COVER),
+  utf16(''), Uint8Array.of(0, 0), // Empty description
+  data,
+]));
+
+const chapterId = (idx: number) => `chp${idx}`;
+
+const chapterFrame = (chapter: Chapter, idx: number) => frame('CHAP', concat([
+  latin1(chapterId(idx)), Uint8Array.of(0),
+  uint32(Math.round(chapter.startSeconds * 1000)),
+  uint32(Math.round(chapter.endSeconds * 1000)),
+  uint32(NO_BYTE_OFFSET),
+  uint32(NO_BYTE_OFFSET),
+  textFrame('TIT2', chapter.title),
+]));
+
+const tableOfContentsFrame = (count: number) => frame('CTOC', concat([
+  latin1('toc'), Uint8Array.of(0),
+  Uint8Array.of(CTOC_TOP_LEVEL_ORDERED, count),
+  ...Array.from({ length: count }, (_, idx) => concat([latin1(chapterId(idx)), Uint8Array.of(0)])),
+]));
+
+export const buildId3Tag = (tags: Id3Tags): Uint8Array => {
+  if (tags.chapters.length > MAX_ID3_CHAPTERS) {
+    throw new Error(`Too many chapters for an ID3 table of contents (max ${MAX_ID3_CHAPTERS}).`);
+  }
+  const frames = [
+    textFrame('TIT2', tags.title),
+    tags.album ? textFrame('TALB', tags.album) : undefined,
+    tags.trackNumber !== undefined ? textFrame('TRCK', String(tags.trackNumber)) : undefined,
+    tags.genre ? textFrame('TCON', tags.genre) : undefined,
+    textFrame('TLEN', String(Math.round(tags.durationMs))),
+    tags.cover ? pictureFrame(tags.cover) : undefined,
+    tags.chapters.length > 0 ? tableOfContentsFrame(tags.chapters.length) : undefined,
+    ...tags.chapters.map(chapterFrame),
+  ].filter((f): f is Uint8Array => !!f);
+
+  const body = concat(frames);
+  return concat([latin1('ID3'), Uint8Array.of(3, 0, 0), syncsafe(body.length), body]);
+};
@@ -0,0 +1,107 @@
+// Small promise pool with retries, used for batch TTS.
+
+// How a failed attempt should be treated
+export type FailureKind =
+  | 'rate-limit' // Retry after a longer pause
+  | 'transient' // Network or server hiccup, retry soon
+  | 'invalid-input' // Retrying cannot help
+  | 'cancelled';
+
+export class JobError extends Error {
+  constructor(message: string, readonly kind: FailureKind, readonly attempts: number) {
+    super(message);
+    this.name = 'JobError';
+  }
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  classify: (error: unknown) => FailureKind;
+  signal?: AbortSignal;
+}
+
+const BASE_DELAY_MS: Record<'rate-limit' | 'transient', number> = {
+  'rate-limit': 4000,
+  transient: 1000,
+};
+const MAX_DELAY_MS = 30000;
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Resolves after ms, or rejects with an AbortError as soon as the signal fires
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Exponential backoff with jitter. Failures the classifier marks as invalid input are not retried.
+export const withRetry = async <T,>(task: () => Promise<T>, { maxRetries, classify, signal }: RetryOptions): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      signal?.throwIfAborted();
+      return await task();
+    } catch (error) {
+      const kind = signal?.aborted || isAbortError(error) ? 'cancelled' : classify(error);
+      const message = error instanceof Error ? error.message : String(error);
+      if (kind === 'cancelled' || kind === 'invalid-input' || attempt > maxRetries) {
+        throw new JobError(message, kind, attempt);
+      }
+
+      const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS[kind] * 2 ** (attempt - 1));
+      console.warn(`Attempt ${attempt} failed (${kind}), retrying in ${Math.round(delay)}ms:`, message);
+      try {
+        await sleep(delay * (0.75 + Math.random() * 0.5), signal);
+      } catch {
+        throw new JobError(message, 'cancelled', attempt);
+      }
+    }
+  }
+};
+
+export interface PoolResult<R> {
+  ok: boolean;
+  value?: R; // Set when ok
+  error?: unknown; // Set when not ok
+}
+
+// Runs worker over items with at most `concurrency` in flight. Never rejects: each
+// result is either the value or the error. Items not started before an abort are
+// reported as cancelled.
+export const runPool = async <T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  { concurrency, signal, onSettled }: { concurrency: number; signal?: AbortSignal; onSettled?: (done: number, total: number) => void }
+): Promise<PoolResult<R>[]> => {
+  const results: PoolResult<R>[] = new Array(items.length);
+  let next = 0;
+  let done = 0;
+
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      if (signal?.aborted) {
+        results[index] = { ok: false, error: new JobError('Cancelled before it started.', 'cancelled', 0) };
+      } else {
+        try {
+          results[index] = { ok: true, value: await worker(items[index], index) };
+        } catch (error) {
+          results[index] = { ok: false, error };
+        }
+      }
+      onSettled?.(++done, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+  return results;
+};
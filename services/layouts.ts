@@ -0,0 +1,76 @@
+import { CastMember, LayoutId, LayoutProps, RankedItem, Scene } from "../types";
+import { getSpeaker, stripSpeakerPrefix } from "./cast";
+
+// Registry of scene layouts. The renderer looks up the component by id; this module holds
+// what the editor, the script prompt and the shared scene frame need to know about each one.
+
+export interface LayoutDefinition {
+  id: LayoutId;
+  label: string;
+  description: string; // Shown in the editor and given to the script model
+  showHeader: boolean; // Overlay title/subhead band above the content
+  clearBackground: boolean; // Background image shown sharp instead of blurred behind the content
+}
+
+export const LAYOUTS: LayoutDefinition[] = [
+  { id: 'data-grid', label: 'Data grid', description: 'Header/value table or chart of the overlay data', showHeader: true, clearBackground: false },
+  { id: 'big-stat', label: 'Big statistic', description: 'One headline number with a short label', showHeader: true, clearBackground: false },
+  { id: 'comparison', label: 'Comparison', description: 'Two items side by side, e.g. two horses or two years', showHeader: true, clearBackground: false },
+  { id: 'ranked-list', label: 'Ranked list', description: 'Top-N ranking, best first', showHeader: true, clearBackground: false },
+  { id: 'quote', label: 'Quote / takeaway', description: 'A key sentence or quote in large type', showHeader: false, clearBackground: false },
+  { id: 'full-bleed', label: 'Full-bleed image', description: 'Background image with a caption, no data card', showHeader: false, clearBackground: true },
+  { id: 'title-card', label: 'Title card', description: 'Intro or outro card with the episode or section title', showHeader: false, clearBackground: false },
+];
+
+export const DEFAULT_LAYOUT: LayoutId = 'data-grid';
+
+export const LAYOUT_IDS: LayoutId[] = LAYOUTS.map(layout => layout.id);
+
+// Ranked lists longer than this do not fit a 16:9 frame
+export const MAX_RANKED_ITEMS = 8;
+
+export const getLayout = (id?: LayoutId): LayoutDefinition =>
+  LAYOUTS.find(layout => layout.id === id) ?? LAYOUTS[0];
+
+// Content a layout falls back to when its props are not filled in, so switching layouts
+// in the editor shows the scene's data instead of an empty frame
+const deriveLayoutProps = (scene: Scene, cast: CastMember[]): LayoutProps => {
+  const { title, subhead, headers, row } = scene.dataOverlay;
+  switch (scene.layout) {
+    case 'big-stat':
+      return { value: row[0] ?? '', label: headers[0] ?? '' };
+    case 'comparison':
+      return {
+        left: { label: headers[0] ?? '', value: row[0] ?? '' },
+        right: { label: headers[1] ?? '', value: row[1] ?? '' },
+      };
+    case 'ranked-list':
+      return { items: headers.map((label, idx) => ({ label, value: row[idx] })) };
+    case 'quote':
+      return { quote: stripSpeakerPrefix(scene.dialogue, cast), attribution: getSpeaker(scene.dialogue, cast)?.displayName };
+    case 'full-bleed':
+      return { caption: subhead || title };
+    case 'title-card':
+      return { kicker: '' };
+    default:
+      return {};
+  }
+};
+
+const isFilled = (value: unknown) =>
+  value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+// Props the layout is drawn with: the scene's own layoutProps over the derived defaults
+export const resolveLayoutProps = (scene: Scene, cast: CastMember[]): LayoutProps => {
+  const own = Object.fromEntries(Object.entries(scene.layoutProps ?? {}).filter(([, value]) => isFilled(value)));
+  const props: LayoutProps = { ...deriveLayoutProps(scene, cast), ...own };
+  return props.items ? { ...props, items: props.items.filter((item: RankedItem) => item.label).slice(0, MAX_RANKED_ITEMS) } : props;
+};
+
+// Prompt lines listing the layouts the model may choose from
+export const buildLayoutInstruction = () => `
+      *** SCENE LAYOUTS ***
+      Pick a 'layout' for each scene and fill only the 'layoutProps' fields of that layout:
+${LAYOUTS.map(layout => `      - "${layout.id}": ${layout.description}.`).join('\n')}
+      Use "title-card" for the first and last scene. Vary the layouts; do not use one layout for every scene.
+`;
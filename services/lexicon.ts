@@ -0,0 +1,112 @@
+import { LexiconEntry } from "../types";
+import { parseDelimitedRows, toCsv } from "./csv";
+
+// Pronunciation lexicon: surface forms (horse names, jockeys, venues) replaced by fixed
+// readings in the TTS text. Projects carry their own entries; the global lexicon is shared
+// by every project in this browser and loses to a project entry with the same surface.
+
+const GLOBAL_LEXICON_STORAGE_KEY = 'globalLexicon';
+
+// Hints beyond this are dropped from the script prompt to keep it short
+const MAX_PROMPT_ENTRIES = 200;
+
+export interface LexiconHit {
+  start: number;
+  end: number;
+  entry: LexiconEntry;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Romaji matches regardless of case
+const lookupKey = (surface: string) => surface.trim().toLowerCase();
+
+const usableEntries = (lexicon: LexiconEntry[]) =>
+  lexicon.filter(entry => entry.surface.trim() && entry.reading.trim());
+
+// Later entries win for the same surface
+const toLookup = (lexicon: LexiconEntry[]) =>
+  new Map(usableEntries(lexicon).map(entry => [lookupKey(entry.surface), entry]));
+
+export const mergeLexicons = (project: LexiconEntry[], global: LexiconEntry[]): LexiconEntry[] =>
+  [...toLookup([...global, ...project]).values()];
+
+// Longest surfaces first so "天皇賞(秋)" wins over "天皇賞". Romaji only matches whole
+// words, so "Take" does not hit "mistake".
+const buildMatcher = (lookup: Map<string, LexiconEntry>) => {
+  const surfaces = [...lookup.values()]
+    .map(entry => entry.surface.trim())
+    .sort((a, b) => b.length - a.length)
+    .map(surface => /^[A-Za-z]/.test(surface) ? `(?<![A-Za-z])${escapeRegExp(surface)}(?![A-Za-z])` : escapeRegExp(surface));
+  return surfaces.length ? new RegExp(surfaces.join('|'), 'gi') : null;
+};
+
+export const findLexiconHits = (text: string, lexicon: LexiconEntry[]): LexiconHit[] => {
+  const lookup = toLookup(lexicon);
+  const matcher = buildMatcher(lookup);
+  if (!matcher) return [];
+  return [...text.matchAll(matcher)].map(match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    entry: lookup.get(lookupKey(match[0]))!,
+  }));
+};
+
+export const applyLexicon = (text: string, lexicon: LexiconEntry[]): string => {
+  const lookup = toLookup(lexicon);
+  const matcher = buildMatcher(lookup);
+  return matcher ? text.replace(matcher, match => lookup.get(lookupKey(match))!.reading.trim()) : text;
+};
+
+// Prompt section asking the model to use the lexicon readings in phoneticDialogue
+export const buildLexiconInstruction = (lexicon: LexiconEntry[]) => {
+  const entries = usableEntries(lexicon).slice(0, MAX_PROMPT_ENTRIES);
+  if (entries.length === 0) return '';
+  return `
+      *** PRONUNCIATION LEXICON ***
+      When these terms appear, write them in 'phoneticDialogue' exactly with the given reading:
+${entries.map(entry => `      - ${entry.surface.trim()} -> ${entry.reading.trim()}`).join('\n')}
+`;
+};
+
+// --- Storage ---
+
+export const loadGlobalLexicon = (): LexiconEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GLOBAL_LEXICON_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter(e => typeof e?.surface === 'string' && typeof e?.reading === 'string')
+      : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable global lexicon", e);
+    return [];
+  }
+};
+
+export const saveGlobalLexicon = (lexicon: LexiconEntry[]) =>
+  localStorage.setItem(GLOBAL_LEXICON_STORAGE_KEY, JSON.stringify(lexicon));
+
+// --- CSV ---
+
+const CSV_HEADER = ['surface', 'reading'];
+
+export const lexiconToCsv = (lexicon: LexiconEntry[]) =>
+  toCsv([CSV_HEADER, ...lexicon.map(entry => [entry.surface, entry.reading])]);
+
+// Accepts "surface,reading" rows with an optional header line; extra columns are ignored
+export const parseLexiconCsv = (text: string): LexiconEntry[] => {
+  const rows = parseDelimitedRows(text);
+  if (rows.length && rows[0][0].trim().toLowerCase() === CSV_HEADER[0]) rows.shift();
+  return rows.map((row, idx) => {
+    if (row.length < 2 || !row[0].trim() || !row[1].trim()) {
+      throw new Error(`Lexicon CSV row ${idx + 1} needs a surface and a reading.`);
+    }
+    return { surface: row[0].trim(), reading: row[1].trim() };
+  });
+};
+
+// Imported entries replace existing ones with the same surface
+export const upsertLexiconEntries = (lexicon: LexiconEntry[], entries: LexiconEntry[]): LexiconEntry[] => {
+  const incoming = new Set(entries.map(entry => lookupKey(entry.surface)));
+  return [...lexicon.filter(entry => !incoming.has(lookupKey(entry.surface))), ...entries];
+};
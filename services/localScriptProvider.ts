@@ -0,0 +1,124 @@
+import { VideoScript, CastMember, ScriptGenerationOptions, ScriptProvider } from "../types";
+import { SCRIPT_FIXTURES, ScriptFixture } from "../fixtures/scripts";
+import { buildTimeline } from "./timeline";
+
+// Deterministic, offline script generation for development, demos and regression checks.
+// A prompt that mentions a fixture keyword returns that fixture; anything else is built
+// from a fixed template. The same prompt and cast always produce the same script.
+
+const TEMPLATE_COLORS = ['#7c3aed', '#1d4ed8', '#db2777', '#0f766e', '#ea580c', '#4f46e5'];
+const TEMPLATE_KEYWORDS = ['studio', 'city', 'data', 'nature', 'technology', 'abstract'];
+
+// FNV-1a, enough to spread prompts over the template palettes
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const findFixture = (prompt: string): ScriptFixture | undefined => {
+  const normalized = prompt.toLowerCase();
+  return SCRIPT_FIXTURES.find(f => f.keywords.some(k => normalized.includes(k.toLowerCase())));
+};
+
+const buildTemplateFixture = (prompt: string): ScriptFixture => {
+  const topic = prompt.trim().split('\n')[0].slice(0, 40) || 'テスト回';
+  const seed = hashString(prompt);
+  const pick = <T,>(items: T[], offset: number) => items[(seed + offset) % items.length];
+
+  const points = [
+    { label: 'ポイント1', value: '基本' },
+    { label: 'ポイント2', value: 'データ' },
+    { label: 'ポイント3', value: 'まとめ' },
+  ];
+
+  return {
+    id: 'template',
+    keywords: [],
+    topic,
+    referenceMaterial: {
+      title: topic,
+      subhead: 'オフライン生成 (テンプレート)',
+      headers: ['項目', '内容'],
+      rows: points.map(p => [p.label, p.value]),
+    },
+    scenes: [
+      {
+        speaker: 0,
+        dialogue: `今日のテーマは「${topic}」です！`,
+        phoneticDialogue: 'きょう の てーま は こちら です！',
+        visualDescription: 'Opening title card',
+        keyword: pick(TEMPLATE_KEYWORDS, 0),
+        durationInSeconds: 5,
+        backgroundColor: pick(TEMPLATE_COLORS, 0),
+        dataOverlay: { title: topic, subhead: 'Opening', headers: ['テーマ'], row: [topic] },
+        layout: 'title-card',
+      },
+      ...points.map((point, idx) => ({
+        speaker: idx + 1,
+        dialogue: `${point.label}は「${point.value}」について見ていきましょう。`,
+        phoneticDialogue: `${['ひとつめ', 'ふたつめ', 'みっつめ'][idx]} の ぽいんと を みて いきましょう。`,
+        visualDescription: `Slide for ${point.label}`,
+        keyword: pick(TEMPLATE_KEYWORDS, idx + 1),
+        durationInSeconds: 6,
+        backgroundColor: pick(TEMPLATE_COLORS, idx + 1),
+        dataOverlay: { title: point.label, subhead: topic, headers: ['項目', '内容'], row: [point.label, point.value] },
+      })),
+      {
+        speaker: points.length + 1,
+        dialogue: 'それではまた次回お会いしましょう！',
+        phoneticDialogue: 'それでは また じかい おあい しましょう！',
+        visualDescription: 'Closing title card',
+        keyword: pick(TEMPLATE_KEYWORDS, points.length + 1),
+        durationInSeconds: 5,
+        backgroundColor: pick(TEMPLATE_COLORS, points.length + 1),
+        dataOverlay: { title: 'まとめ', subhead: topic, headers: ['次回'], row: ['お楽しみに'] },
+        layout: 'title-card',
+      },
+    ],
+  };
+};
+
+// Assigns speaker slots to the cast and adds the display-name prefixes
+const castFixture = (fixture: ScriptFixture, cast: CastMember[]): VideoScript => {
+  const scenes = fixture.scenes.map(({ speaker, ...scene }) => {
+    const member = cast[speaker % cast.length];
+    return {
+      ...scene,
+      dataOverlay: { ...scene.dataOverlay, headers: [...scene.dataOverlay.headers], row: [...scene.dataOverlay.row] },
+      dialogue: `${member.displayName}: ${scene.dialogue}`,
+      phoneticDialogue: `${member.displayName}: ${scene.phoneticDialogue}`,
+    };
+  });
+
+  return {
+    topic: fixture.topic,
+    scenes,
+    totalDurationInSeconds: Math.ceil(buildTimeline(scenes).durationInSeconds),
+    referenceMaterial: {
+      ...fixture.referenceMaterial,
+      headers: [...fixture.referenceMaterial.headers],
+      rows: fixture.referenceMaterial.rows.map(row => [...row]),
+    },
+  };
+};
+
+export const generateLocalScript = async (
+  prompt: string,
+  { cast, referenceData }: ScriptGenerationOptions
+): Promise<VideoScript> => {
+  const fixture = findFixture(prompt) ?? buildTemplateFixture(prompt);
+  const script = castFixture(fixture, cast);
+  // Fixture overlays are not rewritten, so the overlay check flags them against imported data
+  return referenceData ? { ...script, referenceMaterial: referenceData } : script;
+};
+
+export const localScriptProvider: ScriptProvider = {
+  id: 'local',
+  label: 'Local fixtures (offline)',
+  requiresApiKey: false,
+  generateScript: generateLocalScript,
+};
@@ -0,0 +1,114 @@
+import { SpeechEngine, SpeechRequest, SynthesizedSpeech } from "../types";
+import { stripSpeakerPrefix } from "./cast";
+import { floatToPcm16, pcm16ToWavBlob } from "./wav";
+
+// Offline stand-in for a real TTS engine. It does not speak: every mora becomes a short
+// pitched tone burst and punctuation becomes silence, so the result has the length and
+// pause structure of real Japanese speech. That is enough to exercise timing, subtitles
+// and exports without network access or an API key.
+
+const SAMPLE_RATE = 24000;
+const MORAE_PER_SECOND = 7.5; // Typical conversational Japanese
+const MORA_SECONDS = 1 / MORAE_PER_SECOND;
+const EDGE_SILENCE_SECONDS = 0.1;
+
+const PAUSE_SECONDS: Record<string, number> = {
+  '、': 0.25, ',': 0.25, '，': 0.25,
+  '。': 0.5, '.': 0.5, '！': 0.5, '!': 0.5, '？': 0.5, '?': 0.5,
+  '…': 0.4, ' ': 0.06, '　': 0.06, '\n': 0.3,
+};
+
+// Base pitch in Hz per voice
+const LOCAL_VOICES: Record<string, number> = {
+  Low: 110,
+  Mid: 150,
+  High: 210,
+  Bright: 260,
+};
+
+const SMALL_KANA = /[ぁぃぅぇぉゃゅょゎァィゥェォャュョヮ]/;
+const KANA = /[ぁ-ゟ゠-ヿ]/;
+const KANJI = /[一-鿿]/;
+const DIGIT = /[0-9０-９]/;
+const LATIN = /[A-Za-zＡ-Ｚａ-ｚ]/;
+
+type Segment = { kind: 'mora'; weight: number } | { kind: 'pause'; seconds: number };
+
+// Rough mora count per character: small kana merge with the previous mora,
+// kanji and digits usually read as two morae, latin letters as about one
+const toSegments = (text: string): Segment[] => {
+  const segments: Segment[] = [];
+  for (const char of text) {
+    if (char in PAUSE_SECONDS) {
+      segments.push({ kind: 'pause', seconds: PAUSE_SECONDS[char] });
+    } else if (SMALL_KANA.test(char)) {
+      continue;
+    } else if (KANA.test(char)) {
+      segments.push({ kind: 'mora', weight: 1 });
+    } else if (KANJI.test(char) || DIGIT.test(char)) {
+      segments.push({ kind: 'mora', weight: 2 });
+    } else if (LATIN.test(char)) {
+      segments.push({ kind: 'mora', weight: 1 });
+    }
+  }
+  return segments;
+};
+
+const estimateSpeechSeconds = (text: string): number =>
+  toSegments(text).reduce((acc, seg) => acc + (seg.kind === 'mora' ? seg.weight * MORA_SECONDS : seg.seconds), 0)
+  + EDGE_SILENCE_SECONDS * 2;
+
+const synthesizeLocally = async ({ text, speaker, cast, voices, signal }: SpeechRequest): Promise<SynthesizedSpeech> => {
+  signal?.throwIfAborted();
+  const spoken = stripSpeakerPrefix(text, cast);
+  const baseFrequency = LOCAL_VOICES[voices[speaker.id]] ?? LOCAL_VOICES.Mid;
+  const segments = toSegments(spoken);
+
+  const totalSeconds = estimateSpeechSeconds(spoken);
+  const samples = new Float32Array(Math.ceil(totalSeconds * SAMPLE_RATE));
+
+  let cursor = Math.floor(EDGE_SILENCE_SECONDS * SAMPLE_RATE);
+  let moraIndex = 0;
+  let noiseState = 1;
+
+  for (const segment of segments) {
+    if (segment.kind === 'pause') {
+      cursor += Math.floor(segment.seconds * SAMPLE_RATE);
+      continue;
+    }
+
+    const length = Math.floor(segment.weight * MORA_SECONDS * SAMPLE_RATE);
+    const voiced = Math.floor(length * 0.8); // Short gap between morae
+    // Gentle pitch movement so consecutive morae do not sound identical
+    const frequency = baseFrequency * (1 + 0.08 * Math.sin(moraIndex * 0.9));
+
+    for (let i = 0; i < voiced && cursor + i < samples.length; i++) {
+      const t = i / SAMPLE_RATE;
+      const envelope = Math.min(1, i / (SAMPLE_RATE * 0.01), (voiced - i) / (SAMPLE_RATE * 0.02));
+      // Deterministic LCG noise keeps identical input producing identical audio
+      noiseState = (Math.imul(noiseState, 1103515245) + 12345) & 0x7fffffff;
+      const noise = (noiseState / 0x7fffffff) * 2 - 1;
+      const tone = Math.sin(2 * Math.PI * frequency * t) + 0.3 * Math.sin(4 * Math.PI * frequency * t);
+      samples[cursor + i] = envelope * (0.25 * tone + 0.04 * noise);
+    }
+
+    cursor += length;
+    moraIndex++;
+  }
+
+  return {
+    audio: pcm16ToWavBlob(floatToPcm16(samples), SAMPLE_RATE),
+    duration: samples.length / SAMPLE_RATE,
+    sampleRate: SAMPLE_RATE,
+  };
+};
+
+export const localSpeechEngine: SpeechEngine = {
+  id: 'local',
+  label: 'Local placeholder (offline)',
+  model: 'tone-burst-v1',
+  requiresApiKey: false,
+  voices: Object.keys(LOCAL_VOICES),
+  defaultVoice: (_member, index) => Object.keys(LOCAL_VOICES)[index % Object.keys(LOCAL_VOICES).length],
+  synthesize: synthesizeLocally,
+};
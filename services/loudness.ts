@@ -0,0 +1,82 @@
+// Integrated loudness after ITU-R BS.1770-4: K-weighting, 400 ms blocks with 75% overlap,
+// an absolute gate at -70 LUFS and a relative gate 10 LU below the ungated level.
+
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number]; // a1, a2 with a0 normalized to 1
+}
+
+// The standard gives the coefficients for 48 kHz only; these are the analog prototypes behind
+// them (as in libebur128), so any sample rate gets the same curve
+const createShelf = (sampleRate: number): Biquad => {
+  const K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  const Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  const a0 = 1 + K / Q + K * K;
+  return {
+    b: [(Vh + Vb * K / Q + K * K) / a0, 2 * (K * K - Vh) / a0, (Vh - Vb * K / Q + K * K) / a0],
+    a: [2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0],
+  };
+};
+
+const createHighpass = (sampleRate: number): Biquad => {
+  const K = Math.tan(Math.PI * 38.13547087613982 / sampleRate);
+  const Q = 0.5003270373238773;
+  const a0 = 1 + K / Q + K * K;
+  return { b: [1, -2, 1], a: [2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0] };
+};
+
+const applyBiquad = (samples: Float32Array, { b, a }: Biquad): Float32Array => {
+  const out = new Float32Array(samples.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    out[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return out;
+};
+
+const kWeight = (samples: Float32Array, sampleRate: number) =>
+  applyBiquad(applyBiquad(samples, createShelf(sampleRate)), createHighpass(sampleRate));
+
+const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+// channels: one array per channel (front left/right/center, all weighted 1).
+// Returns -Infinity for silence.
+export const measureLoudness = (channels: Float32Array[], sampleRate: number): number => {
+  const weighted = channels.map(samples => kWeight(samples, sampleRate));
+  const length = weighted[0]?.length ?? 0;
+  const blockLength = Math.min(length, Math.round(BLOCK_SECONDS * sampleRate)); // Short clips are one block
+  const step = Math.round(STEP_SECONDS * sampleRate);
+  if (blockLength === 0) return -Infinity;
+
+  const blocks: number[] = [];
+  for (let start = 0; start + blockLength <= length; start += step) {
+    let power = 0;
+    weighted.forEach(samples => {
+      let sum = 0;
+      for (let i = start; i < start + blockLength; i++) sum += samples[i] * samples[i];
+      power += sum / blockLength;
+    });
+    blocks.push(power);
+  }
+
+  const gatedMean = (threshold: number) => {
+    const passing = blocks.filter(power => toLufs(power) > threshold);
+    return passing.length ? passing.reduce((acc, power) => acc + power, 0) / passing.length : 0;
+  };
+
+  const ungated = gatedMean(ABSOLUTE_GATE_LUFS);
+  if (ungated === 0) return -Infinity;
+  const relativeGate = Math.max(ABSOLUTE_GATE_LUFS, toLufs(ungated) + RELATIVE_GATE_LU);
+  return toLufs(gatedMean(relativeGate));
+};
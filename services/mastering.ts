@@ -0,0 +1,181 @@
+import { Scene, CastMember, MusicSettings, MasteringSettings, FPS } from "../types";
+import { getSpeaker } from "./cast";
+import { buildTimeline } from "./timeline";
+import { getMusicVolume, getVoiceIntervals } from "./music";
+import { measureLoudness } from "./loudness";
+import { decodePcm16Wav } from "./wav";
+
+// Mastering stage of the audio export. Gains are per scene, so the Remotion preview and the
+// headless render apply exactly the gains of the exported mix; panning and the limiter only
+// exist in the offline mix.
+
+export const LOUDNESS_TARGETS: { label: string; lufs: number }[] = [
+  { label: 'Podcast', lufs: -16 },
+  { label: 'YouTube', lufs: -14 },
+  { label: 'Broadcast (EBU R128)', lufs: -23 },
+];
+
+export const DEFAULT_MASTERING_SETTINGS: MasteringSettings = {
+  normalize: true,
+  targetLufs: -16,
+  limiter: true,
+  ceilingDb: -1,
+  stereo: false,
+  pan: {},
+  bitDepth: 16,
+  sampleRate: 44100,
+};
+
+// Normalization never lifts a near-silent take by more than this
+const MAX_NORMALIZE_GAIN_DB = 18;
+// A mono clip played on both channels measures this much louder (BS.1770 sums channel power)
+const STEREO_LOUDNESS_OFFSET_LU = 10 * Math.log10(2);
+export const MAX_SCENE_GAIN_DB = 12;
+
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.08;
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Gain of a scene's voice clip in dB: loudness normalization plus the manual trim
+export const getSceneGainDb = (scene: Scene, mastering: MasteringSettings) => {
+  const target = mastering.targetLufs - (mastering.stereo ? STEREO_LOUDNESS_OFFSET_LU : 0);
+  const normalization = mastering.normalize && Number.isFinite(scene.audioLoudness)
+    ? Math.min(MAX_NORMALIZE_GAIN_DB, target - scene.audioLoudness!)
+    : 0;
+  return normalization + (scene.gainDb ?? 0);
+};
+
+// -1 (left) … 1 (right); centered in mono exports
+export const getScenePan = (scene: Scene, cast: CastMember[], mastering: MasteringSettings) => {
+  if (!mastering.stereo) return 0;
+  const speaker = getSpeaker(scene.dialogue, cast);
+  return speaker ? mastering.pan[speaker.id] ?? 0 : 0;
+};
+
+// Loudness of a voice clip, or undefined when it is silent or cannot be decoded
+export const measureClipLoudness = async (audio: Blob | string): Promise<number | undefined> => {
+  try {
+    const bytes = typeof audio === 'string' ? await (await fetch(audio)).arrayBuffer() : await audio.arrayBuffer();
+    const wav = decodePcm16Wav(bytes);
+    if (!wav) return undefined;
+    const loudness = measureLoudness([wav.samples], wav.sampleRate);
+    return Number.isFinite(loudness) ? loudness : undefined;
+  } catch (e) {
+    console.warn("Could not measure clip loudness", e);
+    return undefined;
+  }
+};
+
+// Lookahead peak limiter, linked across channels, applied in place. The gain is the minimum
+// required over the lookahead window, smoothed over the same window, so it is already down when
+// a peak arrives and never exceeds what any sample needs.
+export const applyLimiter = (channels: Float32Array[], sampleRate: number, ceilingDb: number) => {
+  const ceiling = dbToGain(ceilingDb);
+  const length = channels[0]?.length ?? 0;
+  const window = Math.max(1, Math.round(LIMITER_LOOKAHEAD_SECONDS * sampleRate));
+  const release = Math.exp(-1 / (LIMITER_RELEASE_SECONDS * sampleRate));
+
+  const required = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    let peak = 0;
+    channels.forEach(samples => { peak = Math.max(peak, Math.abs(samples[i])); });
+    required[i] = peak > ceiling ? ceiling / peak : 1;
+  }
+
+  // Minimum of required[i .. i + window] with a monotonic deque
+  const windowMin = new Float32Array(length);
+  const deque = new Int32Array(length);
+  let head = 0, tail = 0;
+  for (let i = length - 1; i >= 0; i--) {
+    while (tail > head && required[deque[tail - 1]] >= required[i]) tail--;
+    deque[tail++] = i;
+    while (deque[head] > i + window) head++;
+    windowMin[i] = required[deque[head]];
+  }
+
+  let sum = 0;
+  let gain = 1;
+  for (let i = 0; i < length; i++) {
+    sum += windowMin[i] - (i > window ? windowMin[i - window - 1] : 0);
+    const target = sum / (Math.min(i, window) + 1);
+    gain = target < gain ? target : target - (target - gain) * release;
+    channels.forEach(samples => {
+      samples[i] = Math.max(-ceiling, Math.min(ceiling, samples[i] * gain));
+    });
+  }
+};
+
+// Balance law: a centered voice plays at full level on both channels, as in the preview,
+// and panning only turns the opposite channel down
+const connectBalanced = (ctx: OfflineAudioContext, input: AudioNode, pan: number) => {
+  const merger = ctx.createChannelMerger(2);
+  [Math.min(1, 1 - pan), Math.min(1, 1 + pan)].forEach((level, channel) => {
+    const gain = ctx.createGain();
+    gain.gain.value = level;
+    input.connect(gain).connect(merger, 0, channel);
+  });
+  merger.connect(ctx.destination);
+};
+
+export interface MixOptions {
+  scenes: Scene[];
+  cast: CastMember[];
+  music: MusicSettings;
+  mastering: MasteringSettings;
+}
+
+// Renders the program (voices and music bed) offline and masters it.
+// Returns one array per channel at mastering.sampleRate.
+export const mixProgramAudio = async ({ scenes, cast, music, mastering }: MixOptions): Promise<Float32Array[]> => {
+  const CtxClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new CtxClass();
+  try {
+    // Scene placement comes from the shared timeline, so the mix lines up with the video
+    const { scenes: timeline, durationInFrames, durationInSeconds } = buildTimeline(scenes);
+    const { sampleRate } = mastering;
+    const offlineCtx = new OfflineAudioContext(mastering.stereo ? 2 : 1, Math.ceil(durationInSeconds * sampleRate), sampleRate);
+
+    for (const [idx, scene] of scenes.entries()) {
+      if (!scene.audioUrl) continue;
+      const bytes = await (await fetch(scene.audioUrl)).arrayBuffer();
+      // Clips from before loudness was stored are measured here
+      const audioLoudness = scene.audioLoudness ?? await measureClipLoudness(new Blob([bytes]));
+      const buffer = await ctx.decodeAudioData(bytes);
+
+      const source = offlineCtx.createBufferSource();
+      source.buffer = buffer;
+      const gain = offlineCtx.createGain();
+      gain.gain.value = dbToGain(getSceneGainDb({ ...scene, audioLoudness }, mastering));
+      source.connect(gain);
+      if (mastering.stereo) {
+        connectBalanced(offlineCtx, gain, getScenePan(scene, cast, mastering));
+      } else {
+        gain.connect(offlineCtx.destination);
+      }
+      source.start(timeline[idx].audioOffset);
+    }
+
+    // Music bed: the composition sets its volume once per frame, so step the gain on the same frames
+    if (music.source !== 'none' && music.url) {
+      const musicBuffer = await ctx.decodeAudioData(await (await fetch(music.url)).arrayBuffer());
+      const source = offlineCtx.createBufferSource();
+      source.buffer = musicBuffer;
+      source.loop = music.loop;
+      const gain = offlineCtx.createGain();
+      const voiceIntervals = getVoiceIntervals(scenes, timeline);
+      for (let frame = 0; frame < durationInFrames; frame++) {
+        gain.gain.setValueAtTime(getMusicVolume(frame, durationInFrames, voiceIntervals, music), frame / FPS);
+      }
+      source.connect(gain).connect(offlineCtx.destination);
+      source.start(0);
+    }
+
+    const rendered = await offlineCtx.startRendering();
+    const channels = Array.from({ length: rendered.numberOfChannels }, (_, c) => rendered.getChannelData(c));
+    if (mastering.limiter) applyLimiter(channels, sampleRate, mastering.ceilingDb);
+    return channels;
+  } finally {
+    ctx.close();
+  }
+};
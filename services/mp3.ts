@@ -0,0 +1,43 @@
+import { Output, Mp3OutputFormat, BufferTarget, AudioSampleSource, AudioSample, Quality, canEncodeAudio } from "mediabunny";
+import { registerMp3Encoder } from "@mediabunny/mp3-encoder";
+
+const CHUNK_SECONDS = 1;
+
+let encoderReady: Promise<void> | undefined;
+
+// Browsers without a native MP3 encoder (most of them) get the LAME WebAssembly build
+const ensureMp3Encoder = () => {
+  encoderReady ??= canEncodeAudio('mp3').then(supported => {
+    if (!supported) registerMp3Encoder();
+  });
+  return encoderReady;
+};
+
+// Constant bitrate, so podcast players can seek to chapter times without an index.
+// channels: one array per channel (mono or stereo). Returns the bare MPEG stream without tags.
+export const encodeMp3 = async (channels: Float32Array[], sampleRate: number, bitrateKbps: number): Promise<Uint8Array> => {
+  await ensureMp3Encoder();
+
+  const output = new Output({ format: new Mp3OutputFormat(), target: new BufferTarget() });
+  const source = new AudioSampleSource({
+    codec: 'mp3',
+    quality: new Quality({ bitrate: bitrateKbps * 1000, bitrateMode: 'constant' }),
+  });
+  output.addAudioTrack(source);
+  await output.start();
+
+  const length = channels[0]?.length ?? 0;
+  const chunkLength = CHUNK_SECONDS * sampleRate;
+  for (let start = 0; start < length; start += chunkLength) {
+    const frames = Math.min(chunkLength, length - start);
+    // f32-planar: every channel's frames back to back
+    const data = new Float32Array(frames * channels.length);
+    channels.forEach((samples, c) => data.set(samples.subarray(start, start + frames), c * frames));
+    const sample = new AudioSample({ data, format: 'f32-planar', numberOfChannels: channels.length, sampleRate, timestamp: start / sampleRate });
+    await source.add(sample);
+    sample.close();
+  }
+
+  await output.finalize();
+  return new Uint8Array(output.target.buffer!);
+};
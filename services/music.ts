@@ -0,0 +1,131 @@
+import { Scene, MusicSettings, FPS } from "../types";
+import { floatToPcm16, pcm16ToWavBlob } from "./wav";
+
+export const DEFAULT_MUSIC_SETTINGS: MusicSettings = {
+  source: 'none',
+  volume: 0.25,
+  duckLevel: 0.3,
+  fadeInSeconds: 2,
+  fadeOutSeconds: 3,
+  loop: true,
+};
+
+// --- Ducking envelope ---
+// Shared by the Remotion composition and the offline WAV mix. Both evaluate it once per
+// video frame, so the exported audio has exactly the gain steps the video has.
+
+const DUCK_ATTACK_SECONDS = 0.2; // Dip slightly before the voice starts
+const DUCK_RELEASE_SECONDS = 0.6;
+// Scenes without a stored clip length predate audioDuration, when TTS always added a 0.6s tail
+const VOICE_TAIL_SECONDS = 0.6;
+
+export interface VoiceInterval {
+  start: number; // Seconds from the start of the video
+  end: number;
+}
+
+// timeline: the scene placement from buildTimeline
+export const getVoiceIntervals = (scenes: Scene[], timeline: { audioOffset: number }[]): VoiceInterval[] =>
+  scenes.flatMap((scene, idx) => {
+    if (!scene.audioUrl) return [];
+    const start = timeline[idx].audioOffset;
+    const length = scene.audioDuration ?? Math.max(0, scene.durationInSeconds - VOICE_TAIL_SECONDS);
+    return [{ start, end: start + length }];
+  });
+
+// 0 = full music volume, 1 = fully ducked
+const getDuckAmount = (time: number, intervals: VoiceInterval[]) =>
+  intervals.reduce((amount, { start, end }) => {
+    if (time < start - DUCK_ATTACK_SECONDS || time > end + DUCK_RELEASE_SECONDS) return amount;
+    if (time < start) return Math.max(amount, (time - (start - DUCK_ATTACK_SECONDS)) / DUCK_ATTACK_SECONDS);
+    if (time > end) return Math.max(amount, 1 - (time - end) / DUCK_RELEASE_SECONDS);
+    return 1;
+  }, 0);
+
+export const getMusicVolume = (
+  frame: number,
+  durationInFrames: number,
+  intervals: VoiceInterval[],
+  music: MusicSettings
+) => {
+  const time = frame / FPS;
+  const remaining = (durationInFrames - frame) / FPS;
+  const fadeIn = music.fadeInSeconds > 0 ? time / music.fadeInSeconds : 1;
+  const fadeOut = music.fadeOutSeconds > 0 ? remaining / music.fadeOutSeconds : 1;
+  const fade = Math.max(0, Math.min(1, fadeIn, fadeOut));
+  const duck = 1 - getDuckAmount(time, intervals) * (1 - music.duckLevel);
+  return music.volume * fade * duck;
+};
+
+// --- Built-in loops ---
+// Synthesized on demand so the app ships without audio assets and works offline.
+// Each loop is 8 seconds at 120 BPM (four bars of 4/4) and ends where it starts.
+
+const LOOP_SAMPLE_RATE = 22050;
+const LOOP_SECONDS = 8;
+const BEAT_SECONDS = 0.5;
+
+// Am - F - C - G, one bar each
+const PROGRESSION = [
+  [220.0, 261.63, 329.63],
+  [174.61, 220.0, 261.63],
+  [261.63, 329.63, 392.0],
+  [196.0, 246.94, 293.66],
+];
+
+type LoopRenderer = (samples: Float32Array) => void;
+
+const addTone = (samples: Float32Array, frequency: number, startSeconds: number, lengthSeconds: number, gain: number, decay: number) => {
+  const start = Math.floor(startSeconds * LOOP_SAMPLE_RATE);
+  const length = Math.floor(lengthSeconds * LOOP_SAMPLE_RATE);
+  for (let i = 0; i < length && start + i < samples.length; i++) {
+    const t = i / LOOP_SAMPLE_RATE;
+    const attack = Math.min(1, t / 0.02);
+    const release = Math.min(1, (length - i) / (LOOP_SAMPLE_RATE * 0.05)); // No clicks at note ends
+    samples[start + i] += gain * attack * release * Math.exp(-decay * t) * Math.sin(2 * Math.PI * frequency * t);
+  }
+};
+
+const LOOP_RENDERERS: Record<string, LoopRenderer> = {
+  'warm-pad': (samples) => {
+    PROGRESSION.forEach((chord, bar) => {
+      chord.forEach(freq => {
+        addTone(samples, freq, bar * 2, 2, 0.12, 0.2);
+        addTone(samples, freq / 2, bar * 2, 2, 0.06, 0.2);
+      });
+    });
+  },
+  'lofi-pulse': (samples) => {
+    PROGRESSION.forEach((chord, bar) => {
+      chord.forEach(freq => addTone(samples, freq, bar * 2, 2, 0.07, 0.6));
+      for (let beat = 0; beat < 4; beat++) {
+        const start = bar * 2 + beat * BEAT_SECONDS;
+        addTone(samples, 55, start, 0.25, 0.5, 14); // Kick
+        if (beat % 2 === 1) addTone(samples, chord[0] * 2, start + 0.25, 0.2, 0.05, 10);
+      }
+    });
+  },
+  'bright-pluck': (samples) => {
+    PROGRESSION.forEach((chord, bar) => {
+      for (let step = 0; step < 8; step++) {
+        const freq = chord[step % chord.length] * (step >= 4 ? 2 : 1);
+        addTone(samples, freq, bar * 2 + step * BEAT_SECONDS / 2, 0.25, 0.15, 9);
+      }
+      addTone(samples, chord[0] / 2, bar * 2, 2, 0.08, 0.8);
+    });
+  },
+};
+
+export const MUSIC_LOOPS: { id: string; label: string }[] = [
+  { id: 'warm-pad', label: 'Warm pad' },
+  { id: 'lofi-pulse', label: 'Lo-fi pulse' },
+  { id: 'bright-pluck', label: 'Bright pluck' },
+];
+
+export const createMusicLoop = (loopId: string): Blob => {
+  const samples = new Float32Array(LOOP_SAMPLE_RATE * LOOP_SECONDS);
+  (LOOP_RENDERERS[loopId] ?? LOOP_RENDERERS['warm-pad'])(samples);
+  const peak = samples.reduce((max, s) => Math.max(max, Math.abs(s)), 0);
+  if (peak > 0.9) samples.forEach((s, i) => { samples[i] = s * (0.9 / peak); });
+  return pcm16ToWavBlob(floatToPcm16(samples), LOOP_SAMPLE_RATE);
+};
@@ -0,0 +1,57 @@
+import { VideoScript, PodcastSettings, ChapterSettings, Mp3Bitrate } from "../types";
+import { buildChapters } from "./chapters";
+import { buildId3Tag, Id3Picture } from "./id3";
+import { encodeMp3 } from "./mp3";
+import { base64ToBytes } from "./wav";
+
+export const MP3_BITRATES: Mp3Bitrate[] = [64, 96, 128, 192];
+
+export const DEFAULT_PODCAST_SETTINGS: PodcastSettings = {
+  showName: '',
+  bitrate: 128,
+};
+
+// Hosts ask for 1400-3000 px square artwork; a JPEG of that size stays well below this
+export const MAX_COVER_BYTES = 1024 * 1024;
+const COVER_TYPES = ['image/jpeg', 'image/png'];
+
+export const readCoverFile = (file: File): Promise<string> => {
+  if (!COVER_TYPES.includes(file.type)) return Promise.reject(new Error("The cover must be a JPEG or PNG image."));
+  if (file.size > MAX_COVER_BYTES) {
+    return Promise.reject(new Error(`The cover is too large (max ${Math.round(MAX_COVER_BYTES / 1024)} KB).`));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read the cover."));
+    reader.readAsDataURL(file);
+  });
+};
+
+const parseCover = (dataUrl: string): Id3Picture | undefined => {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  return match ? { mimeType: match[1], data: base64ToBytes(match[2]) } : undefined;
+};
+
+export interface PodcastExportOptions {
+  script: VideoScript;
+  channels: Float32Array[]; // The mastered program, see mixProgramAudio
+  sampleRate: number;
+  podcast: PodcastSettings;
+  chapterSettings: ChapterSettings;
+}
+
+// MP3 with the episode metadata and chapter frames, ready for a podcast host
+export const exportPodcastMp3 = async ({ script, channels, sampleRate, podcast, chapterSettings }: PodcastExportOptions): Promise<Blob> => {
+  const mp3 = await encodeMp3(channels, sampleRate, podcast.bitrate);
+  const tag = buildId3Tag({
+    title: script.topic,
+    album: podcast.showName.trim() || undefined,
+    trackNumber: podcast.episodeNumber,
+    genre: 'Podcast',
+    durationMs: (channels[0]?.length ?? 0) / sampleRate * 1000,
+    cover: podcast.coverUrl ? parseCover(podcast.coverUrl) : undefined,
+    chapters: buildChapters(script.scenes, script.topic, chapterSettings),
+  });
+  return new Blob([tag, mp3], { type: 'audio/mpeg' });
+};
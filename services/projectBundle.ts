@@ -0,0 +1,691 @@
+import { zip, unzip, strToU8, strFromU8, Zippable, Unzipped } from "fflate";
+import { VideoScript, Scene, DataOverlay, ReferenceMaterial, SubtitleChunk, ProjectSettings, AspectRatio, CastMember, SpeechSettings, SpeechEngineId, MusicSettings, MusicSource, LexiconEntry, ChartSpec, ChartType, LayoutProps, LayoutId, ComparisonSide, Theme, ThemePalette, ThemeCardStyle, ThemeSubtitleStyle, ThemeProgressBar, LogoPosition, SceneTransition, TransitionType, SceneBackground, BackgroundAsset, AssetKind, LibraryAsset, MasteringSettings, ExportBitDepth, ExportSampleRate, PodcastSettings, Mp3Bitrate, ChapterSettings } from "../types";
+import { DEFAULT_CAST, MIN_CAST_SIZE, MAX_CAST_SIZE } from "./cast";
+import { DEFAULT_MUSIC_SETTINGS } from "./music";
+import { LAYOUT_IDS } from "./layouts";
+import { DEFAULT_THEME, LOGO_POSITIONS } from "./themes";
+import { TRANSITION_TYPES } from "./transitions";
+import { getUsedAssetIds } from "./backgrounds";
+import { DEFAULT_MASTERING_SETTINGS } from "./mastering";
+import { DEFAULT_PODCAST_SETTINGS, MP3_BITRATES } from "./podcast";
+import { DEFAULT_CHAPTER_SETTINGS } from "./chapters";
+
+// Portable episode archive (.zip):
+//   manifest.json       - schema version, project name, render settings, audio file index
+//   script.json         - the VideoScript (incl. referenceMaterial) without blob URLs
+//   audio/scene-NNN.wav - one WAV per scene that has audio
+//   music/<file>        - the music bed, uploaded or rendered from a built-in loop
+//   assets/<id>.<ext>   - the library backgrounds the episode shows
+//
+// Bump BUNDLE_SCHEMA_VERSION whenever the stored shape changes and register a
+// migration from the previous version in MIGRATIONS.
+export const BUNDLE_SCHEMA_VERSION = 10;
+export const BUNDLE_EXTENSION = 'podcast.zip';
+
+interface BundleManifest {
+  schemaVersion: number;
+  name: string;
+  exportedAt: string;
+  settings: ProjectSettings;
+  audio: (string | null)[]; // Archive path per scene, same order as script.scenes
+  music: string | null; // Archive path of the music bed
+  assets: BundleAssetEntry[];
+}
+
+interface BundleAssetEntry extends BackgroundAsset {
+  path: string; // Archive path of the file
+}
+
+// Bundle contents as read from disk, before validation
+interface RawBundle {
+  schemaVersion: number;
+  manifest: Record<string, unknown>;
+  script: unknown;
+}
+
+export interface ImportedBundle {
+  name: string;
+  script: VideoScript;
+  settings: ProjectSettings;
+  assets: { asset: BackgroundAsset; blob: Blob }[]; // To be added to the asset library
+}
+
+export interface ParsedBundle extends Omit<ImportedBundle, 'assets'> {
+  audio: (Uint8Array | null)[]; // WAV bytes per scene
+  music: Uint8Array | null;
+  assets: { asset: BackgroundAsset; bytes: Uint8Array }[];
+}
+
+// Each entry upgrades a bundle from version N to N + 1
+const MIGRATIONS: Record<number, (bundle: RawBundle) => RawBundle> = {
+  // v2: configurable cast. Older episodes were always voiced by the original duo.
+  1: (bundle) => ({
+    ...bundle,
+    schemaVersion: 2,
+    manifest: {
+      ...bundle.manifest,
+      settings: { ...(bundle.manifest.settings as object), cast: DEFAULT_CAST },
+    },
+  }),
+  // v3: pluggable speech engines. Older episodes were synthesized with Gemini TTS.
+  2: (bundle) => ({
+    ...bundle,
+    schemaVersion: 3,
+    manifest: {
+      ...bundle.manifest,
+      settings: { ...(bundle.manifest.settings as object), speech: { engine: 'gemini', voiceMap: {} } },
+    },
+  }),
+  // v4: music bed. Older episodes were dialogue only.
+  3: (bundle) => ({
+    ...bundle,
+    schemaVersion: 4,
+    manifest: {
+      ...bundle.manifest,
+      settings: { ...(bundle.manifest.settings as object), music: DEFAULT_MUSIC_SETTINGS },
+      music: null,
+    },
+  }),
+  // v5: project pronunciation lexicon
+  4: (bundle) => ({
+    ...bundle,
+    schemaVersion: 5,
+    manifest: {
+      ...bundle.manifest,
+      settings: { ...(bundle.manifest.settings as object), lexicon: [] },
+    },
+  }),
+  // v6: brand themes. Older episodes used the original purple look.
+  5: (bundle) => ({
+    ...bundle,
+    schemaVersion: 6,
+    manifest: {
+      ...bundle.manifest,
+      settings: { ...(bundle.manifest.settings as object), theme: DEFAULT_THEME },
+    },
+  }),
+  // v7: background asset library. Older episodes used keyword photos from the network.
+  6: (bundle) => ({
+    ...bundle,
+    schemaVersion: 7,
+    manifest: { ...bundle.manifest, assets: [] },
+  }),
+  // v8: audio mastering. Older episodes were exported as a plain mono sum.
+  7: (bundle) => ({
+    ...bundle,
+    schemaVersion: 8,
+    manifest: {
+      ...bundle.manifest,
+      settings: { ...(bundle.manifest.settings as object), mastering: DEFAULT_MASTERING_SETTINGS },
+    },
+  }),
+  // v9: podcast metadata for the MP3 export
+  8: (bundle) => ({
+    ...bundle,
+    schemaVersion: 9,
+    manifest: {
+      ...bundle.manifest,
+      settings: { ...(bundle.manifest.settings as object), podcast: DEFAULT_PODCAST_SETTINGS },
+    },
+  }),
+  // v10: chapter grouping for the chapter and show-notes exports
+  9: (bundle) => ({
+    ...bundle,
+    schemaVersion: 10,
+    manifest: {
+      ...bundle.manifest,
+      settings: { ...(bundle.manifest.settings as object), chapters: DEFAULT_CHAPTER_SETTINGS },
+    },
+  }),
+};
+
+const ASPECT_RATIOS: AspectRatio[] = ['16:9', '1:1', '9:16'];
+const SPEECH_ENGINE_IDS: SpeechEngineId[] = ['gemini', 'local'];
+const MUSIC_SOURCES: MusicSource[] = ['none', 'loop', 'upload'];
+const CHART_TYPES: ChartType[] = ['bar', 'line', 'pie', 'ranking', 'counter'];
+const ASSET_KINDS: AssetKind[] = ['image', 'video'];
+// Asset ids end up in file names on the render server
+const ASSET_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const BIT_DEPTHS: ExportBitDepth[] = [16, 24];
+const SAMPLE_RATES: ExportSampleRate[] = [44100, 48000];
+
+// --- Validation against types.ts ---
+const fail = (path: string, expected: string): never => {
+  throw new Error(`Invalid bundle: ${path} must be ${expected}.`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectString = (value: unknown, path: string): string =>
+  typeof value === 'string' ? value : fail(path, 'a string');
+
+const expectNumber = (value: unknown, path: string): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'a number');
+
+const expectStringArray = (value: unknown, path: string): string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string') ? value : fail(path, 'an array of strings');
+
+const validateChart = (value: unknown, path: string): ChartSpec => {
+  if (!isObject(value)) return fail(path, 'an object');
+  const type = value.type as ChartType;
+  if (!CHART_TYPES.includes(type)) fail(`${path}.type`, CHART_TYPES.join(' | '));
+  const labels = expectStringArray(value.labels, `${path}.labels`);
+  const series = Array.isArray(value.series) ? value.series : fail(`${path}.series`, 'an array');
+  const rowIndices = Array.isArray(value.rowIndices) ? value.rowIndices : fail(`${path}.rowIndices`, 'an array');
+  return {
+    type,
+    labelHeader: expectString(value.labelHeader, `${path}.labelHeader`),
+    valueHeaders: expectStringArray(value.valueHeaders, `${path}.valueHeaders`),
+    rowIndices: rowIndices.map((idx, i) => expectNumber(idx, `${path}.rowIndices[${i}]`)),
+    unit: value.unit === undefined ? undefined : expectString(value.unit, `${path}.unit`),
+    labels,
+    series: series.map((s, sIdx) => {
+      const seriesPath = `${path}.series[${sIdx}]`;
+      if (!isObject(s)) return fail(seriesPath, 'an object');
+      const values = Array.isArray(s.values) && s.values.length === labels.length ? s.values : fail(`${seriesPath}.values`, 'an array with one value per label');
+      return {
+        name: expectString(s.name, `${seriesPath}.name`),
+        values: values.map((v, vIdx) => v === null ? null : expectNumber(v, `${seriesPath}.values[${vIdx}]`)),
+      };
+    }),
+  };
+};
+
+const validateDataOverlay = (value: unknown, path: string): DataOverlay => {
+  if (!isObject(value)) return fail(path, 'an object');
+  return {
+    ...value,
+    title: expectString(value.title, `${path}.title`),
+    subhead: value.subhead === undefined ? undefined : expectString(value.subhead, `${path}.subhead`),
+    headers: expectStringArray(value.headers, `${path}.headers`),
+    row: expectStringArray(value.row, `${path}.row`),
+    chart: value.chart === undefined ? undefined : validateChart(value.chart, `${path}.chart`),
+  };
+};
+
+const validateSubtitleChunk = (value: unknown, path: string): SubtitleChunk => {
+  if (!isObject(value)) return fail(path, 'an object');
+  return {
+    text: expectString(value.text, `${path}.text`),
+    start: expectNumber(value.start, `${path}.start`),
+    end: expectNumber(value.end, `${path}.end`),
+    manual: value.manual === undefined ? undefined : value.manual === true,
+  };
+};
+
+const optionalString = (value: unknown, path: string) =>
+  value === undefined ? undefined : expectString(value, path);
+
+const validateComparisonSide = (value: unknown, path: string): ComparisonSide => {
+  if (!isObject(value)) return fail(path, 'an object');
+  return {
+    label: expectString(value.label, `${path}.label`),
+    value: expectString(value.value, `${path}.value`),
+    note: optionalString(value.note, `${path}.note`),
+  };
+};
+
+const validateLayoutProps = (value: unknown, path: string): LayoutProps => {
+  if (!isObject(value)) return fail(path, 'an object');
+  const items = value.items === undefined ? undefined : Array.isArray(value.items) ? value.items : fail(`${path}.items`, 'an array');
+  return {
+    value: optionalString(value.value, `${path}.value`),
+    label: optionalString(value.label, `${path}.label`),
+    left: value.left === undefined ? undefined : validateComparisonSide(value.left, `${path}.left`),
+    right: value.right === undefined ? undefined : validateComparisonSide(value.right, `${path}.right`),
+    items: items?.map((item, idx) => {
+      if (!isObject(item)) return fail(`${path}.items[${idx}]`, 'an object');
+      return { label: expectString(item.label, `${path}.items[${idx}].label`), value: optionalString(item.value, `${path}.items[${idx}].value`) };
+    }),
+    quote: optionalString(value.quote, `${path}.quote`),
+    attribution: optionalString(value.attribution, `${path}.attribution`),
+    caption: optionalString(value.caption, `${path}.caption`),
+    kicker: optionalString(value.kicker, `${path}.kicker`),
+  };
+};
+
+const validateTransition = (value: unknown, path: string): SceneTransition => {
+  if (!isObject(value)) return fail(path, 'an object');
+  const type = value.type as TransitionType;
+  if (!TRANSITION_TYPES.includes(type)) fail(`${path}.type`, TRANSITION_TYPES.join(' | '));
+  return { type, durationInFrames: Math.max(0, expectNumber(value.durationInFrames, `${path}.durationInFrames`)) };
+};
+
+const validateBackground = (value: unknown, path: string): SceneBackground => {
+  if (!isObject(value)) return fail(path, 'an object');
+  if (value.source !== 'asset' && value.source !== 'generated') fail(`${path}.source`, 'asset | generated');
+  return {
+    source: value.source as SceneBackground['source'],
+    assetId: value.source === 'asset' ? expectString(value.assetId, `${path}.assetId`) : undefined,
+  };
+};
+
+const validateScene = (value: unknown, path: string): Scene => {
+  if (!isObject(value)) return fail(path, 'an object');
+  // Unknown keys are kept so newer optional fields survive a round trip
+  const { audioUrl, ...rest } = value;
+  return {
+    ...rest,
+    id: optionalString(value.id, `${path}.id`),
+    dialogue: expectString(value.dialogue, `${path}.dialogue`),
+    visualDescription: expectString(value.visualDescription, `${path}.visualDescription`),
+    keyword: expectString(value.keyword, `${path}.keyword`),
+    durationInSeconds: expectNumber(value.durationInSeconds, `${path}.durationInSeconds`),
+    backgroundColor: expectString(value.backgroundColor, `${path}.backgroundColor`),
+    audioDuration: value.audioDuration === undefined ? undefined : expectNumber(value.audioDuration, `${path}.audioDuration`),
+    audioLoudness: value.audioLoudness === undefined ? undefined : expectNumber(value.audioLoudness, `${path}.audioLoudness`),
+    gainDb: value.gainDb === undefined ? undefined : expectNumber(value.gainDb, `${path}.gainDb`),
+    phoneticDialogue: value.phoneticDialogue === undefined ? undefined : expectString(value.phoneticDialogue, `${path}.phoneticDialogue`),
+    dataOverlay: validateDataOverlay(value.dataOverlay, `${path}.dataOverlay`),
+    subtitleChunks: value.subtitleChunks === undefined
+      ? undefined
+      : Array.isArray(value.subtitleChunks)
+        ? value.subtitleChunks.map((chunk, idx) => validateSubtitleChunk(chunk, `${path}.subtitleChunks[${idx}]`))
+        : fail(`${path}.subtitleChunks`, 'an array'),
+    layout: value.layout === undefined
+      ? undefined
+      : LAYOUT_IDS.includes(value.layout as LayoutId) ? value.layout as LayoutId : fail(`${path}.layout`, LAYOUT_IDS.join(' | ')),
+    layoutProps: value.layoutProps === undefined ? undefined : validateLayoutProps(value.layoutProps, `${path}.layoutProps`),
+    transition: value.transition === undefined ? undefined : validateTransition(value.transition, `${path}.transition`),
+    background: value.background === undefined ? undefined : validateBackground(value.background, `${path}.background`),
+  };
+};
+
+const validateReferenceMaterial = (value: unknown, path: string): ReferenceMaterial => {
+  if (!isObject(value)) return fail(path, 'an object');
+  const rows = Array.isArray(value.rows) ? value.rows : fail(`${path}.rows`, 'an array');
+  return {
+    title: expectString(value.title, `${path}.title`),
+    subhead: expectString(value.subhead, `${path}.subhead`),
+    headers: expectStringArray(value.headers, `${path}.headers`),
+    rows: rows.map((row, idx) => expectStringArray(row, `${path}.rows[${idx}]`)),
+    source: value.source === undefined ? undefined : expectString(value.source, `${path}.source`),
+  };
+};
+
+export const validateVideoScript = (value: unknown): VideoScript => {
+  if (!isObject(value)) return fail('script', 'an object');
+  const scenes = Array.isArray(value.scenes) ? value.scenes : fail('script.scenes', 'an array');
+  return {
+    ...value,
+    topic: expectString(value.topic, 'script.topic'),
+    totalDurationInSeconds: expectNumber(value.totalDurationInSeconds, 'script.totalDurationInSeconds'),
+    referenceMaterial: validateReferenceMaterial(value.referenceMaterial, 'script.referenceMaterial'),
+    scenes: scenes.map((scene, idx) => validateScene(scene, `script.scenes[${idx}]`)),
+  };
+};
+
+const validateCastMember = (value: unknown, path: string): CastMember => {
+  if (!isObject(value)) return fail(path, 'an object');
+  return {
+    id: expectString(value.id, `${path}.id`),
+    displayName: expectString(value.displayName, `${path}.displayName`),
+    romanizedName: expectString(value.romanizedName, `${path}.romanizedName`),
+    role: expectString(value.role, `${path}.role`),
+    personality: expectString(value.personality, `${path}.personality`),
+    voiceName: expectString(value.voiceName, `${path}.voiceName`),
+  };
+};
+
+const validateSpeechSettings = (value: unknown, path: string): SpeechSettings => {
+  if (!isObject(value)) return fail(path, 'an object');
+  const engine = value.engine as SpeechEngineId;
+  if (!SPEECH_ENGINE_IDS.includes(engine)) fail(`${path}.engine`, SPEECH_ENGINE_IDS.join(' | '));
+  if (!isObject(value.voiceMap) || !Object.values(value.voiceMap).every(v => typeof v === 'string')) {
+    fail(`${path}.voiceMap`, 'an object of voice names');
+  }
+  return { engine, voiceMap: value.voiceMap as Record<string, string> };
+};
+
+const validateMusicSettings = (value: unknown, path: string): MusicSettings => {
+  if (!isObject(value)) return fail(path, 'an object');
+  const source = value.source as MusicSource;
+  if (!MUSIC_SOURCES.includes(source)) fail(`${path}.source`, MUSIC_SOURCES.join(' | '));
+  return {
+    source,
+    loopId: value.loopId === undefined ? undefined : expectString(value.loopId, `${path}.loopId`),
+    fileName: value.fileName === undefined ? undefined : expectString(value.fileName, `${path}.fileName`),
+    volume: expectNumber(value.volume, `${path}.volume`),
+    duckLevel: expectNumber(value.duckLevel, `${path}.duckLevel`),
+    fadeInSeconds: expectNumber(value.fadeInSeconds, `${path}.fadeInSeconds`),
+    fadeOutSeconds: expectNumber(value.fadeOutSeconds, `${path}.fadeOutSeconds`),
+    loop: value.loop === true,
+  };
+};
+
+const validateLexicon = (value: unknown, path: string): LexiconEntry[] => {
+  const entries = Array.isArray(value) ? value : fail(path, 'an array');
+  return entries.map((entry, idx) => {
+    if (!isObject(entry)) return fail(`${path}[${idx}]`, 'an object');
+    return {
+      surface: expectString(entry.surface, `${path}[${idx}].surface`),
+      reading: expectString(entry.reading, `${path}[${idx}].reading`),
+    };
+  });
+};
+
+const validateMastering = (value: unknown, path: string): MasteringSettings => {
+  if (!isObject(value)) return fail(path, 'an object');
+  const bitDepth = value.bitDepth as ExportBitDepth;
+  if (!BIT_DEPTHS.includes(bitDepth)) fail(`${path}.bitDepth`, BIT_DEPTHS.join(' | '));
+  const sampleRate = value.sampleRate as ExportSampleRate;
+  if (!SAMPLE_RATES.includes(sampleRate)) fail(`${path}.sampleRate`, SAMPLE_RATES.join(' | '));
+  if (!isObject(value.pan) || !Object.values(value.pan).every(v => typeof v === 'number')) {
+    fail(`${path}.pan`, 'an object of pan positions');
+  }
+  return {
+    normalize: value.normalize === true,
+    targetLufs: expectNumber(value.targetLufs, `${path}.targetLufs`),
+    limiter: value.limiter === true,
+    ceilingDb: expectNumber(value.ceilingDb, `${path}.ceilingDb`),
+    stereo: value.stereo === true,
+    pan: value.pan as Record<string, number>,
+    bitDepth,
+    sampleRate,
+  };
+};
+
+const validatePodcast = (value: unknown, path: string): PodcastSettings => {
+  if (!isObject(value)) return fail(path, 'an object');
+  const bitrate = value.bitrate as Mp3Bitrate;
+  if (!MP3_BITRATES.includes(bitrate)) fail(`${path}.bitrate`, MP3_BITRATES.join(' | '));
+  return {
+    showName: expectString(value.showName, `${path}.showName`),
+    episodeNumber: value.episodeNumber === undefined ? undefined : expectNumber(value.episodeNumber, `${path}.episodeNumber`),
+    coverUrl: value.coverUrl === undefined ? undefined : expectString(value.coverUrl, `${path}.coverUrl`),
+    bitrate,
+  };
+};
+
+const validateChapterSettings = (value: unknown, path: string): ChapterSettings => {
+  if (!isObject(value)) return fail(path, 'an object');
+  return {
+    mergeSameTitle: value.mergeSameTitle === true,
+    minChapterSeconds: expectNumber(value.minChapterSeconds, `${path}.minChapterSeconds`),
+  };
+};
+
+const validatePalette = (value: unknown, path: string): ThemePalette => {
+  if (!isObject(value)) return fail(path, 'an object');
+  return {
+    primary: expectString(value.primary, `${path}.primary`),
+    accent: expectString(value.accent, `${path}.accent`),
+    text: expectString(value.text, `${path}.text`),
+    mutedText: expectString(value.mutedText, `${path}.mutedText`),
+    background: expectString(value.background, `${path}.background`),
+  };
+};
+
+const validateCardStyle = (value: unknown, path: string): ThemeCardStyle => {
+  if (!isObject(value)) return fail(path, 'an object');
+  return {
+    color: expectString(value.color, `${path}.color`),
+    opacity: expectNumber(value.opacity, `${path}.opacity`),
+    borderColor: expectString(value.borderColor, `${path}.borderColor`),
+    radius: expectNumber(value.radius, `${path}.radius`),
+    blur: expectNumber(value.blur, `${path}.blur`),
+  };
+};
+
+const validateSubtitleStyle = (value: unknown, path: string): ThemeSubtitleStyle => {
+  if (!isObject(value)) return fail(path, 'an object');
+  return {
+    textColor: expectString(value.textColor, `${path}.textColor`),
+    backgroundColor: expectString(value.backgroundColor, `${path}.backgroundColor`),
+    backgroundOpacity: expectNumber(value.backgroundOpacity, `${path}.backgroundOpacity`),
+  };
+};
+
+const validateProgressBar = (value: unknown, path: string): ThemeProgressBar => {
+  if (!isObject(value)) return fail(path, 'an object');
+  return {
+    visible: value.visible === true,
+    startColor: expectString(value.startColor, `${path}.startColor`),
+    endColor: expectString(value.endColor, `${path}.endColor`),
+    height: expectNumber(value.height, `${path}.height`),
+  };
+};
+
+const validateTheme = (value: unknown, path: string): Theme => {
+  if (!isObject(value)) return fail(path, 'an object');
+  const logoPosition = value.logoPosition as LogoPosition;
+  if (!LOGO_POSITIONS.includes(logoPosition)) fail(`${path}.logoPosition`, LOGO_POSITIONS.join(' | '));
+  return {
+    presetId: expectString(value.presetId, `${path}.presetId`),
+    name: expectString(value.name, `${path}.name`),
+    fontFamily: expectString(value.fontFamily, `${path}.fontFamily`),
+    headingFontFamily: expectString(value.headingFontFamily, `${path}.headingFontFamily`),
+    palette: validatePalette(value.palette, `${path}.palette`),
+    card: validateCardStyle(value.card, `${path}.card`),
+    subtitle: validateSubtitleStyle(value.subtitle, `${path}.subtitle`),
+    progressBar: validateProgressBar(value.progressBar, `${path}.progressBar`),
+    logoUrl: value.logoUrl === undefined ? undefined : expectString(value.logoUrl, `${path}.logoUrl`),
+    logoPosition,
+    logoSize: expectNumber(value.logoSize, `${path}.logoSize`),
+    watermark: expectString(value.watermark, `${path}.watermark`),
+  };
+};
+
+const validateSettings = (value: unknown): ProjectSettings => {
+  if (!isObject(value)) return fail('manifest.settings', 'an object');
+  const aspectRatio = value.aspectRatio as AspectRatio;
+  if (!ASPECT_RATIOS.includes(aspectRatio)) fail('manifest.settings.aspectRatio', ASPECT_RATIOS.join(' | '));
+  const cast = Array.isArray(value.cast) && value.cast.length >= MIN_CAST_SIZE && value.cast.length <= MAX_CAST_SIZE
+    ? value.cast
+    : fail('manifest.settings.cast', `an array of ${MIN_CAST_SIZE} to ${MAX_CAST_SIZE} speakers`);
+  return {
+    ...value,
+    aspectRatio,
+    introBackground: expectString(value.introBackground, 'manifest.settings.introBackground'),
+    cast: cast.map((member, idx) => validateCastMember(member, `manifest.settings.cast[${idx}]`)),
+    speech: validateSpeechSettings(value.speech, 'manifest.settings.speech'),
+    music: validateMusicSettings(value.music, 'manifest.settings.music'),
+    lexicon: validateLexicon(value.lexicon, 'manifest.settings.lexicon'),
+    theme: validateTheme(value.theme, 'manifest.settings.theme'),
+    mastering: validateMastering(value.mastering, 'manifest.settings.mastering'),
+    podcast: validatePodcast(value.podcast, 'manifest.settings.podcast'),
+    chapters: validateChapterSettings(value.chapters, 'manifest.settings.chapters'),
+  };
+};
+
+const validateAssetEntry = (value: unknown, path: string): BundleAssetEntry => {
+  if (!isObject(value)) return fail(path, 'an object');
+  const kind = value.kind as AssetKind;
+  if (!ASSET_KINDS.includes(kind)) fail(`${path}.kind`, ASSET_KINDS.join(' | '));
+  const id = expectString(value.id, `${path}.id`);
+  if (!ASSET_ID_PATTERN.test(id)) fail(`${path}.id`, 'letters, digits, "-" and "_" only');
+  return {
+    id,
+    name: expectString(value.name, `${path}.name`),
+    kind,
+    mimeType: expectString(value.mimeType, `${path}.mimeType`),
+    tags: expectStringArray(value.tags, `${path}.tags`),
+    size: expectNumber(value.size, `${path}.size`),
+    createdAt: expectNumber(value.createdAt, `${path}.createdAt`),
+    path: expectString(value.path, `${path}.path`),
+  };
+};
+
+const validateManifest = (value: unknown): BundleManifest => {
+  if (!isObject(value)) return fail('manifest', 'an object');
+  const audio = Array.isArray(value.audio) ? value.audio : fail('manifest.audio', 'an array');
+  const assets = Array.isArray(value.assets) ? value.assets : fail('manifest.assets', 'an array');
+  return {
+    schemaVersion: expectNumber(value.schemaVersion, 'manifest.schemaVersion'),
+    name: expectString(value.name, 'manifest.name'),
+    exportedAt: expectString(value.exportedAt, 'manifest.exportedAt'),
+    settings: validateSettings(value.settings),
+    audio: audio.map((entry, idx) => entry === null ? null : expectString(entry, `manifest.audio[${idx}]`)),
+    music: value.music === null ? null : expectString(value.music, 'manifest.music'),
+    assets: assets.map((entry, idx) => validateAssetEntry(entry, `manifest.assets[${idx}]`)),
+  };
+};
+
+const migrate = (bundle: RawBundle): RawBundle => {
+  let current = bundle;
+  while (current.schemaVersion < BUNDLE_SCHEMA_VERSION) {
+    const step = MIGRATIONS[current.schemaVersion];
+    if (!step) {
+      throw new Error(`No migration from bundle schema version ${current.schemaVersion}.`);
+    }
+    current = step(current);
+  }
+  return current;
+};
+
+// --- fflate promise wrappers ---
+const zipAsync = (files: Zippable): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => zip(files, (err, data) => err ? reject(err) : resolve(data)));
+
+const unzipAsync = (data: Uint8Array): Promise<Unzipped> =>
+  new Promise((resolve, reject) => unzip(data, (err, files) => err ? reject(err) : resolve(files)));
+
+const readJson = (files: Unzipped, path: string): unknown => {
+  const entry = files[path];
+  if (!entry) throw new Error(`Invalid bundle: ${path} is missing.`);
+  try {
+    return JSON.parse(strFromU8(entry));
+  } catch {
+    throw new Error(`Invalid bundle: ${path} is not valid JSON.`);
+  }
+};
+
+// --- Public API ---
+export const exportProjectBundle = async (
+  script: VideoScript,
+  settings: ProjectSettings,
+  name: string,
+  library: LibraryAsset[] = []
+): Promise<Blob> => {
+  const files: Zippable = {};
+  const audio: (string | null)[] = [];
+
+  for (let i = 0; i < script.scenes.length; i++) {
+    const { audioUrl } = script.scenes[i];
+    if (!audioUrl) {
+      audio.push(null);
+      continue;
+    }
+    const response = await fetch(audioUrl);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const path = `audio/scene-${String(i + 1).padStart(3, '0')}.wav`;
+    // WAV is already incompressible PCM, store it as-is
+    files[path] = [bytes, { level: 0 }];
+    audio.push(path);
+  }
+
+  // The blob URL is replaced by the file; keep the original extension so the type survives
+  const { url: musicUrl, ...music } = settings.music;
+  let musicPath: string | null = null;
+  if (music.source !== 'none' && musicUrl) {
+    const response = await fetch(musicUrl);
+    const extension = music.source === 'upload' && music.fileName?.includes('.')
+      ? music.fileName.split('.').pop()!.toLowerCase()
+      : 'wav';
+    musicPath = `music/track.${extension}`;
+    files[musicPath] = [new Uint8Array(await response.arrayBuffer()), { level: 0 }];
+  }
+
+  // Images and videos are already compressed as well
+  const usedIds = getUsedAssetIds(script.scenes, library, settings.introBackground);
+  const assets: BundleAssetEntry[] = [];
+  for (const { url, ...asset } of library.filter(a => usedIds.includes(a.id))) {
+    const response = await fetch(url);
+    const extension = asset.name.includes('.') ? asset.name.split('.').pop()!.toLowerCase() : asset.kind === 'video' ? 'mp4' : 'png';
+    const path = `assets/${asset.id}.${extension}`;
+    files[path] = [new Uint8Array(await response.arrayBuffer()), { level: 0 }];
+    assets.push({ ...asset, path });
+  }
+
+  const manifest: BundleManifest = {
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    settings: { ...settings, music },
+    audio,
+    music: musicPath,
+    assets,
+  };
+
+  const portableScript: VideoScript = {
+    ...script,
+    scenes: script.scenes.map(({ audioUrl, ...scene }) => scene),
+  };
+
+  files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+  files['script.json'] = strToU8(JSON.stringify(portableScript, null, 2));
+
+  const archive = await zipAsync(files);
+  return new Blob([archive], { type: 'application/zip' });
+};
+
+// Validates and migrates an archive without touching browser-only APIs (also used by the render server)
+export const parseProjectBundle = async (data: Uint8Array): Promise<ParsedBundle> => {
+  let files: Unzipped;
+  try {
+    files = await unzipAsync(data);
+  } catch {
+    throw new Error("The selected file is not a valid project bundle (.zip).");
+  }
+
+  const rawManifest = readJson(files, 'manifest.json');
+  if (!isObject(rawManifest)) return fail('manifest', 'an object');
+  const schemaVersion = expectNumber(rawManifest.schemaVersion, 'manifest.schemaVersion');
+  if (schemaVersion > BUNDLE_SCHEMA_VERSION) {
+    throw new Error(
+      `This bundle was created by a newer version (schema ${schemaVersion}). Please update the app.`
+    );
+  }
+
+  const migrated = migrate({ schemaVersion, manifest: rawManifest, script: readJson(files, 'script.json') });
+  const manifest = validateManifest(migrated.manifest);
+  const script = validateVideoScript(migrated.script);
+
+  const audio = script.scenes.map((_, idx) => {
+    const path = manifest.audio[idx];
+    const bytes = path ? files[path] : undefined;
+    if (path && !bytes) {
+      console.warn(`Bundle is missing ${path}, scene ${idx + 1} will have no audio.`);
+    }
+    return bytes ?? null;
+  });
+
+  const music = manifest.music ? files[manifest.music] ?? null : null;
+  if (manifest.music && !music) {
+    console.warn(`Bundle is missing ${manifest.music}, the music bed will be silent.`);
+  }
+
+  const assets = manifest.assets.flatMap(({ path, ...asset }) => {
+    const bytes = files[path];
+    if (!bytes) {
+      console.warn(`Bundle is missing ${path}, scenes using ${asset.name} fall back to other backgrounds.`);
+      return [];
+    }
+    return [{ asset, bytes }];
+  });
+
+  return { name: manifest.name, script, settings: manifest.settings, audio, music, assets };
+};
+
+export const importProjectBundle = async (file: Blob): Promise<ImportedBundle> => {
+  const { name, script, settings, audio, music, assets } = await parseProjectBundle(new Uint8Array(await file.arrayBuffer()));
+
+  script.scenes = script.scenes.map((scene, idx) => {
+    const bytes = audio[idx];
+    return bytes
+      ? { ...scene, audioUrl: URL.createObjectURL(new Blob([bytes], { type: 'audio/wav' })) }
+      : scene;
+  });
+
+  if (music) {
+    settings.music = { ...settings.music, url: URL.createObjectURL(new Blob([music])) };
+  }
+
+  return {
+    name,
+    script,
+    settings,
+    assets: assets.map(({ asset, bytes }) => ({ asset, blob: new Blob([bytes], { type: asset.mimeType }) })),
+  };
+};
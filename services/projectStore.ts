@@ -0,0 +1,171 @@
+import { VideoScript, ProjectSettings, ProjectSummary, ProjectRecord, LoadedProject } from "../types";
+import { openDatabase, requestToPromise, transactionDone, STORES } from "./db";
+import { DEFAULT_CAST } from "./cast";
+import { DEFAULT_MUSIC_SETTINGS } from "./music";
+import { DEFAULT_THEME } from "./themes";
+import { DEFAULT_MASTERING_SETTINGS } from "./mastering";
+import { DEFAULT_PODCAST_SETTINGS } from "./podcast";
+import { DEFAULT_CHAPTER_SETTINGS } from "./chapters";
+
+interface ProjectAudioRecord {
+  id: string;
+  clips: (Blob | null)[]; // Same order as script.scenes
+  music?: Blob | null; // Music bed behind settings.music.url
+}
+
+export const createProjectId = (): string => crypto.randomUUID();
+
+const toSummary = (record: ProjectRecord): ProjectSummary => ({
+  id: record.id,
+  name: record.name,
+  topic: record.topic,
+  sceneCount: record.sceneCount,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+});
+
+// Blob URLs die with the page, so persist the bytes behind them instead
+const audioUrlToBlob = async (url?: string): Promise<Blob | null> => {
+  if (!url) return null;
+  try {
+    const response = await fetch(url);
+    return await response.blob();
+  } catch (e) {
+    console.warn("Could not read audio for persistence:", url, e);
+    return null;
+  }
+};
+
+const stripAudioUrls = (script: VideoScript): VideoScript => ({
+  ...script,
+  scenes: script.scenes.map(({ audioUrl, ...scene }) => scene),
+});
+
+const attachAudioUrls = (script: VideoScript, clips: (Blob | null)[]): VideoScript => ({
+  ...script,
+  scenes: script.scenes.map((scene, idx) => {
+    const clip = clips[idx];
+    return clip ? { ...scene, audioUrl: URL.createObjectURL(clip) } : scene;
+  }),
+});
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.projects, 'readonly');
+  const records = await requestToPromise(tx.objectStore(STORES.projects).getAll()) as ProjectRecord[];
+  return records.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Insert or update. The name and creation time of an existing project are kept unless a name is passed.
+export const saveProject = async (
+  id: string,
+  script: VideoScript,
+  settings: ProjectSettings,
+  name?: string
+): Promise<ProjectSummary> => {
+  // Read audio before opening the write transaction: IndexedDB transactions auto-commit across awaits
+  const clips = await Promise.all(script.scenes.map(scene => audioUrlToBlob(scene.audioUrl)));
+  const { url: musicUrl, ...music } = settings.music;
+  const musicBlob = music.source === 'none' ? null : await audioUrlToBlob(musicUrl);
+
+  const db = await openDatabase();
+  const existing = await requestToPromise(
+    db.transaction(STORES.projects, 'readonly').objectStore(STORES.projects).get(id)
+  ) as ProjectRecord | undefined;
+
+  const now = Date.now();
+  const record: ProjectRecord = {
+    id,
+    name: name ?? existing?.name ?? script.topic,
+    topic: script.topic,
+    sceneCount: script.scenes.length,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    script: stripAudioUrls(script),
+    settings: { ...settings, music },
+  };
+  const audio: ProjectAudioRecord = { id, clips, music: musicBlob };
+
+  const tx = db.transaction([STORES.projects, STORES.projectAudio], 'readwrite');
+  tx.objectStore(STORES.projects).put(record);
+  tx.objectStore(STORES.projectAudio).put(audio);
+  await transactionDone(tx);
+
+  return toSummary(record);
+};
+
+export const loadProject = async (id: string): Promise<LoadedProject> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.projects, STORES.projectAudio], 'readonly');
+  const [record, audio] = await Promise.all([
+    requestToPromise(tx.objectStore(STORES.projects).get(id)) as Promise<ProjectRecord | undefined>,
+    requestToPromise(tx.objectStore(STORES.projectAudio).get(id)) as Promise<ProjectAudioRecord | undefined>,
+  ]);
+
+  if (!record) {
+    throw new Error("Project not found. It may have been deleted in another tab.");
+  }
+
+  const music = record.settings.music ?? DEFAULT_MUSIC_SETTINGS;
+
+  return {
+    summary: toSummary(record),
+    script: attachAudioUrls(record.script, audio?.clips ?? []),
+    // Projects saved before these settings existed use the original duo voiced by Gemini, without music or
+    // lexicon, in the original look
+    settings: {
+      ...record.settings,
+      cast: record.settings.cast ?? DEFAULT_CAST,
+      speech: record.settings.speech ?? { engine: 'gemini', voiceMap: {} },
+      music: audio?.music ? { ...music, url: URL.createObjectURL(audio.music) } : music,
+      lexicon: record.settings.lexicon ?? [],
+      theme: record.settings.theme ?? DEFAULT_THEME,
+      mastering: record.settings.mastering ?? DEFAULT_MASTERING_SETTINGS,
+      podcast: record.settings.podcast ?? DEFAULT_PODCAST_SETTINGS,
+      chapters: record.settings.chapters ?? DEFAULT_CHAPTER_SETTINGS,
+    },
+  };
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.projects, 'readwrite');
+  const store = tx.objectStore(STORES.projects);
+  const record = await requestToPromise(store.get(id)) as ProjectRecord | undefined;
+  if (!record) throw new Error("Project not found.");
+  store.put({ ...record, name, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectSummary> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.projects, STORES.projectAudio], 'readwrite');
+  const projects = tx.objectStore(STORES.projects);
+  const audioStore = tx.objectStore(STORES.projectAudio);
+
+  const record = await requestToPromise(projects.get(id)) as ProjectRecord | undefined;
+  const audio = await requestToPromise(audioStore.get(id)) as ProjectAudioRecord | undefined;
+  if (!record) throw new Error("Project not found.");
+
+  const now = Date.now();
+  const copy: ProjectRecord = {
+    ...record,
+    id: createProjectId(),
+    name: `${record.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  projects.put(copy);
+  audioStore.put({ id: copy.id, clips: audio?.clips ?? [], music: audio?.music ?? null });
+  await transactionDone(tx);
+
+  return toSummary(copy);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.projects, STORES.projectAudio], 'readwrite');
+  tx.objectStore(STORES.projects).delete(id);
+  tx.objectStore(STORES.projectAudio).delete(id);
+  await transactionDone(tx);
+};
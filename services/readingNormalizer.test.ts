@@ -0,0 +1,135 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeReading, normalizePhoneticDialogue } from './readingNormalizer';
+import { DEFAULT_CAST } from './cast';
+
+// [written, expected reading]
+const CASES: Record<string, [string, string][]> = {
+  integers: [
+    ['0', 'ぜろ'],
+    ['7', 'なな'],
+    ['10', 'じゅう'],
+    ['11', 'じゅういち'],
+    ['99', 'きゅうじゅうきゅう'],
+    ['300', 'さんびゃく'],
+    ['600', 'ろっぴゃく'],
+    ['800', 'はっぴゃく'],
+    ['1000', 'せん'],
+    ['3000', 'さんぜん'],
+    ['8000', 'はっせん'],
+    ['10000', 'いちまん'],
+    ['12,345', 'いちまんにせんさんびゃくよんじゅうご'],
+    ['１２３', 'ひゃくにじゅうさん'],
+  ],
+  largeUnits: [
+    ['1万', 'いちまん'],
+    ['1億', 'いちおく'],
+    ['1兆', 'いっちょう'],
+    ['8兆', 'はっちょう'],
+    ['10兆', 'じゅっちょう'],
+    ['2.5万', 'にまんごせん'],
+    ['1億5000万', 'いちおくごせんまん'],
+  ],
+  decimals: [
+    ['0.5', 'れいてんご'],
+    ['1.5', 'いってんご'],
+    ['3.14', 'さんてんいちよん'],
+    ['10.5', 'じゅってんご'],
+    ['11.5', 'じゅういってんご'],
+    ['18.5', 'じゅうはってんご'],
+    ['8.5倍', 'はってんごばい'],
+    ['2.5倍', 'にてんごばい'],
+    ['1.5馬身', 'いってんごばしん'],
+    ['1.6km', 'いってんろくきろめーとる'],
+  ],
+  racing: [
+    ['1着', 'いっちゃく'],
+    ['3着', 'さんちゃく'],
+    ['8着', 'はっちゃく'],
+    ['10着', 'じゅっちゃく'],
+    ['1番', 'いちばん'],
+    ['4番人気', 'よばん人気'],
+    ['1頭', 'いっとう'],
+    ['18頭', 'じゅうはっとう'],
+    ['1勝', 'いっしょう'],
+    ['3敗', 'さんぱい'],
+    ['2000m', 'にせんめーとる'],
+    ['480kg', 'よんひゃくはちじゅうきろぐらむ'],
+  ],
+  raceTimes: [
+    ['1:33.5', 'いっぷん さんじゅうさんびょうご'],
+    ['走破タイム2:23.7', '走破タイムにふん にじゅうさんびょうなな'],
+    ['0:59.8', 'ごじゅうきゅうびょうはち'],
+    ['1分33秒5', 'いっぷんさんじゅうさんびょうご'],
+  ],
+  counters: [
+    ['1人', 'ひとり'],
+    ['2人', 'ふたり'],
+    ['4人', 'よにん'],
+    ['20歳', 'はたち'],
+    ['1本', 'いっぽん'],
+    ['3本', 'さんぼん'],
+    ['6本', 'ろっぽん'],
+    ['1匹', 'いっぴき'],
+    ['3匹', 'さんびき'],
+    ['1回', 'いっかい'],
+    ['6回', 'ろっかい'],
+    ['100回', 'ひゃっかい'],
+    ['6個', 'ろっこ'],
+    ['1点', 'いってん'],
+  ],
+  percentAndCurrency: [
+    ['6%', 'ろっぱーせんと'],
+    ['10%', 'じゅっぱーせんと'],
+    ['５０％', 'ごじゅっぱーせんと'],
+    ['¥1000', 'せんえん'],
+    ['3000円', 'さんぜんえん'],
+    ['4円', 'よえん'],
+    ['$5', 'ごどる'],
+  ],
+  minutesAndSeconds: [
+    ['1分', 'いっぷん'],
+    ['3分', 'さんぷん'],
+    ['4分', 'よんぷん'],
+    ['6分', 'ろっぷん'],
+    ['10分', 'じゅっぷん'],
+    ['100分', 'ひゃっぷん'],
+    ['1000分', 'せんぷん'],
+    ['30秒', 'さんじゅうびょう'],
+  ],
+  datesAndTimes: [
+    ['4年', 'よねん'],
+    ['4月', 'しがつ'],
+    ['7月', 'しちがつ'],
+    ['9月', 'くがつ'],
+    ['1月1日', 'いちがつ ついたち'],
+    ['12月20日', 'じゅうにがつ はつか'],
+    ['2024年11月24日', 'にせんにじゅうよねん じゅういちがつ にじゅうよっか'],
+    ['3日間', 'みっかかん'],
+    ['1日間', 'いちにちかん'],
+    ['4時', 'よじ'],
+    ['9時', 'くじ'],
+    ['4時間', 'よじかん'],
+    ['15:40', 'じゅうごじ よんじゅっぷん'],
+    ['24:00', 'にじゅうよじ'],
+  ],
+  fractions: [
+    ['3分の1', 'さんぶんのいち'],
+  ],
+  untouched: [
+    ['ジャパンカップ', 'ジャパンカップ'],
+  ],
+};
+
+for (const [group, cases] of Object.entries(CASES)) {
+  test(`normalizeReading: ${group}`, () => {
+    for (const [written, expected] of cases) {
+      assert.equal(normalizeReading(written), expected, written);
+    }
+  });
+}
+
+test('normalizePhoneticDialogue keeps the speaker prefix', () => {
+  assert.equal(normalizePhoneticDialogue('あいば: 1番人気は3着でした', DEFAULT_CAST), 'あいば: いちばん人気はさんちゃくでした');
+  assert.equal(normalizePhoneticDialogue('- じぇんば: 8.5倍です', DEFAULT_CAST), 'じぇんば: はってんごばいです');
+});
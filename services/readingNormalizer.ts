@@ -0,0 +1,264 @@
+import { CastMember } from "../types";
+import { getSpeaker, stripBulletBeforePrefix, stripSpeakerPrefix } from "./cast";
+
+// Deterministic hiragana readings for numbers in the TTS text: integers up to 兆, decimals,
+// percentages, currency, dates, times and common counters, with the sound changes the
+// counters take (いっちゃく, さんびゃく, ろっぽん, よにん, ...).
+
+const DIGITS = ['ぜろ', 'いち', 'に', 'さん', 'よん', 'ご', 'ろく', 'なな', 'はち', 'きゅう'];
+
+// The spoken element a counter attaches to: the ones digit, or the lowest place that is read
+type Element = number | 'ten' | 'hundred' | 'thousand' | 'man' | 'oku' | 'cho';
+
+interface ReadingPart {
+  text: string;
+  element: Element;
+}
+
+// いち → いっ, じゅう → じゅっ, ひゃく → ひゃっ before a counter starting with k, s, t, h or p
+const geminate = (text: string) => `${text.slice(0, -1)}っ`;
+
+interface CounterRule {
+  reading: string;
+  geminate?: boolean; // 1, 8 and 10 become いっ/はっ/じゅっ
+  geminateSix?: boolean; // 6 becomes ろっ as well (k/h-initial counters)
+  geminateHundred?: boolean; // 100 becomes ひゃっ as well
+  geminatedReading?: string; // Reading after a geminated number (ほん → ぽん)
+  voiced?: string; // Reading after さん, せん and まん (ほん → ぼん)
+  voicedAfterFour?: boolean; // よん voices too (よんぷん)
+  digits?: Partial<Record<number, string>>; // Digit words used before this counter (4 → よ)
+  exact?: Partial<Record<number, string>>; // Whole readings for specific numbers (1人 → ひとり)
+}
+
+const COUNTERS: Record<string, CounterRule> = {
+  '番': { reading: 'ばん', digits: { 4: 'よ' } },
+  '着': { reading: 'ちゃく', geminate: true },
+  '頭': { reading: 'とう', geminate: true },
+  '円': { reading: 'えん', digits: { 4: 'よ' } },
+  '倍': { reading: 'ばい' },
+  '人': { reading: 'にん', digits: { 4: 'よ' }, exact: { 1: 'ひとり', 2: 'ふたり' } },
+  '回': { reading: 'かい', geminate: true, geminateSix: true, geminateHundred: true },
+  '個': { reading: 'こ', geminate: true, geminateSix: true, geminateHundred: true },
+  '件': { reading: 'けん', geminate: true, geminateSix: true, geminateHundred: true },
+  '歳': { reading: 'さい', geminate: true, exact: { 20: 'はたち' } },
+  '才': { reading: 'さい', geminate: true, exact: { 20: 'はたち' } },
+  '本': { reading: 'ほん', geminate: true, geminateSix: true, geminateHundred: true, geminatedReading: 'ぽん', voiced: 'ぼん' },
+  '匹': { reading: 'ひき', geminate: true, geminateSix: true, geminateHundred: true, geminatedReading: 'ぴき', voiced: 'びき' },
+  '杯': { reading: 'はい', geminate: true, geminateSix: true, geminateHundred: true, geminatedReading: 'ぱい', voiced: 'ばい' },
+  '敗': { reading: 'はい', geminate: true, geminateSix: true, geminatedReading: 'ぱい', voiced: 'ぱい' },
+  '勝': { reading: 'しょう', geminate: true },
+  '戦': { reading: 'せん', geminate: true },
+  '位': { reading: 'い' },
+  '点': { reading: 'てん', geminate: true },
+  '馬身': { reading: 'ばしん' },
+  '年': { reading: 'ねん', digits: { 4: 'よ' } },
+  'ヶ月': { reading: 'かげつ', geminate: true, geminateSix: true, geminateHundred: true },
+  'か月': { reading: 'かげつ', geminate: true, geminateSix: true, geminateHundred: true },
+  'カ月': { reading: 'かげつ', geminate: true, geminateSix: true, geminateHundred: true },
+  '月': { reading: 'がつ', digits: { 4: 'し', 7: 'しち', 9: 'く' } },
+  '時間': { reading: 'じかん', digits: { 4: 'よ', 9: 'く' } },
+  '時': { reading: 'じ', digits: { 4: 'よ', 7: 'しち', 9: 'く' } },
+  '分': { reading: 'ふん', geminate: true, geminateSix: true, geminateHundred: true, geminatedReading: 'ぷん', voiced: 'ぷん', voicedAfterFour: true },
+  '秒': { reading: 'びょう' },
+  '%': { reading: 'ぱーせんと', geminate: true, geminateSix: true },
+  'km': { reading: 'きろめーとる' },
+  'kg': { reading: 'きろぐらむ' },
+  'cm': { reading: 'せんちめーとる' },
+  'm': { reading: 'めーとる' },
+  'g': { reading: 'ぐらむ' },
+};
+
+const CURRENCIES: Record<string, CounterRule> = {
+  '¥': COUNTERS['円'],
+  '$': { reading: 'どる' },
+};
+
+// 日 has irregular readings for the days of the month
+const DAYS: Record<number, string> = {
+  1: 'ついたち', 2: 'ふつか', 3: 'みっか', 4: 'よっか', 5: 'いつか', 6: 'むいか', 7: 'なのか',
+  8: 'ようか', 9: 'ここのか', 10: 'とおか', 14: 'じゅうよっか', 20: 'はつか', 24: 'にじゅうよっか',
+};
+const DAY_COUNTER: CounterRule = { reading: 'にち', digits: { 7: 'しち', 9: 'く' } };
+
+const LARGE_UNITS: { value: number; reading: string; element: Element }[] = [
+  { value: 1e12, reading: 'ちょう', element: 'cho' },
+  { value: 1e8, reading: 'おく', element: 'oku' },
+  { value: 1e4, reading: 'まん', element: 'man' },
+];
+const KANJI_UNITS: Record<string, number> = { '兆': 1e12, '億': 1e8, '万': 1e4 };
+
+const MAX_INTEGER = 1e16; // Larger numbers are read digit by digit
+
+const HUNDREDS: Record<number, string> = { 1: 'ひゃく', 3: 'さんびゃく', 6: 'ろっぴゃく', 8: 'はっぴゃく' };
+const THOUSANDS: Record<number, string> = { 1: 'せん', 3: 'さんぜん', 8: 'はっせん' };
+
+// 1..9999; before 万/億/兆 a bare 千 is read いっせん
+const readGroup = (n: number, beforeLargeUnit: boolean): ReadingPart[] => {
+  const thousands = Math.floor(n / 1000);
+  const hundreds = Math.floor(n / 100) % 10;
+  const tens = Math.floor(n / 10) % 10;
+  const ones = n % 10;
+  const parts: ReadingPart[] = [];
+  if (thousands) {
+    const text = thousands === 1 && beforeLargeUnit ? 'いっせん' : THOUSANDS[thousands] ?? `${DIGITS[thousands]}せん`;
+    parts.push({ text, element: 'thousand' });
+  }
+  if (hundreds) parts.push({ text: HUNDREDS[hundreds] ?? `${DIGITS[hundreds]}ひゃく`, element: 'hundred' });
+  if (tens) parts.push({ text: `${tens === 1 ? '' : DIGITS[tens]}じゅう`, element: 'ten' });
+  if (ones) parts.push({ text: DIGITS[ones], element: ones });
+  return parts;
+};
+
+const joinParts = (parts: ReadingPart[]) => parts.map(part => part.text).join('');
+
+const readIntegerParts = (n: number): ReadingPart[] => {
+  const parts: ReadingPart[] = [];
+  let rest = n;
+  for (const unit of LARGE_UNITS) {
+    const count = Math.floor(rest / unit.value);
+    rest %= unit.value;
+    if (!count) continue;
+    const group = readGroup(count, true);
+    // 1兆, 8兆 and 10兆 are geminated (いっちょう); 1万 and 1億 keep いち
+    const last = group[group.length - 1];
+    if (unit.element === 'cho' && (last.element === 1 || last.element === 8 || last.element === 'ten')) {
+      group[group.length - 1] = { ...last, text: geminate(last.text) };
+    }
+    parts.push({ text: `${joinParts(group)}${unit.reading}`, element: unit.element });
+  }
+  if (rest) parts.push(...readGroup(rest, false));
+  return parts;
+};
+
+const readDigitString = (digits: string) => [...digits].map(d => DIGITS[Number(d)]).join('');
+
+export const readNumber = (n: number): string => {
+  if (n >= MAX_INTEGER) return readDigitString(String(n));
+  return n === 0 ? DIGITS[0] : joinParts(readIntegerParts(n));
+};
+
+// Reading of an integer followed by a counter, applying the counter's sound changes
+const readWithCounter = (n: number, rule: CounterRule): string => {
+  const exact = rule.exact?.[n];
+  if (exact) return exact;
+  if (n === 0 || n >= MAX_INTEGER) return `${readNumber(n)}${rule.reading}`;
+
+  const parts = readIntegerParts(n);
+  const head = joinParts(parts.slice(0, -1));
+  const { text, element } = parts[parts.length - 1];
+
+  const digitWord = typeof element === 'number' ? rule.digits?.[element] : undefined;
+  if (digitWord) return `${head}${digitWord}${rule.reading}`;
+
+  const geminates = rule.geminate && (
+    element === 1 || element === 8 || element === 'ten'
+    || (element === 6 && rule.geminateSix)
+    || (element === 'hundred' && rule.geminateHundred)
+  );
+  if (geminates) return `${head}${geminate(text)}${rule.geminatedReading ?? rule.reading}`;
+
+  const voices = rule.voiced && (element === 3 || element === 'thousand' || element === 'man' || (element === 4 && rule.voicedAfterFour));
+  return `${head}${text}${voices ? rule.voiced : rule.reading}`;
+};
+
+// "2.5" → にてんご; いち, はち and じゅう geminate before てん (はってんご).
+// A counter after a decimal keeps its plain reading (にてんごばい).
+const readDecimal = (integerPart: number, fraction: string, rule?: CounterRule): string => {
+  const readWhole = () => {
+    if (integerPart === 0) return 'れい';
+    if (integerPart >= MAX_INTEGER) return readNumber(integerPart);
+    const parts = readIntegerParts(integerPart);
+    const { text, element } = parts[parts.length - 1];
+    const geminates = element === 1 || element === 8 || element === 'ten';
+    return `${joinParts(parts.slice(0, -1))}${geminates ? geminate(text) : text}`;
+  };
+  return `${readWhole()}てん${readDigitString(fraction)}${rule?.reading ?? ''}`;
+};
+
+const readDay = (day: number) => DAYS[day] ?? readWithCounter(day, DAY_COUNTER);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest counters first so ヶ月 wins over 月 and 時間 over 時
+const COUNTER_PATTERN = Object.keys(COUNTERS)
+  .sort((a, b) => b.length - a.length)
+  .map(key => /^[a-z]+$/.test(key) ? `${key}(?![A-Za-z])` : escapeRegExp(key))
+  .join('|');
+
+// Optional currency sign, a number (thousands separators, decimals, 万/億/兆), optional counter
+const NUMBER_TOKEN = new RegExp(
+  `([¥$])?(\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.(\\d+))?((?:[兆億万]\\d*)*)(${COUNTER_PATTERN})?`,
+  'g'
+);
+const DATE = /(?:(\d{1,4})年)?(\d{1,2})月(\d{1,2})日/g;
+// Race times (1:33.5) are minutes, seconds and tenths; without a decimal it is a clock time
+const RACE_TIME = /(\d{1,2}):(\d{2})\.(\d{1,2})(?!\d)/g;
+const TIME = /(\d{1,2}):(\d{2})(?!\d|\.\d)/g;
+const DAYS_OF_MONTH = /(\d{1,2})日(間)?/g;
+const FRACTION = /(\d+)分の(\d+)/g;
+
+// "1億5000万" → 150000000; "2.5万" → 25000
+const parseKanjiUnits = (integerPart: string, fraction: string | undefined, units: string) => {
+  let total = 0;
+  let current = Number(`${integerPart}${fraction ? `.${fraction}` : ''}`);
+  for (const [, unit, digits] of units.matchAll(/([兆億万])(\d*)/g)) {
+    total += Math.round(current * KANJI_UNITS[unit]);
+    current = digits ? Number(digits) : 0;
+  }
+  return total + current;
+};
+
+const readNumberToken = (
+  _match: string,
+  currency: string | undefined,
+  integerPart: string,
+  fraction: string | undefined,
+  units: string,
+  counter: string | undefined
+) => {
+  const rule = counter ? COUNTERS[counter] : currency ? CURRENCIES[currency] : undefined;
+  const digits = integerPart.replace(/,/g, '');
+  if (units) {
+    const value = parseKanjiUnits(digits, fraction, units);
+    return rule ? readWithCounter(value, rule) : readNumber(value);
+  }
+  if (fraction) return readDecimal(Number(digits), fraction, rule);
+  return rule ? readWithCounter(Number(digits), rule) : readNumber(Number(digits));
+};
+
+// Converts every number in the text to its hiragana reading; everything else is left as is
+export const normalizeReading = (text: string): string =>
+  text
+    // Full-width digits and signs behave like their ASCII forms
+    .replace(/[０-９％＄：．，]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xFEE0))
+    .replace(/￥/g, '¥')
+    .replace(DATE, (_, year, month, day) => [
+      year ? readWithCounter(Number(year), COUNTERS['年']) : '',
+      readWithCounter(Number(month), COUNTERS['月']),
+      readDay(Number(day)),
+    ].filter(Boolean).join(' '))
+    // Read the way race callers do: 1:33.5 → いっぷん さんじゅうさんびょうご
+    .replace(RACE_TIME, (match, minutes, seconds, fraction) => {
+      if (Number(seconds) > 59) return match;
+      const second = `${readWithCounter(Number(seconds), COUNTERS['秒'])}${readDigitString(fraction)}`;
+      return Number(minutes) === 0 ? second : `${readWithCounter(Number(minutes), COUNTERS['分'])} ${second}`;
+    })
+    .replace(TIME, (match, hours, minutes) => {
+      if (Number(hours) > 24 || Number(minutes) > 59) return match;
+      const hour = readWithCounter(Number(hours), COUNTERS['時']);
+      return Number(minutes) === 0 ? hour : `${hour} ${readWithCounter(Number(minutes), COUNTERS['分'])}`;
+    })
+    // 3日間 is a duration (みっかかん); 1日間 is いちにちかん, not ついたち
+    .replace(DAYS_OF_MONTH, (_, day, duration) =>
+      duration ? `${Number(day) === 1 ? 'いちにち' : readDay(Number(day))}かん` : readDay(Number(day)))
+    // 3分の1 is a fraction (さんぶんのいち), not minutes
+    .replace(FRACTION, (_, denominator, numerator) => `${readNumber(Number(denominator))}ぶんの${readNumber(Number(numerator))}`)
+    .replace(NUMBER_TOKEN, readNumberToken);
+
+// Normalizes the spoken part of a TTS line and keeps its speaker prefix as written
+export const normalizePhoneticDialogue = (text: string, cast: CastMember[]): string => {
+  const clean = stripBulletBeforePrefix(text.trim(), cast);
+  const speaker = getSpeaker(clean, cast);
+  if (!speaker) return normalizeReading(clean);
+  return `${speaker.displayName}: ${normalizeReading(stripSpeakerPrefix(clean, cast))}`;
+};
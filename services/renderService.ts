@@ -0,0 +1,62 @@
+// Client for the local headless render service (render-server/server.ts)
+
+const RENDER_SERVER_URL = process.env.RENDER_SERVER_URL || 'http://localhost:3001';
+const POLL_INTERVAL_MS = 1000;
+
+export type RenderStage = 'uploading' | 'queued' | 'bundling' | 'rendering' | 'downloading' | 'done' | 'error';
+
+export interface RenderStatus {
+  id: string;
+  status: RenderStage;
+  progress: number; // 0..1 within the current stage
+  error?: string;
+  fileName: string;
+}
+
+const readJson = async <T>(response: Response): Promise<T> => {
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(payload.error || `Render server responded with ${response.status}.`);
+  }
+  return payload as T;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Uploads a project bundle, waits for the MP4 and returns it
+export const renderVideo = async (
+  projectBundle: Blob,
+  onProgress?: (stage: RenderStage, progress: number) => void
+): Promise<{ blob: Blob; fileName: string }> => {
+  onProgress?.('uploading', 0);
+
+  let status: RenderStatus;
+  try {
+    status = await readJson<RenderStatus>(await fetch(`${RENDER_SERVER_URL}/renders`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/zip' },
+      body: projectBundle,
+    }));
+  } catch (e: any) {
+    if (e instanceof TypeError) {
+      throw new Error(`Could not reach the render server at ${RENDER_SERVER_URL}. Start it with "npm run render-server".`);
+    }
+    throw e;
+  }
+
+  while (status.status !== 'done') {
+    if (status.status === 'error') {
+      throw new Error(status.error || 'Render failed.');
+    }
+    onProgress?.(status.status, status.progress);
+    await wait(POLL_INTERVAL_MS);
+    status = await readJson<RenderStatus>(await fetch(`${RENDER_SERVER_URL}/renders/${status.id}`));
+  }
+
+  onProgress?.('downloading', 1);
+  const response = await fetch(`${RENDER_SERVER_URL}/renders/${status.id}/output`);
+  if (!response.ok) {
+    throw new Error(`Failed to download the rendered video (${response.status}).`);
+  }
+  return { blob: await response.blob(), fileName: status.fileName };
+};
@@ -0,0 +1,71 @@
+import { VideoScript, Scene, CastMember } from "../types";
+import { buildTimeline } from "./timeline";
+
+// Structural edits on the scene list. All helpers return a new script and keep
+// totalDurationInSeconds in sync with the scenes and their transitions.
+
+export const MIN_SCENE_SECONDS = 1; // Remotion sequences need at least one frame beyond the transition
+
+export const withScenes = (script: VideoScript, scenes: Scene[]): VideoScript => ({
+  ...script,
+  scenes,
+  totalDurationInSeconds: Math.ceil(buildTimeline(scenes).durationInSeconds),
+});
+
+const createSceneId = (): string => crypto.randomUUID();
+
+// Gives scenes without an id one; returns the same script when every scene already has one
+export const withSceneIds = (script: VideoScript): VideoScript =>
+  script.scenes.every(scene => scene.id)
+    ? script
+    : { ...script, scenes: script.scenes.map(scene => scene.id ? scene : { ...scene, id: createSceneId() }) };
+
+export const createBlankScene = (speaker: CastMember): Scene => ({
+  id: createSceneId(),
+  dialogue: `${speaker.displayName}: `,
+  phoneticDialogue: `${speaker.displayName}: `,
+  visualDescription: '',
+  keyword: 'studio',
+  durationInSeconds: 5,
+  backgroundColor: '#4f46e5',
+  dataOverlay: { title: 'New scene', headers: ['項目'], row: [''] },
+});
+
+export const updateScene = (script: VideoScript, index: number, patch: Partial<Scene>): VideoScript =>
+  withScenes(script, script.scenes.map((scene, idx) => idx === index ? { ...scene, ...patch } : scene));
+
+export const insertScene = (script: VideoScript, index: number, scene: Scene): VideoScript =>
+  withScenes(script, [...script.scenes.slice(0, index), scene, ...script.scenes.slice(index)]);
+
+export const duplicateScene = (script: VideoScript, index: number): VideoScript => {
+  const scene = script.scenes[index];
+  const copy: Scene = {
+    ...scene,
+    id: createSceneId(),
+    dataOverlay: { ...scene.dataOverlay, headers: [...scene.dataOverlay.headers], row: [...scene.dataOverlay.row] },
+    subtitleChunks: scene.subtitleChunks?.map(chunk => ({ ...chunk })),
+  };
+  return insertScene(script, index + 1, copy);
+};
+
+export const deleteScene = (script: VideoScript, index: number): VideoScript =>
+  withScenes(script, script.scenes.filter((_, idx) => idx !== index));
+
+export const moveScene = (script: VideoScript, from: number, to: number): VideoScript => {
+  if (from === to) return script;
+  const scenes = [...script.scenes];
+  const [moved] = scenes.splice(from, 1);
+  scenes.splice(to, 0, moved);
+  return withScenes(script, scenes);
+};
+
+// Problems that would render badly; shown in the editor, never enforced on the data.
+// Script rules (prefixes, readings, overlay shape) are checked by the script linter.
+export const getSceneIssues = (scene: Scene): string[] => {
+  const issues: string[] = [];
+  if (!scene.dialogue.trim()) issues.push('Dialogue is empty.');
+  if (scene.audioDuration && scene.durationInSeconds < scene.audioDuration) {
+    issues.push(`Duration is shorter than the voiceover (${scene.audioDuration.toFixed(1)}s).`);
+  }
+  return issues;
+};
@@ -0,0 +1,22 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { stripStageDirections } from './scriptLinter';
+
+// [dialogue, without stage directions]
+const CASES: [string, string][] = [
+  ['(BGM) 今日は晴れです', '今日は晴れです'],
+  ['いきますよ（拍手）', 'いきますよ'],
+  ['【効果音: ファンファーレ】スタート！', 'スタート！'],
+  ['[INTRO] こんにちは', 'こんにちは'],
+  ['(SFX: WHOOSH) 次へ', '次へ'],
+  ['[Fade out]', ''],
+  ['ジャパンカップ(G1)は東京(JRA)で、（間もなく）発走', 'ジャパンカップ(G1)は東京(JRA)で、（間もなく）発走'],
+  ['（笑顔で）どうぞ', '（笑顔で）どうぞ'],
+  ['(SE馬場)は良', '(SE馬場)は良'],
+];
+
+test('stripStageDirections removes only whole cues', () => {
+  for (const [dialogue, expected] of CASES) {
+    assert.equal(stripStageDirections(dialogue), expected, dialogue);
+  }
+});
@@ -0,0 +1,244 @@
+import { VideoScript, Scene, CastMember, LexiconEntry } from "../types";
+import { getSpeaker, getSpeakerPrefixRegex, stripBulletBeforePrefix, stripSpeakerPrefix } from "./cast";
+import { updateScene } from "./scenes";
+import { normalizePhoneticDialogue } from "./readingNormalizer";
+import { applyLexicon } from "./lexicon";
+import { createValueIndex } from "./dataImport";
+
+// Checks the rules the script prompt asks the model to follow. Runs on every version of the
+// script (after generation and after each edit) and never changes it by itself; fixes are
+// offered only where the right result is unambiguous.
+
+export type LintRuleId =
+  | 'dialogue-prefix'
+  | 'phonetic-prefix'
+  | 'same-speaker'
+  | 'stage-direction'
+  | 'phonetic-katakana'
+  | 'phonetic-kanji'
+  | 'phonetic-numbers'
+  | 'phonetic-latin'
+  | 'overlay-length'
+  | 'overlay-unsourced';
+
+export interface LintIssue {
+  rule: LintRuleId;
+  sceneIndex: number;
+  severity: 'error' | 'warning'; // Errors break TTS speaker mapping or rendering
+  message: string;
+  fixLabel?: string;
+  fix?: (scene: Scene) => Scene; // Set for deterministic fixes only
+}
+
+// Parenthesized cues such as (BGM), （拍手）, 【効果音: 拍手】 or [INTRO]. The bracket must hold only
+// the cue word, optionally followed by a colon and a detail, so (G1), (JRA) or （間もなく） stay.
+const DIRECTION_WORDS = [
+  'BGM', 'SE', 'SFX', 'Music', 'Laugh', 'Laughs', 'Laughter', 'Pause', 'Applause', 'Sigh', 'Jingle',
+  'Intro', 'Outro', 'Fade in', 'Fade out',
+  '効果音', '音楽', 'ジングル', '笑い', '拍手', '沈黙', 'ため息', '咳払い',
+  'びーじーえむ', 'わらい', 'はくしゅ',
+];
+const STAGE_DIRECTION = new RegExp(
+  `\\s*[（(【\\[]\\s*(?:${DIRECTION_WORDS.join('|')})\\s*(?:[:：][^）)】\\]]{0,20})?[）)】\\]]`,
+  'gi'
+);
+
+const KATAKANA = /[ァ-ヶ]/g;
+const KANJI = /[一-鿿々]/g;
+const NUMBERS = /[0-9０-９%％¥￥$＄]/g;
+const LATIN = /[A-Za-zＡ-Ｚａ-ｚ]/g;
+
+const findStageDirections = (text: string) => (text.match(STAGE_DIRECTION) ?? []).map(match => match.trim());
+
+export const stripStageDirections = (text: string) =>
+  text.replace(STAGE_DIRECTION, '').replace(/[ \t]{2,}/g, ' ').trim();
+
+export const katakanaToHiragana = (text: string) =>
+  text.replace(KATAKANA, ch => String.fromCharCode(ch.charCodeAt(0) - 0x60));
+
+const uniqueMatches = (text: string, pattern: RegExp) => [...new Set(text.match(pattern) ?? [])];
+
+const quoteChars = (chars: string[]) => chars.slice(0, 5).map(ch => `「${ch}」`).join('');
+
+// Speaker of a line, tolerating the Markdown bullets the model sometimes adds
+const findSpeaker = (text: string | undefined, cast: CastMember[]) =>
+  text ? getSpeaker(stripBulletBeforePrefix(text.trim(), cast), cast) : undefined;
+
+const hasCleanPrefix = (text: string, cast: CastMember[]) => getSpeakerPrefixRegex(cast).test(text);
+
+const withPrefix = (text: string, speaker: CastMember, cast: CastMember[]) => {
+  const body = stripSpeakerPrefix(stripBulletBeforePrefix(text.trim(), cast), cast);
+  return `${speaker.displayName}: ${body}`;
+};
+
+// Best guess for a scene whose dialogue has no prefix: the phonetic line, then turn order
+const inferSpeaker = (scenes: Scene[], index: number, cast: CastMember[]) => {
+  const fromPhonetic = findSpeaker(scenes[index].phoneticDialogue, cast);
+  if (fromPhonetic) return fromPhonetic;
+  const previous = index > 0 ? findSpeaker(scenes[index - 1].dialogue, cast) : undefined;
+  if (!previous) return cast[0];
+  return cast[(cast.indexOf(previous) + 1) % cast.length];
+};
+
+const lintScene = (
+  scenes: Scene[],
+  index: number,
+  cast: CastMember[],
+  lexicon: LexiconEntry[],
+  isSourced?: (value: string) => boolean
+): LintIssue[] => {
+  const scene = scenes[index];
+  const issues: LintIssue[] = [];
+  const add = (issue: Omit<LintIssue, 'sceneIndex'>) => issues.push({ ...issue, sceneIndex: index });
+
+  // Speaker prefixes
+  const speaker = findSpeaker(scene.dialogue, cast);
+  if (!speaker || !hasCleanPrefix(scene.dialogue.trim(), cast)) {
+    const inferred = speaker ?? inferSpeaker(scenes, index, cast);
+    add({
+      rule: 'dialogue-prefix',
+      severity: 'error',
+      message: speaker ? 'Dialogue has text before the speaker prefix.' : 'Dialogue does not start with a speaker prefix.',
+      fixLabel: `Prefix with "${inferred.displayName}:"`,
+      fix: s => ({ ...s, dialogue: withPrefix(s.dialogue, inferred, cast) }),
+    });
+  }
+
+  const phonetic = scene.phoneticDialogue?.trim();
+  if (phonetic) {
+    const phoneticSpeaker = findSpeaker(phonetic, cast);
+    const expected = speaker ?? phoneticSpeaker ?? inferSpeaker(scenes, index, cast);
+    if (!phoneticSpeaker || phoneticSpeaker !== expected || !hasCleanPrefix(phonetic, cast)) {
+      add({
+        rule: 'phonetic-prefix',
+        severity: 'error',
+        message: !phoneticSpeaker
+          ? 'Hiragana text does not start with a speaker prefix.'
+          : phoneticSpeaker !== expected
+            ? `Hiragana prefix "${phoneticSpeaker.displayName}" does not match the dialogue speaker "${expected.displayName}".`
+            : 'Hiragana text has text before the speaker prefix.',
+        fixLabel: `Prefix with "${expected.displayName}:"`,
+        fix: s => ({ ...s, phoneticDialogue: withPrefix(s.phoneticDialogue ?? '', expected, cast) }),
+      });
+    }
+  }
+
+  // Turn order
+  if (cast.length > 1 && index > 0 && speaker && speaker === findSpeaker(scenes[index - 1].dialogue, cast)) {
+    add({
+      rule: 'same-speaker',
+      severity: 'warning',
+      message: `"${speaker.displayName}" also speaks the previous scene.`,
+    });
+  }
+
+  // Stage directions
+  const directions = [...findStageDirections(scene.dialogue), ...findStageDirections(scene.phoneticDialogue ?? '')];
+  if (directions.length > 0) {
+    add({
+      rule: 'stage-direction',
+      severity: 'warning',
+      message: `Stage directions would be read aloud: ${[...new Set(directions)].join(' ')}`,
+      fixLabel: 'Remove directions',
+      fix: s => ({
+        ...s,
+        dialogue: stripStageDirections(s.dialogue),
+        phoneticDialogue: s.phoneticDialogue === undefined ? undefined : stripStageDirections(s.phoneticDialogue),
+      }),
+    });
+  }
+
+  // Hiragana-only reading
+  if (phonetic) {
+    // Stage directions are reported above, and lexicon terms are replaced before TTS
+    const body = applyLexicon(stripStageDirections(stripSpeakerPrefix(stripBulletBeforePrefix(phonetic, cast), cast)), lexicon);
+    const katakana = uniqueMatches(body, KATAKANA);
+    if (katakana.length > 0) {
+      add({
+        rule: 'phonetic-katakana',
+        severity: 'warning',
+        message: `Hiragana text contains katakana: ${quoteChars(katakana)}`,
+        fixLabel: 'Convert to hiragana',
+        fix: s => {
+          // Only the reading is converted; a katakana display name must stay as it is
+          const text = s.phoneticDialogue ?? '';
+          const prefixSpeaker = findSpeaker(text, cast);
+          return {
+            ...s,
+            phoneticDialogue: prefixSpeaker ? withPrefix(katakanaToHiragana(stripSpeakerPrefix(stripBulletBeforePrefix(text.trim(), cast), cast)), prefixSpeaker, cast) : katakanaToHiragana(text),
+          };
+        },
+      });
+    }
+    const kanji = uniqueMatches(body, KANJI);
+    if (kanji.length > 0) {
+      add({ rule: 'phonetic-kanji', severity: 'warning', message: `Hiragana text contains kanji: ${quoteChars(kanji)}` });
+    }
+    const numbers = uniqueMatches(body, NUMBERS);
+    if (numbers.length > 0) {
+      add({
+        rule: 'phonetic-numbers',
+        severity: 'warning',
+        message: `Numbers and symbols are not spelled out: ${quoteChars(numbers)}`,
+        fixLabel: 'Spell out numbers',
+        fix: s => ({ ...s, phoneticDialogue: normalizePhoneticDialogue(s.phoneticDialogue ?? '', cast) }),
+      });
+    }
+    const latin = uniqueMatches(body, LATIN);
+    if (latin.length > 0) {
+      add({ rule: 'phonetic-latin', severity: 'warning', message: `Hiragana text contains latin letters: ${quoteChars(latin)}` });
+    }
+  }
+
+  // Overlay table
+  const { headers, row } = scene.dataOverlay;
+  if (headers.length !== row.length) {
+    add({
+      rule: 'overlay-length',
+      severity: 'error',
+      message: `The overlay has ${headers.length} headers but ${row.length} values.`,
+      fixLabel: 'Pad the shorter list',
+      fix: s => {
+        const length = Math.max(s.dataOverlay.headers.length, s.dataOverlay.row.length);
+        const pad = (values: string[]) => Array.from({ length }, (_, idx) => values[idx] ?? '');
+        return { ...s, dataOverlay: { ...s.dataOverlay, headers: pad(s.dataOverlay.headers), row: pad(s.dataOverlay.row) } };
+      },
+    });
+  }
+
+  // Imported data is ground truth; overlay values must come from it
+  const unsourced = isSourced ? scene.dataOverlay.row.filter(value => !isSourced(value)) : [];
+  if (unsourced.length > 0) {
+    add({
+      rule: 'overlay-unsourced',
+      severity: 'warning',
+      message: `Overlay values not found in the imported data: ${unsourced.map(value => `"${value}"`).join(', ')}`,
+    });
+  }
+
+  return issues;
+};
+
+export const lintScript = (script: VideoScript, cast: CastMember[], lexicon: LexiconEntry[] = []): LintIssue[] => {
+  const isSourced = script.referenceMaterial?.source ? createValueIndex(script.referenceMaterial) : undefined;
+  return script.scenes.flatMap((_, idx) => lintScene(script.scenes, idx, cast, lexicon, isSourced));
+};
+
+export const applyLintFix = (script: VideoScript, issue: LintIssue): VideoScript => {
+  const scene = script.scenes[issue.sceneIndex];
+  if (!scene || !issue.fix) return script;
+  return updateScene(script, issue.sceneIndex, issue.fix(scene));
+};
+
+// Applies fixes one at a time, re-linting in between, since one fix can resolve or change
+// another (e.g. a repaired dialogue prefix decides the expected hiragana prefix)
+export const applyAllLintFixes = (script: VideoScript, cast: CastMember[], lexicon: LexiconEntry[] = []): VideoScript => {
+  let result = script;
+  const applied = new Set<string>();
+  for (;;) {
+    const next = lintScript(result, cast, lexicon).find(issue => issue.fix && !applied.has(`${issue.sceneIndex}:${issue.rule}`));
+    if (!next) return result;
+    applied.add(`${next.sceneIndex}:${next.rule}`); // Each rule is fixed at most once per scene
+    result = applyLintFix(result, next);
+  }
+};
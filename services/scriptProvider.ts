@@ -0,0 +1,14 @@
+import { ScriptProvider, ScriptProviderId } from "../types";
+import { geminiScriptProvider, hasGeminiApiKey } from "./geminiService";
+import { localScriptProvider } from "./localScriptProvider";
+
+export const SCRIPT_PROVIDERS: ScriptProvider[] = [
+  geminiScriptProvider,
+  localScriptProvider,
+];
+
+// Without an API key the app starts on the offline provider so the editor is usable right away
+export const DEFAULT_SCRIPT_PROVIDER_ID: ScriptProviderId = hasGeminiApiKey() ? 'gemini' : 'local';
+
+export const getScriptProvider = (id: ScriptProviderId): ScriptProvider =>
+  SCRIPT_PROVIDERS.find(p => p.id === id) ?? localScriptProvider;
@@ -0,0 +1,235 @@
+import { VideoScript, Scene, CastMember, SpeechEngine, SpeechEngineId, SpeechSettings, SpeechRequest, LexiconEntry } from "../types";
+import { ensureSpeakerPrefix, getSpeaker, getSpeakerPrefixRegex } from "./cast";
+import { geminiSpeechEngine, hasGeminiApiKey } from "./geminiService";
+import { localSpeechEngine } from "./localSpeechEngine";
+import { alignSubtitlesToAudio } from "./subtitleAlignment";
+import { withScenes } from "./scenes";
+import { runPool, withRetry, JobError, FailureKind } from "./jobRunner";
+import { getSpeechCacheKey, getCachedSpeech, putCachedSpeech } from "./ttsCache";
+import { applyLexicon } from "./lexicon";
+import { measureClipLoudness } from "./mastering";
+import { getSceneSecondsForAudio } from "./timeline";
+
+export const SPEECH_ENGINES: SpeechEngine[] = [
+  geminiSpeechEngine,
+  localSpeechEngine,
+];
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  engine: hasGeminiApiKey() ? 'gemini' : 'local',
+  voiceMap: {},
+};
+
+export const getSpeechEngine = (id: SpeechEngineId): SpeechEngine =>
+  SPEECH_ENGINES.find(e => e.id === id) ?? localSpeechEngine;
+
+// Voice for one cast member: the project's mapping if the engine knows it, else the engine default
+export const resolveVoice = (engine: SpeechEngine, cast: CastMember[], member: CastMember, voiceMap: Record<string, string>) => {
+  const mapped = voiceMap[member.id];
+  return mapped && engine.voices.includes(mapped) ? mapped : engine.defaultVoice(member, cast.indexOf(member));
+};
+
+const resolveVoices = (engine: SpeechEngine, cast: CastMember[], voiceMap: Record<string, string>) =>
+  Object.fromEntries(cast.map(member => [member.id, resolveVoice(engine, cast, member, voiceMap)]));
+
+// Reading as edited by the user. Cleans up markdown bullets and normalizes the speaker prefix
+// (inferred from dialogue, or the first cast member) in case the user edited it weirdly.
+export const getPhoneticText = (scene: Scene, cast: CastMember[]) =>
+  ensureSpeakerPrefix(scene.phoneticDialogue || scene.dialogue || "...", scene.dialogue, cast);
+
+// Text sent to TTS for a scene: the reading with lexicon terms replaced after the prefix.
+// The lexicon is applied here rather than written back, so lexicon edits mark audio stale.
+export const getSpokenText = (scene: Scene, cast: CastMember[], lexicon: LexiconEntry[] = []) => {
+  const text = getPhoneticText(scene, cast);
+  const prefixLength = text.match(getSpeakerPrefixRegex(cast))?.[0].length ?? 0;
+  return text.slice(0, prefixLength) + applyLexicon(text.slice(prefixLength), lexicon);
+};
+
+// Audio made before audioText was recorded is assumed current
+export const isAudioStale = (scene: Scene, cast: CastMember[], lexicon: LexiconEntry[] = []) =>
+  !!scene.audioUrl && scene.audioText !== undefined && scene.audioText !== getSpokenText(scene, cast, lexicon);
+
+export interface GeneratedSpeech {
+  audioUrl: string;
+  duration: number;
+  loudness?: number; // LUFS; undefined for silent or undecodable clips
+  cached: boolean; // Served from the TTS cache without calling the engine
+}
+
+// Consults the TTS cache first unless useCache is false.
+// Throws on failure so batch runs can tell rate limits from bad input.
+export const generateSpeech = async (
+  text: string,
+  cast: CastMember[],
+  settings: SpeechSettings,
+  { signal, useCache = true }: { signal?: AbortSignal; useCache?: boolean } = {}
+): Promise<GeneratedSpeech> => {
+  const engine = getSpeechEngine(settings.engine);
+  const speaker = getSpeaker(text, cast) ?? cast[0];
+  const request: SpeechRequest = {
+    text,
+    speaker,
+    cast,
+    voices: resolveVoices(engine, cast, settings.voiceMap),
+    signal,
+  };
+
+  const key = await getSpeechCacheKey(engine, request);
+  if (useCache) {
+    const hit = await getCachedSpeech(key);
+    if (hit) {
+      return { audioUrl: URL.createObjectURL(hit.audio), duration: hit.duration, loudness: await measureClipLoudness(hit.audio), cached: true };
+    }
+  }
+
+  const result = await engine.synthesize(request);
+  await putCachedSpeech({
+    key,
+    engine: engine.id,
+    model: engine.model,
+    speaker: speaker.displayName,
+    voice: request.voices[speaker.id],
+    text,
+    audio: result.audio,
+    duration: result.duration,
+  });
+  return { audioUrl: URL.createObjectURL(result.audio), duration: result.duration, loudness: await measureClipLoudness(result.audio), cached: false };
+};
+
+// HTTP status from @google/genai's ApiError or a fetch-style error, if any
+const getErrorStatus = (error: unknown): number | undefined => {
+  if (typeof error !== 'object' || error === null) return undefined;
+  if ('status' in error && typeof error.status === 'number') return error.status;
+  if ('code' in error && typeof error.code === 'number') return error.code;
+  return undefined;
+};
+
+export const classifySpeechError = (error: unknown): FailureKind => {
+  const status = getErrorStatus(error);
+  const message = error instanceof Error ? error.message : String(error);
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit|quota/i.test(message)) return 'rate-limit';
+  if (status === 400 || status === 401 || status === 403 || status === 404 || /INVALID_ARGUMENT|API_KEY|not set/i.test(message)) {
+    return 'invalid-input';
+  }
+  return 'transient';
+};
+
+export const DEFAULT_SPEECH_CONCURRENCY = 3;
+const MAX_SPEECH_RETRIES = 3;
+
+export interface SceneSpeechFailure {
+  index: number;
+  kind: FailureKind;
+  reason: string;
+  attempts: number;
+}
+
+export interface SpeechBatchReport {
+  attempted: number[]; // Scene indices that were requested
+  cacheHits: number[]; // Scene indices served from the TTS cache
+  failures: SceneSpeechFailure[];
+  cancelled: boolean;
+}
+
+export interface SpeechBatchOptions {
+  concurrency?: number;
+  sceneIndices?: number[]; // Defaults to every scene; used by "retry failed only"
+  useCache?: boolean;
+  lexicon?: LexiconEntry[]; // Merged project and global lexicon
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+// STEP 2: Generate Audio & Link to Script
+// Scenes run concurrently with retries. Scenes that fail or are cancelled keep their previous audio.
+export const addAudioToScript = async (
+  currentScript: VideoScript,
+  cast: CastMember[],
+  settings: SpeechSettings,
+  { concurrency = DEFAULT_SPEECH_CONCURRENCY, sceneIndices, useCache = true, lexicon = [], signal, onProgress }: SpeechBatchOptions = {}
+): Promise<{ script: VideoScript; report: SpeechBatchReport }> => {
+  const indices = sceneIndices ?? currentScript.scenes.map((_, idx) => idx);
+
+  const results = await runPool(indices, async (sceneIndex) => {
+    const scene = currentScript.scenes[sceneIndex];
+    const textToSpeak = getSpokenText(scene, cast, lexicon);
+
+    const audioResult = await withRetry(
+      () => generateSpeech(textToSpeak, cast, settings, { signal, useCache }),
+      { maxRetries: MAX_SPEECH_RETRIES, classify: classifySpeechError, signal }
+    );
+
+    const finalDuration = Math.max(scene.durationInSeconds, getSceneSecondsForAudio(currentScript.scenes, sceneIndex, audioResult.duration));
+    // New audio invalidates any earlier timing, including manual overrides
+    const subtitleChunks = await alignSubtitlesToAudio(scene.dialogue, audioResult.audioUrl, cast);
+
+    const updated: Scene = {
+      ...scene,
+      phoneticDialogue: getPhoneticText(scene, cast), // Save the properly prefixed version
+      audioUrl: audioResult.audioUrl,
+      audioText: textToSpeak,
+      audioDuration: audioResult.duration,
+      audioLoudness: audioResult.loudness,
+      durationInSeconds: finalDuration,
+      subtitleChunks
+    };
+    return { scene: updated, cached: audioResult.cached };
+  }, { concurrency, signal, onSettled: onProgress });
+
+  const scenes: Scene[] = [...currentScript.scenes];
+  const failures: SceneSpeechFailure[] = [];
+  const cacheHits: number[] = [];
+
+  results.forEach((result, idx) => {
+    const sceneIndex = indices[idx];
+    if (result.ok) {
+      scenes[sceneIndex] = result.value.scene;
+      if (result.value.cached) cacheHits.push(sceneIndex);
+      return;
+    }
+    const error = result.error;
+    const failure = error instanceof JobError
+      ? { index: sceneIndex, kind: error.kind, reason: error.message, attempts: error.attempts }
+      : { index: sceneIndex, kind: classifySpeechError(error), reason: error instanceof Error ? error.message : String(error), attempts: 1 };
+    if (failure.kind !== 'cancelled') console.warn(`Audio generation failed for scene ${sceneIndex + 1}:`, failure.reason);
+    failures.push(failure);
+  });
+
+  return {
+    script: withScenes(currentScript, scenes),
+    report: { attempted: indices, cacheHits, failures, cancelled: !!signal?.aborted },
+  };
+};
+
+// Copies the voiceover of the scenes a batch finished onto the script as it is now, matched by
+// scene id, so text edits made while the batch ran are kept. source is the script the batch
+// started from, generated the one it returned.
+export const mergeGeneratedAudio = (
+  current: VideoScript,
+  source: VideoScript,
+  generated: VideoScript,
+  report: SpeechBatchReport
+): VideoScript => {
+  const failed = new Set(report.failures.map(failure => failure.index));
+  const finished = new Map(report.attempted
+    .filter(idx => !failed.has(idx) && generated.scenes[idx].id)
+    .map(idx => [generated.scenes[idx].id!, idx]));
+  if (finished.size === 0) return current;
+
+  return withScenes(current, current.scenes.map(scene => {
+    const idx = scene.id ? finished.get(scene.id) : undefined;
+    if (idx === undefined) return scene;
+    const audio = generated.scenes[idx];
+    return {
+      ...scene,
+      // The prefixed reading only replaces a reading nobody edited meanwhile
+      phoneticDialogue: scene.phoneticDialogue === source.scenes[idx].phoneticDialogue ? audio.phoneticDialogue : scene.phoneticDialogue,
+      audioUrl: audio.audioUrl,
+      audioText: audio.audioText,
+      audioDuration: audio.audioDuration,
+      audioLoudness: audio.audioLoudness,
+      durationInSeconds: audio.durationInSeconds,
+      subtitleChunks: audio.subtitleChunks,
+    };
+  }));
+};
@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { alignChunksToSpeech } from './subtitleAlignment';
+
+test('alignChunksToSpeech snaps boundaries to pauses', () => {
+  const chunks = alignChunksToSpeech(['あいう', 'えお'], [{ start: 0.5, end: 1 }, { start: 1.4, end: 2 }]);
+  assert.deepEqual(chunks.map(c => [c.start, c.end]), [[0.4, 1.2], [1.2, 2.3]]);
+});
+
+test('alignChunksToSpeech never moves a boundary before the previous one', () => {
+  // One pause for two boundaries: the first falls back to its estimate after the pause
+  const chunks = alignChunksToSpeech(['あいうえお', 'か', 'き'], [{ start: 0, end: 1 }, { start: 1.2, end: 2 }]);
+  chunks.forEach((chunk, idx) => {
+    assert.ok(chunk.start <= chunk.end, `chunk ${idx} ends before it starts`);
+    if (idx > 0) assert.equal(chunk.start, chunks[idx - 1].end);
+  });
+});
@@ -0,0 +1,130 @@
+import { CastMember, SubtitleChunk } from "../types";
+import { splitDialogueIntoChunks } from "./subtitles";
+import { decodePcm16Wav } from "./wav";
+
+// Snaps subtitle chunk boundaries to the real pauses in a scene's voiceover.
+//
+// 1. The decoded audio is cut into short analysis windows and each window is classified
+//    as speech or silence from its RMS level.
+// 2. Silences long enough to be a breath between phrases become pause candidates.
+// 3. Each chunk boundary is first estimated from character counts across the speech span,
+//    then moved to the nearest unused pause that keeps the boundaries in order.
+
+const WINDOW_SECONDS = 0.02;
+const MIN_PAUSE_SECONDS = 0.15; // Shorter gaps are consonants or breaths inside a phrase
+const LEAD_IN_SECONDS = 0.1; // Show the caption slightly before the voice starts
+const HOLD_SECONDS = 0.3; // Keep the last caption up briefly after the voice ends
+
+interface Region {
+  start: number;
+  end: number;
+}
+
+export const detectSpeechRegions = (samples: Float32Array, sampleRate: number): Region[] => {
+  const windowSize = Math.max(1, Math.round(WINDOW_SECONDS * sampleRate));
+  const levels: number[] = [];
+  for (let offset = 0; offset < samples.length; offset += windowSize) {
+    const end = Math.min(samples.length, offset + windowSize);
+    let sum = 0;
+    for (let i = offset; i < end; i++) sum += samples[i] * samples[i];
+    levels.push(Math.sqrt(sum / (end - offset)));
+  }
+
+  // Relative to the loudest window so quiet and loud takes are treated alike
+  const peak = Math.max(0, ...levels);
+  const threshold = Math.max(peak * 0.08, 0.003);
+
+  const regions: Region[] = [];
+  let current: Region | null = null;
+  levels.forEach((level, idx) => {
+    const time = idx * WINDOW_SECONDS;
+    if (level >= threshold) {
+      if (current && time - current.end < MIN_PAUSE_SECONDS) {
+        current.end = time + WINDOW_SECONDS;
+      } else {
+        current = { start: time, end: time + WINDOW_SECONDS };
+        regions.push(current);
+      }
+    }
+  });
+  return regions;
+};
+
+export const alignChunksToSpeech = (textChunks: string[], regions: Region[]): SubtitleChunk[] => {
+  if (textChunks.length === 0 || regions.length === 0) return [];
+
+  const speechStart = regions[0].start;
+  const speechEnd = regions[regions.length - 1].end;
+  const pauses = regions.slice(1).map((region, idx) => ({
+    start: regions[idx].end,
+    end: region.start,
+    mid: (regions[idx].end + region.start) / 2,
+  }));
+
+  const totalChars = Math.max(1, textChunks.join('').length);
+  const boundaries: number[] = [];
+  let consumedChars = 0;
+  let nextPause = 0;
+
+  for (let i = 0; i < textChunks.length - 1; i++) {
+    consumedChars += textChunks[i].length;
+    const estimate = speechStart + (consumedChars / totalChars) * (speechEnd - speechStart);
+    const previous = boundaries[boundaries.length - 1] ?? speechStart;
+    // Pauses before the previous boundary would end a chunk before it starts
+    while (nextPause < pauses.length && pauses[nextPause].mid < previous) nextPause++;
+
+    // Leave enough later pauses for the boundaries still to come
+    const remainingBoundaries = textChunks.length - 2 - i;
+    const lastUsable = pauses.length - 1 - remainingBoundaries;
+    let best = -1;
+    for (let p = nextPause; p <= lastUsable; p++) {
+      if (best === -1 || Math.abs(pauses[p].mid - estimate) < Math.abs(pauses[best].mid - estimate)) {
+        best = p;
+      }
+    }
+
+    if (best === -1) {
+      boundaries.push(Math.max(estimate, previous));
+    } else {
+      boundaries.push(pauses[best].mid);
+      nextPause = best + 1;
+    }
+  }
+
+  return textChunks.map((text, idx) => ({
+    text,
+    start: idx === 0 ? Math.max(0, speechStart - LEAD_IN_SECONDS) : boundaries[idx - 1],
+    end: idx === textChunks.length - 1 ? speechEnd + HOLD_SECONDS : boundaries[idx],
+  }));
+};
+
+const decodeAudio = async (audioUrl: string) => {
+  const bytes = await (await fetch(audioUrl)).arrayBuffer();
+  const wav = decodePcm16Wav(bytes);
+  if (wav) return wav;
+
+  const CtxClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new CtxClass();
+  try {
+    const buffer = await ctx.decodeAudioData(bytes);
+    return { samples: buffer.getChannelData(0), sampleRate: buffer.sampleRate };
+  } finally {
+    ctx.close();
+  }
+};
+
+// Returns undefined when the audio cannot be analysed; the renderer then falls back to estimated timing
+export const alignSubtitlesToAudio = async (
+  dialogue: string,
+  audioUrl: string,
+  cast: CastMember[]
+): Promise<SubtitleChunk[] | undefined> => {
+  try {
+    const { samples, sampleRate } = await decodeAudio(audioUrl);
+    const chunks = alignChunksToSpeech(splitDialogueIntoChunks(dialogue, cast), detectSpeechRegions(samples, sampleRate));
+    return chunks.length ? chunks : undefined;
+  } catch (e) {
+    console.warn("Subtitle alignment failed", e);
+    return undefined;
+  }
+};
@@ -0,0 +1,68 @@
+import { Scene, CastMember, SubtitleChunk, FPS } from "../types";
+import { stripSpeakerPrefix } from "./cast";
+
+// Helper to split Japanese text into natural chunks for subtitles
+export const splitDialogueIntoChunks = (text: string, cast: CastMember[]): string[] => {
+  // Remove speaker prefix if present
+  const cleanText = stripSpeakerPrefix(text, cast);
+  
+  // Split by sentence endings first
+  const sentences = cleanText.split(/(?<=[。！？!?])\s*/).filter(s => s.length > 0);
+  
+  const chunks: string[] = [];
+  
+  sentences.forEach(sentence => {
+    if (sentence.length < 25) {
+      chunks.push(sentence);
+    } else {
+      // If sentence is too long, split by commas
+      const subParts = sentence.split(/(?<=[、,])\s*/);
+      let currentChunk = "";
+      
+      subParts.forEach(part => {
+        if ((currentChunk + part).length > 30) {
+          if (currentChunk) chunks.push(currentChunk);
+          currentChunk = part;
+        } else {
+          currentChunk += part;
+        }
+      });
+      if (currentChunk) chunks.push(currentChunk);
+    }
+  });
+
+  return chunks;
+};
+
+// Fallback when no aligned timing exists: share the scene duration out by character count.
+// tailSeconds is the end of the scene under the next transition, which gets no subtitles.
+export const estimateChunkTimings = (textChunks: string[], durationInSeconds: number, tailSeconds: number): SubtitleChunk[] => {
+  const totalChars = textChunks.join('').length;
+  const totalDuration = Math.max(0, durationInSeconds - tailSeconds);
+
+  let currentStart = 0;
+  return textChunks.map(text => {
+    // Calculate duration based on character density
+    const weight = Math.max(text.length, 5); // Minimum weight for short words
+    const duration = (weight / Math.max(totalChars, 1)) * totalDuration;
+
+    const chunk = { text, start: currentStart, end: currentStart + duration };
+    currentStart += duration;
+    return chunk;
+  });
+};
+
+// Stored chunks only apply while they still describe the current dialogue
+export const hasCurrentSubtitleTiming = (scene: Scene, cast: CastMember[]) => {
+  if (!scene.subtitleChunks?.length) return false;
+  const expected = splitDialogueIntoChunks(scene.dialogue, cast);
+  return expected.length === scene.subtitleChunks.length
+    && expected.every((text, idx) => text === scene.subtitleChunks![idx].text);
+};
+
+// Timed caption chunks for a scene, relative to the scene start.
+// transitionOutFrames: the scene's SceneTiming.transitionOutFrames from buildTimeline
+export const getSceneSubtitleChunks = (scene: Scene, cast: CastMember[], transitionOutFrames: number): SubtitleChunk[] =>
+  hasCurrentSubtitleTiming(scene, cast)
+    ? scene.subtitleChunks!
+    : estimateChunkTimings(splitDialogueIntoChunks(scene.dialogue, cast), scene.durationInSeconds, transitionOutFrames / FPS);
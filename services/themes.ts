@@ -0,0 +1,105 @@
+import { LogoPosition, Theme } from "../types";
+
+// Built-in looks and helpers shared by the composition and the theme editor
+
+// Fonts must be installed or loaded by the page; the stacks fall back to system Japanese fonts
+export const FONT_OPTIONS: { label: string; value: string }[] = [
+  { label: 'Inter', value: "'Inter', 'Hiragino Sans', 'Noto Sans JP', sans-serif" },
+  { label: 'Noto Sans JP', value: "'Noto Sans JP', 'Hiragino Sans', sans-serif" },
+  { label: 'Rounded', value: "'M PLUS Rounded 1c', 'Hiragino Maru Gothic ProN', sans-serif" },
+  { label: 'Serif (Mincho)', value: "'Noto Serif JP', 'Hiragino Mincho ProN', serif" },
+  { label: 'Monospace', value: "'JetBrains Mono', 'Noto Sans Mono', monospace" },
+];
+
+export const LOGO_POSITIONS: LogoPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+// Logos are stored as data URLs in the project, so keep them small
+export const MAX_LOGO_BYTES = 300 * 1024;
+
+const STUDIO_THEME: Theme = {
+  presetId: 'studio',
+  name: 'Studio Purple',
+  fontFamily: FONT_OPTIONS[0].value,
+  headingFontFamily: FONT_OPTIONS[0].value,
+  palette: { primary: '#d8b4fe', accent: '#fde047', text: '#ffffff', mutedText: '#e9d5ff', background: '#020617' },
+  card: { color: '#0f172a', opacity: 0.6, borderColor: '#ffffff', radius: 24, blur: 24 },
+  subtitle: { textColor: '#fde047', backgroundColor: '#000000', backgroundOpacity: 0.8 },
+  progressBar: { visible: true, startColor: '#a855f7', endColor: '#6366f1', height: 6 },
+  logoPosition: 'top-left',
+  logoSize: 0.1,
+  watermark: 'AI Generated Preview',
+};
+
+export const THEME_PRESETS: Theme[] = [
+  STUDIO_THEME,
+  {
+    ...STUDIO_THEME,
+    presetId: 'turf',
+    name: 'Turf Green',
+    fontFamily: FONT_OPTIONS[1].value,
+    headingFontFamily: FONT_OPTIONS[1].value,
+    palette: { primary: '#86efac', accent: '#facc15', text: '#ffffff', mutedText: '#dcfce7', background: '#052e16' },
+    card: { color: '#052e16', opacity: 0.65, borderColor: '#86efac', radius: 16, blur: 16 },
+    subtitle: { textColor: '#ffffff', backgroundColor: '#14532d', backgroundOpacity: 0.85 },
+    progressBar: { visible: true, startColor: '#22c55e', endColor: '#facc15', height: 8 },
+    watermark: '',
+  },
+  {
+    ...STUDIO_THEME,
+    presetId: 'newsroom',
+    name: 'Newsroom',
+    fontFamily: FONT_OPTIONS[1].value,
+    headingFontFamily: FONT_OPTIONS[1].value,
+    palette: { primary: '#fca5a5', accent: '#ffffff', text: '#ffffff', mutedText: '#e5e7eb', background: '#111827' },
+    card: { color: '#111827', opacity: 0.85, borderColor: '#ef4444', radius: 4, blur: 8 },
+    subtitle: { textColor: '#ffffff', backgroundColor: '#b91c1c', backgroundOpacity: 0.9 },
+    progressBar: { visible: true, startColor: '#ef4444', endColor: '#ef4444', height: 6 },
+    watermark: '',
+  },
+  {
+    ...STUDIO_THEME,
+    presetId: 'minimal',
+    name: 'Minimal Mono',
+    fontFamily: FONT_OPTIONS[0].value,
+    headingFontFamily: FONT_OPTIONS[3].value,
+    palette: { primary: '#d4d4d4', accent: '#ffffff', text: '#ffffff', mutedText: '#a3a3a3', background: '#000000' },
+    card: { color: '#000000', opacity: 0.5, borderColor: '#ffffff', radius: 0, blur: 0 },
+    subtitle: { textColor: '#ffffff', backgroundColor: '#000000', backgroundOpacity: 0.6 },
+    progressBar: { visible: false, startColor: '#ffffff', endColor: '#ffffff', height: 4 },
+    watermark: '',
+  },
+];
+
+export const DEFAULT_THEME: Theme = STUDIO_THEME;
+
+// Switching preset keeps the show's logo
+export const applyThemePreset = (current: Theme, preset: Theme): Theme => ({
+  ...preset,
+  logoUrl: current.logoUrl,
+  logoPosition: current.logoPosition,
+  logoSize: current.logoSize,
+});
+
+// "#rrggbb" + alpha → rgba(); other CSS colors are returned unchanged
+export const withAlpha = (color: string, alpha: number) => {
+  const match = color.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return color;
+  const [r, g, b] = match.slice(1).map(hex => parseInt(hex, 16));
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+// Colors for chart series, starting with the theme's own
+export const getSeriesColors = (theme: Theme) => [theme.palette.primary, theme.palette.accent, '#38bdf8', '#f472b6'];
+
+export const readLogoFile = (file: File): Promise<string> => {
+  if (!file.type.startsWith('image/')) return Promise.reject(new Error("The logo must be an image."));
+  if (file.size > MAX_LOGO_BYTES) {
+    return Promise.reject(new Error(`The logo is too large (max ${Math.round(MAX_LOGO_BYTES / 1024)} KB).`));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read the logo."));
+    reader.readAsDataURL(file);
+  });
+};
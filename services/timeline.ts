@@ -0,0 +1,73 @@
+import { Scene, FPS } from "../types";
+import { getSceneTransition, DEFAULT_TRANSITION } from "./transitions";
+
+// The one placement of scenes on the video timeline. The player, the headless renderer and
+// every exporter (audio mix, captions) read positions from here so they cannot disagree.
+
+export interface SceneTiming {
+  startFrame: number;
+  durationInFrames: number;
+  endFrame: number; // Exclusive
+  transitionInFrames: number; // Overlap with the previous scene (0 for the first scene and cuts)
+  transitionOutFrames: number; // End of the scene covered by the next scene's transition (0 for the last scene)
+  audioOffset: number; // Seconds from the start of the video where the scene's voice clip starts
+}
+
+export interface Timeline {
+  scenes: SceneTiming[];
+  durationInFrames: number;
+  durationInSeconds: number;
+}
+
+export const getSceneDurationInFrames = (scene: Scene) => Math.ceil(scene.durationInSeconds * FPS);
+
+// Silence between the end of a voice clip and the next scene's transition
+const VOICE_GAP_SECONDS = 0.1;
+
+// A transition cannot outlast either scene, or a sequence would start before the previous one.
+// The incoming voice starts with the transition, so it also only covers the previous scene's
+// silent tail: two speakers never overlap.
+const getOverlapFrames = (scene: Scene, index: number, previous: Scene | undefined, previousFrames: number, frames: number) => {
+  if (index === 0 || !previous) return 0;
+  const transition = getSceneTransition(scene, index);
+  if (transition.type === 'cut') return 0;
+  const silentFrames = previous.audioUrl && previous.audioDuration
+    ? previousFrames - Math.ceil(previous.audioDuration * FPS)
+    : previousFrames - 1;
+  return Math.max(0, Math.min(transition.durationInFrames, previousFrames - 1, frames - 1, silentFrames));
+};
+
+// Scene length a voice clip needs: the clip, the next scene's transition, which plays over this
+// scene's end, and a short gap. The last scene keeps a default transition's length as its outro.
+export const getSceneSecondsForAudio = (scenes: Scene[], index: number, audioDuration: number) => {
+  const next = scenes[index + 1];
+  const transition = next ? getSceneTransition(next, index + 1) : DEFAULT_TRANSITION;
+  const overlapFrames = transition.type === 'cut' ? 0 : transition.durationInFrames;
+  return audioDuration + overlapFrames / FPS + VOICE_GAP_SECONDS;
+};
+
+export const buildTimeline = (scenes: Scene[]): Timeline => {
+  const timings: SceneTiming[] = [];
+  scenes.forEach((scene, index) => {
+    const durationInFrames = getSceneDurationInFrames(scene);
+    const previous = timings[index - 1];
+    const transitionInFrames = getOverlapFrames(scene, index, scenes[index - 1], previous?.durationInFrames ?? 0, durationInFrames);
+    const startFrame = previous ? previous.endFrame - transitionInFrames : 0;
+    timings.push({
+      startFrame,
+      durationInFrames,
+      endFrame: startFrame + durationInFrames,
+      transitionInFrames,
+      transitionOutFrames: 0,
+      audioOffset: startFrame / FPS,
+    });
+  });
+  timings.forEach((timing, index) => {
+    timing.transitionOutFrames = timings[index + 1]?.transitionInFrames ?? 0;
+  });
+
+  const durationInFrames = timings.reduce((max, timing) => Math.max(max, timing.endFrame), 0);
+  return { scenes: timings, durationInFrames, durationInSeconds: durationInFrames / FPS };
+};
+
+export const getDurationInFrames = (scenes: Scene[]) => buildTimeline(scenes).durationInFrames;
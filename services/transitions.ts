@@ -0,0 +1,51 @@
+import { Scene, SceneTransition, TransitionType, TRANSITION_DURATION_IN_FRAMES } from "../types";
+
+// Transition library. A transition belongs to the incoming scene and plays while it overlaps
+// the end of the previous one; services/timeline.ts turns the durations into frame positions.
+
+export const TRANSITIONS: { id: TransitionType; label: string }[] = [
+  { id: 'cut', label: 'Cut' },
+  { id: 'crossfade', label: 'Crossfade' },
+  { id: 'slide-left', label: 'Slide left' },
+  { id: 'slide-right', label: 'Slide right' },
+  { id: 'slide-up', label: 'Slide up' },
+  { id: 'slide-down', label: 'Slide down' },
+  { id: 'zoom', label: 'Zoom' },
+  { id: 'wipe', label: 'Wipe' },
+];
+
+export const TRANSITION_TYPES: TransitionType[] = TRANSITIONS.map(transition => transition.id);
+
+export const DEFAULT_TRANSITION: SceneTransition = { type: 'slide-left', durationInFrames: TRANSITION_DURATION_IN_FRAMES };
+
+// The first scene has nothing to overlap; it fades in from black unless it sets its own transition
+export const INTRO_TRANSITION: SceneTransition = { type: 'crossfade', durationInFrames: 20 };
+
+export const MAX_TRANSITION_FRAMES = 60;
+
+export const getSceneTransition = (scene: Scene, index: number): SceneTransition =>
+  scene.transition ?? (index === 0 ? INTRO_TRANSITION : DEFAULT_TRANSITION);
+
+export interface TransitionStyle {
+  transform?: string;
+  opacity?: number;
+  clipPath?: string;
+}
+
+// Style of the incoming scene at progress 0 (start) → 1 (fully in)
+export const getTransitionStyle = (type: TransitionType, progress: number): TransitionStyle => {
+  const remaining = (1 - progress) * 100;
+  switch (type) {
+    case 'crossfade': return { opacity: progress };
+    case 'slide-left': return { transform: `translateX(${remaining}%)` };
+    case 'slide-right': return { transform: `translateX(${-remaining}%)` };
+    case 'slide-up': return { transform: `translateY(${remaining}%)` };
+    case 'slide-down': return { transform: `translateY(${-remaining}%)` };
+    case 'zoom': return { transform: `scale(${1.3 - 0.3 * progress})`, opacity: progress };
+    case 'wipe': return { clipPath: `inset(0 ${remaining}% 0 0)` };
+    default: return {};
+  }
+};
+
+// Slides draw a shadow on the scene they cover
+export const isSlideTransition = (type: TransitionType) => type.startsWith('slide-');
@@ -0,0 +1,112 @@
+import { SpeechEngine, SpeechRequest } from "../types";
+import { openDatabase, requestToPromise, transactionDone, STORES } from "./db";
+
+// Content-addressed cache of synthesized speech. The key hashes everything that changes the
+// audio: normalized text, speaker, the voice of every cast member (multi-speaker engines
+// voice the whole cast), engine and model. Identical lines are never synthesized twice,
+// across scenes and projects.
+
+export interface TtsCacheEntry {
+  key: string;
+  engine: string;
+  model: string;
+  speaker: string;
+  voice: string;
+  text: string;
+  audio: Blob;
+  duration: number;
+  size: number; // Bytes
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+// Oldest entries are evicted beyond this size after each write
+const MAX_CACHE_BYTES = 300 * 1024 * 1024;
+
+// Whitespace and full/half-width variants do not change what is spoken
+const normalizeText = (text: string) => text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+
+export const getSpeechCacheKey = async (engine: SpeechEngine, { text, speaker, cast, voices }: SpeechRequest) => {
+  const castVoices = cast
+    .map(m => `${m.displayName}=${voices[m.id]}`)
+    .sort()
+    .join('|');
+  const material = JSON.stringify([engine.id, engine.model, speaker.displayName, castVoices, normalizeText(text)]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Cache failures never block synthesis; they only cost a cache miss
+export const getCachedSpeech = async (key: string): Promise<TtsCacheEntry | undefined> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.ttsCache, 'readwrite');
+    const store = tx.objectStore(STORES.ttsCache);
+    const entry = await requestToPromise(store.get(key)) as TtsCacheEntry | undefined;
+    if (entry) store.put({ ...entry, lastUsedAt: Date.now() });
+    await transactionDone(tx);
+    return entry;
+  } catch (e) {
+    console.warn("TTS cache read failed", e);
+    return undefined;
+  }
+};
+
+export const putCachedSpeech = async (entry: Omit<TtsCacheEntry, 'size' | 'createdAt' | 'lastUsedAt'>): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const now = Date.now();
+    const tx = db.transaction(STORES.ttsCache, 'readwrite');
+    tx.objectStore(STORES.ttsCache).put({ ...entry, size: entry.audio.size, createdAt: now, lastUsedAt: now });
+    await transactionDone(tx);
+    await trimSpeechCache(MAX_CACHE_BYTES);
+  } catch (e) {
+    console.warn("TTS cache write failed", e);
+  }
+};
+
+export const listSpeechCache = async (): Promise<TtsCacheEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.ttsCache, 'readonly');
+  const entries = await requestToPromise(tx.objectStore(STORES.ttsCache).getAll()) as TtsCacheEntry[];
+  return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+};
+
+const deleteKeys = async (keys: string[]) => {
+  if (keys.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.ttsCache, 'readwrite');
+  const store = tx.objectStore(STORES.ttsCache);
+  keys.forEach(key => store.delete(key));
+  await transactionDone(tx);
+};
+
+export const deleteCachedSpeech = (key: string) => deleteKeys([key]);
+
+export const clearSpeechCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.ttsCache, 'readwrite');
+  tx.objectStore(STORES.ttsCache).clear();
+  await transactionDone(tx);
+};
+
+// Removes entries not used for maxAgeMs; returns how many were removed
+export const evictUnusedSpeech = async (maxAgeMs: number): Promise<number> => {
+  const cutoff = Date.now() - maxAgeMs;
+  const stale = (await listSpeechCache()).filter(e => e.lastUsedAt < cutoff).map(e => e.key);
+  await deleteKeys(stale);
+  return stale.length;
+};
+
+// Least recently used entries go first until the cache fits in maxBytes
+export const trimSpeechCache = async (maxBytes: number): Promise<number> => {
+  const entries = await listSpeechCache();
+  let total = entries.reduce((acc, e) => acc + e.size, 0);
+  const evicted: string[] = [];
+  for (let i = entries.length - 1; i >= 0 && total > maxBytes; i--) {
+    total -= entries[i].size;
+    evicted.push(entries[i].key);
+  }
+  await deleteKeys(evicted);
+  return evicted.length;
+};
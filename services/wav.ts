@@ -0,0 +1,134 @@
+// Minimal RIFF/WAVE helpers for integer PCM
+
+const writeString = (view: DataView, offset: number, string: string) => {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i));
+  }
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Wraps little-endian 16-bit mono PCM bytes in a WAV header
+export const pcm16ToWavBlob = (pcm: Uint8Array, sampleRate: number): Blob => {
+  const dataLength = pcm.byteLength;
+  const buffer = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(buffer);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  new Uint8Array(buffer).set(pcm, 44);
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+// Interleaves float channels in [-1, 1] into a 16- or 24-bit PCM WAV
+export const encodeWav = (channels: Float32Array[], sampleRate: number, bitDepth: 16 | 24): Blob => {
+  const bytesPerSample = bitDepth / 8;
+  const frameCount = channels[0]?.length ?? 0;
+  const blockAlign = channels.length * bytesPerSample;
+  const dataLength = frameCount * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(buffer);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  const max = bitDepth === 16 ? 0x7FFF : 0x7FFFFF;
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (const samples of channels) {
+      const sample = Math.max(-1, Math.min(1, samples[i]));
+      const value = Math.round(sample < 0 ? sample * (max + 1) : sample * max);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xFF);
+        view.setUint8(offset + 1, (value >> 8) & 0xFF);
+        view.setUint8(offset + 2, (value >> 16) & 0xFF);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+// Float samples in [-1, 1] to 16-bit PCM bytes
+export const floatToPcm16 = (samples: Float32Array): Uint8Array => {
+  const view = new DataView(new ArrayBuffer(samples.length * 2));
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+  }
+  return new Uint8Array(view.buffer);
+};
+
+// Reads 16-bit PCM WAV (as written by pcm16ToWavBlob) into mono float samples.
+// Returns null for other formats so callers can fall back to the Web Audio decoder.
+export const decodePcm16Wav = (bytes: ArrayBuffer): { samples: Float32Array; sampleRate: number } | null => {
+  const view = new DataView(bytes);
+  const readTag = (offset: number) => String.fromCharCode(...new Uint8Array(bytes, offset, 4));
+  if (bytes.byteLength < 12 || readTag(0) !== 'RIFF' || readTag(8) !== 'WAVE') return null;
+
+  let offset = 12;
+  let sampleRate = 0;
+  let channels = 0;
+  let bitDepth = 0;
+
+  while (offset + 8 <= bytes.byteLength) {
+    const tag = readTag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (tag === 'fmt ') {
+      if (view.getUint16(body, true) !== 1) return null; // Not integer PCM
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitDepth = view.getUint16(body + 14, true);
+    } else if (tag === 'data') {
+      if (bitDepth !== 16 || channels < 1) return null;
+      const frameCount = Math.floor(Math.min(size, bytes.byteLength - body) / (2 * channels));
+      const samples = new Float32Array(frameCount);
+      for (let i = 0; i < frameCount; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) {
+          sum += view.getInt16(body + (i * channels + c) * 2, true) / 0x8000;
+        }
+        samples[i] = sum / channels;
+      }
+      return { samples, sampleRate };
+    }
+
+    offset = body + size + (size % 2); // Chunks are word aligned
+  }
+  return null;
+};
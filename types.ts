@@ -1,20 +1,115 @@
 
+export type ChartType = 'bar' | 'line' | 'pie' | 'ranking' | 'counter';
+
+export interface ChartSeries {
+  name: string; // referenceMaterial column header
+  values: (number | null)[]; // One per label; null where the cell is not a number
+}
+
+export interface ChartSpec {
+  type: ChartType;
+  labelHeader: string; // referenceMaterial column naming each point (e.g. horse names)
+  valueHeaders: string[]; // referenceMaterial columns drawn as series
+  rowIndices: number[]; // referenceMaterial rows drawn, in order
+  unit?: string; // Value suffix, e.g. "%" or "倍"
+  // Resolved from referenceMaterial when the chart is chosen, so rendering needs only the scene
+  labels: string[];
+  series: ChartSeries[];
+}
+
 export interface DataOverlay {
   title: string;
   subhead?: string;
   headers: string[];
   row: string[];
+  chart?: ChartSpec; // Drawn instead of the header/value grid
+}
+
+export type LayoutId = 'data-grid' | 'big-stat' | 'comparison' | 'ranked-list' | 'quote' | 'full-bleed' | 'title-card';
+
+export interface ComparisonSide {
+  label: string;
+  value: string;
+  note?: string;
+}
+
+export interface RankedItem {
+  label: string;
+  value?: string;
+}
+
+// Layout-specific content; each layout reads only its own fields and derives missing ones
+// from the scene's dataOverlay
+export interface LayoutProps {
+  value?: string; // big-stat: the headline number
+  label?: string; // big-stat: what the number measures
+  left?: ComparisonSide; // comparison
+  right?: ComparisonSide; // comparison
+  items?: RankedItem[]; // ranked-list, top first
+  quote?: string; // quote
+  attribution?: string; // quote
+  caption?: string; // full-bleed
+  kicker?: string; // title-card: small line above the title (e.g. "第3回")
+}
+
+// Direction is the way the incoming scene moves: 'slide-left' enters from the right edge
+export type TransitionType = 'cut' | 'crossfade' | 'slide-left' | 'slide-right' | 'slide-up' | 'slide-down' | 'zoom' | 'wipe';
+
+export interface SceneTransition {
+  type: TransitionType;
+  durationInFrames: number; // Overlap with the previous scene; ignored for 'cut'
+}
+
+export type AssetKind = 'image' | 'video';
+
+// Background image or video loop in the local asset library. The bytes live in IndexedDB.
+export interface BackgroundAsset {
+  id: string;
+  name: string;
+  kind: AssetKind;
+  mimeType: string;
+  tags: string[]; // Lowercase; matched against scene keywords and visual descriptions
+  size: number; // Bytes
+  createdAt: number;
+}
+
+// A library asset with a URL the player (blob:) or the renderer (http:) can load
+export interface LibraryAsset extends BackgroundAsset {
+  url: string;
+}
+
+// Manual background choice; scenes without one are matched to the library by tags
+export interface SceneBackground {
+  source: 'asset' | 'generated';
+  assetId?: string; // Required for 'asset'
+}
+
+export interface SubtitleChunk {
+  text: string;
+  start: number; // Seconds from the start of the scene (= start of its audio)
+  end: number;
+  manual?: boolean; // Set when the timing was adjusted by hand in the editor
 }
 
 export interface Scene {
+  id?: string; // Stable key in the editor while scenes move; scripts get one per scene when opened
   dialogue: string; // Used for Audio/TTS (The "Notes")
   visualDescription: string;
-  keyword: string; // For image generation/fetching
+  keyword: string; // Matched against background asset tags
   durationInSeconds: number;
   backgroundColor: string;
   audioUrl?: string;
+  audioText?: string; // Text the current audio was synthesized from; audio is stale once the spoken text differs
+  audioDuration?: number; // Length of the voice clip in seconds (durationInSeconds adds a tail after it)
+  audioLoudness?: number; // Integrated loudness of the voice clip in LUFS, measured when it was generated
+  gainDb?: number; // Manual voice gain on top of loudness normalization
   phoneticDialogue?: string; // For better TTS pronunciation (Hiragana)
   dataOverlay: DataOverlay; // The text to be displayed on screen
+  subtitleChunks?: SubtitleChunk[]; // Caption timing aligned to the audio; heuristic timing is used when absent
+  layout?: LayoutId; // Screen template; 'data-grid' when absent
+  layoutProps?: LayoutProps;
+  transition?: SceneTransition; // How the scene enters; the default slide when absent
+  background?: SceneBackground; // Manual override of the tag-matched background
 }
 
 export interface ReferenceMaterial {
@@ -22,6 +117,7 @@ export interface ReferenceMaterial {
   subhead: string;
   headers: string[];
   rows: string[][];
+  source?: string; // Set when imported from a file; the values are then ground truth for overlays
 }
 
 export interface VideoScript {
@@ -32,4 +128,202 @@ export interface VideoScript {
 }
 
 export const FPS = 30;
-export const TRANSITION_DURATION_IN_FRAMES = 15; // 0.5 seconds overlap
+export const TRANSITION_DURATION_IN_FRAMES = 15; // Default transition: 0.5 seconds overlap
+
+export type AspectRatio = '16:9' | '1:1' | '9:16';
+
+export interface CastMember {
+  id: string;
+  displayName: string; // Dialogue prefix and TTS speaker name (e.g. "じぇんば")
+  romanizedName: string; // e.g. "Jenba"
+  role: string; // e.g. "Host / MC"
+  personality: string; // Personality and tone, injected into the script prompt
+  voiceName: string; // Prebuilt TTS voice (e.g. "Charon")
+}
+
+// --- Script Generation ---
+export type ScriptProviderId = 'gemini' | 'local';
+
+export interface ScriptGenerationOptions {
+  cast: CastMember[];
+  lexicon?: LexiconEntry[]; // Readings the model should use in phoneticDialogue
+  referenceData?: ReferenceMaterial; // Imported table the script must cite instead of inventing data
+  model?: string; // Provider-specific model override
+  temperature?: number;
+}
+
+export interface ScriptProvider {
+  id: ScriptProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  generateScript: (prompt: string, options: ScriptGenerationOptions) => Promise<VideoScript>;
+}
+
+// --- Speech Synthesis ---
+export type SpeechEngineId = 'gemini' | 'local';
+
+export interface SpeechSettings {
+  engine: SpeechEngineId;
+  voiceMap: Record<string, string>; // Cast member id -> engine voice; unknown voices fall back to the engine default
+}
+
+export interface SpeechRequest {
+  text: string; // Prefixed with the speaker's display name
+  speaker: CastMember;
+  cast: CastMember[];
+  voices: Record<string, string>; // Resolved voice per cast member id
+  signal?: AbortSignal; // Engines should stop and reject with an AbortError when it fires
+}
+
+export interface SynthesizedSpeech {
+  audio: Blob; // WAV
+  duration: number; // Seconds
+  sampleRate: number;
+}
+
+export interface SpeechEngine {
+  id: SpeechEngineId;
+  label: string;
+  model: string; // Part of the TTS cache key; change it when the engine's output changes
+  requiresApiKey: boolean;
+  voices: string[];
+  defaultVoice: (member: CastMember, index: number) => string;
+  synthesize: (request: SpeechRequest) => Promise<SynthesizedSpeech>;
+}
+
+// --- Music Bed ---
+export type MusicSource = 'none' | 'loop' | 'upload';
+
+export interface MusicSettings {
+  source: MusicSource;
+  loopId?: string; // Built-in loop when source is 'loop'
+  fileName?: string; // Original name of an uploaded track
+  url?: string; // Runtime only, like Scene.audioUrl
+  volume: number; // 0-1 gain while nobody is speaking
+  duckLevel: number; // Fraction of the volume kept under dialogue
+  fadeInSeconds: number;
+  fadeOutSeconds: number;
+  loop: boolean;
+}
+
+// --- Mastering ---
+export type ExportBitDepth = 16 | 24;
+export type ExportSampleRate = 44100 | 48000;
+export type AudioExportFormat = 'wav' | 'mp3';
+
+export interface MasteringSettings {
+  normalize: boolean; // Bring every voice clip to targetLufs
+  targetLufs: number; // e.g. -16 for podcasts, -14 for YouTube
+  limiter: boolean;
+  ceilingDb: number; // Limiter ceiling in dBFS
+  stereo: boolean; // Export two channels; voices are panned per speaker
+  pan: Record<string, number>; // Cast member id → -1 (left) … 1 (right)
+  bitDepth: ExportBitDepth;
+  sampleRate: ExportSampleRate;
+}
+
+// --- Podcast ---
+export type Mp3Bitrate = 64 | 96 | 128 | 192; // kbps
+
+// Episode metadata written to the ID3 tag of the MP3 export; the episode title is the topic
+export interface PodcastSettings {
+  showName: string;
+  episodeNumber?: number;
+  coverUrl?: string; // JPEG or PNG data URL, so it is saved with the project and bundle
+  bitrate: Mp3Bitrate;
+}
+
+// --- Chapters ---
+// Grouping of scenes into chapters, shared by the MP3 chapter frames and the chapter/show-notes exports
+export interface ChapterSettings {
+  mergeSameTitle: boolean; // Consecutive scenes with the same overlay title form one chapter
+  minChapterSeconds: number; // Shorter chapters are folded into a neighbour; YouTube needs 10
+}
+
+// --- Pronunciation Lexicon ---
+export interface LexiconEntry {
+  surface: string; // As written in the script: kanji, katakana or romaji (e.g. "ドウデュース")
+  reading: string; // Hiragana sent to TTS instead (e.g. "どうでゅーす")
+}
+
+// --- Theme ---
+export type LogoPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface ThemePalette {
+  primary: string; // Headers, labels and chart series
+  accent: string; // Subtitles, highlights and rank #1
+  text: string; // Titles and values
+  mutedText: string; // Subheads and captions
+  background: string; // Behind the scene image
+}
+
+export interface ThemeCardStyle {
+  color: string;
+  opacity: number; // 0..1
+  borderColor: string;
+  radius: number; // px at composition size
+  blur: number; // Backdrop blur in px
+}
+
+export interface ThemeSubtitleStyle {
+  textColor: string;
+  backgroundColor: string;
+  backgroundOpacity: number; // 0..1
+}
+
+export interface ThemeProgressBar {
+  visible: boolean;
+  startColor: string;
+  endColor: string;
+  height: number; // px
+}
+
+// Visual identity of a show, passed to the composition as an input prop
+export interface Theme {
+  presetId: string; // Built-in preset the theme started from
+  name: string;
+  fontFamily: string; // CSS font stack for body text
+  headingFontFamily: string;
+  palette: ThemePalette;
+  card: ThemeCardStyle;
+  subtitle: ThemeSubtitleStyle;
+  progressBar: ThemeProgressBar;
+  logoUrl?: string; // Data URL, so it is saved with the project and bundle
+  logoPosition: LogoPosition;
+  logoSize: number; // Height as a fraction of the frame's shorter side
+  watermark: string; // Corner badge text; empty hides it
+}
+
+// --- Project Persistence ---
+export interface ProjectSettings {
+  aspectRatio: AspectRatio;
+  introBackground: string;
+  cast: CastMember[];
+  speech: SpeechSettings;
+  music: MusicSettings;
+  lexicon: LexiconEntry[]; // Project terms; they override the global lexicon
+  theme: Theme;
+  mastering: MasteringSettings;
+  podcast: PodcastSettings;
+  chapters: ChapterSettings;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  topic: string;
+  sceneCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProjectRecord extends ProjectSummary {
+  script: VideoScript; // Stored without audioUrl (blob URLs do not survive a reload)
+  settings: ProjectSettings;
+}
+
+export interface LoadedProject {
+  summary: ProjectSummary;
+  script: VideoScript; // audioUrl rehydrated from the stored WAV bytes
+  settings: ProjectSettings;
+}